@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandBody, planSync, RemoteCommands, ScopePlan, SyncOptions } from './helpers/sync';
+
+// Usage: node dist/checkSync.js [fixture]...
+// Runs the sync planner against the fixture JSON in fixtures/sync, without Discord,
+// and checks each plan against the one the fixture expects. Every fixture is run unless some are named.
+
+// What a fixture expects of a single scope, by command name.
+interface ExpectedScope {
+  add: string[];
+  edit: Array<{ name: string, changes: string[] }>;
+  delete: string[];
+  unchanged: number;
+  // Every command the scope should hold afterwards [optional]
+  commands?: string[];
+}
+
+// A planner fixture, with the plan it should produce.
+interface SyncFixture {
+  description: string;
+  options: SyncOptions;
+  local: CommandBody[];
+  remote: RemoteCommands;
+  expected: {
+    global: ExpectedScope;
+    guilds?: { [guildId: string]: ExpectedScope };
+  };
+}
+
+const fixtureDirectory = path.resolve(__dirname, '../fixtures/sync');
+
+// Describe a scope's plan in the same shape as a fixture's expectations
+function summariseScope(plan: ScopePlan, withCommands: boolean): ExpectedScope {
+  return {
+    add: plan.add.map((command) => command.name),
+    edit: plan.edit.map((command) => ({ name: command.name, changes: command.changes })),
+    delete: plan.delete.map((command) => command.name),
+    unchanged: plan.unchanged,
+    ...(withCommands ? { commands: plan.commands.map((command) => command.name) } : {}),
+  };
+}
+
+// Run a fixture, returning a line for each scope that did not match
+function checkFixture(fixture: SyncFixture): string[] {
+  const plan = planSync(fixture.local, fixture.remote, fixture.options);
+  const failures: string[] = [];
+
+  const compare = (scopeName: string, expected: ExpectedScope | undefined, scopePlan: ScopePlan | undefined) => {
+    if (!expected || !scopePlan) {
+      failures.push(`${scopeName}: ${scopePlan ? 'not in the fixture' : 'missing from the plan'}`);
+      return;
+    }
+    const actual = summariseScope(scopePlan, expected.commands !== undefined);
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(`${scopeName}:\n    expected ${JSON.stringify(expected)}\n    received ${JSON.stringify(actual)}`);
+    }
+  };
+
+  compare('Global', fixture.expected.global, plan.global);
+  const guildIds = new Set([...Object.keys(fixture.expected.guilds || {}), ...plan.guilds.map((scopePlan) => scopePlan.guildId!)]);
+  for (const guildId of guildIds) {
+    compare(`Guild ${guildId}`, fixture.expected.guilds?.[guildId], plan.guilds.find((scopePlan) => scopePlan.guildId === guildId));
+  }
+
+  return failures;
+}
+
+// Main Function
+function main() {
+  const requested = process.argv.slice(2);
+  const files = fs.readdirSync(fixtureDirectory)
+    .filter((file) => file.endsWith('.json'))
+    .filter((file) => requested.length === 0 || requested.includes(path.basename(file, '.json')));
+
+  if (files.length === 0) throw new Error(`No fixtures found in ${fixtureDirectory}`);
+
+  let failed = 0;
+  for (const file of files) {
+    const fixture: SyncFixture = JSON.parse(fs.readFileSync(path.join(fixtureDirectory, file), 'utf8'));
+    const failures = checkFixture(fixture);
+
+    console.log(`${failures.length === 0 ? 'PASS' : 'FAIL'} ${file} - ${fixture.description}`);
+    failures.forEach((failure) => console.log(`  ${failure}`));
+    if (failures.length > 0) failed++;
+  }
+
+  console.log(`\n${files.length - failed} of ${files.length} fixtures passed.`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
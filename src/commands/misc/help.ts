@@ -1,4 +1,5 @@
 import {
+    AutocompleteInteraction,
     ChatInputCommandInteraction,
     EmbedBuilder,
     Message
@@ -6,7 +7,6 @@ import {
 
 import {
     applyEmbedStructure,
-    handlePagination,
     generateBotInvite,
     interactionUser,
     errorEmbed,
@@ -15,12 +15,19 @@ import {
     getPostPrefix,
     findAliases
 } from '../../helpers/functions';
+import { getGuildSettings } from '../../handlers/guildSettings';
+import { accessContext, checkCommandAccess } from '../../helpers/access';
+import { Command } from '../../handlers/command';
+import { commandDescription, slashPath } from '../../helpers/command';
+import { paginate } from '../../helpers/components';
+import { t } from '../../helpers/i18n';
 import { CustomClient } from '../../index';
-import { Config } from '../../config';
+import { Config, getConfig } from '../../config';
 
 module.exports = {
     name: "help",
     aliases: ["h", "halp"],
+    topLevel: true,
     cooldown: 2,
     usage: "help [category|command]",
     description: "Help for all commands, or for one specific command",
@@ -29,37 +36,40 @@ module.exports = {
             string: {
                 name: "category",
                 description: "The category to view commands for",
-                required: false
+                required: false,
+                autocomplete: true
             }
         },
         {
             string: {
                 name: "command",
                 description: "The command to view help for",
-                required: false
+                required: false,
+                autocomplete: true
             }
         }
     ],
-    textExtract: (messageInteraction: Message, client: CustomClient) => {
-        const data = messageInteraction.content.split(" ").slice(1)[0];
-        return {
-            selectedCommand: findCommand(data, client),
-            selectedCategory: findCategory(data),
-        }
-    },
-    slashExtract: (commandInteraction: ChatInputCommandInteraction, client: CustomClient) => {
-        const commandName = findCommand(commandInteraction.options.getString('command'), client);
-        const categoryName = findCategory(commandInteraction.options.getString('category'));
-        return {
-            selectedCommand: commandName,
-            selectedCategory: categoryName,
-        }
+    autocomplete: async (autocompleteInteraction: AutocompleteInteraction, client: CustomClient) => {
+        const focused = autocompleteInteraction.options.getFocused(true);
+        const query = focused.value.toLowerCase();
+
+        // Suggest visible categories or commands, depending on which option is being typed
+        const suggestions = focused.name === "category"
+            ? getConfig().categoryDefinitions.filter(category => !category.hidden).map(category => category.name.toLowerCase())
+            : client.commands.filter(command => !command.ownerOnly).map(command => command.name);
+
+        await autocompleteInteraction.respond(
+            suggestions
+                .filter(suggestion => suggestion.includes(query))
+                .slice(0, 25)
+                .map(suggestion => ({ name: suggestion, value: suggestion }))
+        );
     },
     execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
         optionData: {
-            selectedCommand: any | null,
-            selectedCategory: any | null
-        }) => {
+            category: string | null,
+            command: string | null
+        }, locale: string) => {
 
         const ourUser = interactionUser(interaction);
         const emotes: [string, string, string, string] = [
@@ -68,62 +78,82 @@ module.exports = {
             '<:rightarrow:871469964559777802>',
             '<:rightskip:871470044259975229>'
         ];
+        // Only list what can be used in this channel by this member
+        const guildSettings = await getGuildSettings(interaction.guild!.id, config.db);
+        const context = accessContext(interaction);
+        const isAvailable = (command: Command) => checkCommandAccess(command, guildSettings, context, locale) === null;
+
         const commands = (category: String) => {
-            return client.commands.filter((command) => command.category === category).map((command) => {
+            // Slash users are only shown commands they can invoke as slash commands
+            const isInvocable = (command: Command) => !(interaction instanceof ChatInputCommandInteraction) || slashPath(command) !== null;
+            return client.commands.filter((command) => command.category === category && isAvailable(command) && isInvocable(command)).map((command) => {
                 const commandPostPrefix = getPostPrefix(client, interaction, command.name);
                 return `${prefix}${commandPostPrefix}${command.name}`
             });
         }
 
+        // Categories are hidden when configured so, disabled, or when none of their commands are available
+        const isHiddenCategory = (category: Config['categoryDefinitions'][number]) => category.hidden
+            || guildSettings.disabledCategories.includes(category.name.toLowerCase())
+            || (client.commands.some((command) => command.category === category.name) && commands(category.name).length === 0);
+
         // Define the fields present on all embeds.
         const moreHelpField = {
-            name: 'Need more help?',
-            value: `\`${prefix}help <command>\`\nFor detailed information and help on specific commands`
+            name: t(locale, 'help.moreHelpName'),
+            value: t(locale, 'help.moreHelpValue', { command: `${prefix}help <command>` })
         }
+        const link = (label: string, url: string) => `[${t(locale, `help.links.${label}`)}\](${url})`;
         const linkField = {
-            name: 'Links',
-            value: `[Invite\](${generateBotInvite(interaction)}) | [Support\](${config.supportInvite}) | [Vote\](${config.topGGVote})` + '\n' +
-                `[Donate\](${config.donation}) | [ToS\](${config.ToS}) | [Privacy\](${config.privacyPolicy})`,
+            name: t(locale, 'help.linksName'),
+            value: `${link('invite', generateBotInvite(interaction))} | ${link('support', config.supportInvite)} | ${link('vote', config.topGGVote)}` + '\n' +
+                `${link('donate', config.donation)} | ${link('terms', config.ToS)} | ${link('privacy', config.privacyPolicy)}`,
             inline: true
         }
 
         // Initialise first embed and an array to store them all
         const embedDefinitions: { category: any, embed: EmbedBuilder }[] = [];
+        // Pages are named after their category in the page select menu
+        const pageLabel = (def: { category: any }) => def.category ? def.category.name : t(locale, 'help.moduleTitle');
 
         // Dynamically generate the description for the help embed
         const categoryDescriptions = config.categoryDefinitions
-            .filter(category => !category.hidden)
-            .map(category => `\`${prefix}${getPostPrefix(client, interaction, "help")}help ${category.name.toLowerCase()}\` - **${category.name}** commands`)
+            .filter(category => !isHiddenCategory(category))
+            .map(category => t(locale, 'help.categoryLine', {
+                command: `${prefix}${getPostPrefix(client, interaction, "help")}help ${category.name.toLowerCase()}`,
+                category: category.name
+            }))
             .join('\n');
 
         const helpEmbed = new EmbedBuilder()
-            .setAuthor({ name: 'Help - Module', iconURL: config.helpIcon })
+            .setAuthor({ name: t(locale, 'help.moduleTitle'), iconURL: config.helpIcon })
             .setDescription(categoryDescriptions)
             .setThumbnail(config.helpIcon)
             .addFields(moreHelpField, linkField);
 
-        applyEmbedStructure(helpEmbed, prefix, false);
+        applyEmbedStructure(helpEmbed, prefix, false, locale);
 
 
         // Generate an embed for each category [As defined in config.ts]
         config.categoryDefinitions.forEach((category) => {
-            if (!category.hidden) {
+            if (!isHiddenCategory(category)) {
                 const embed = new EmbedBuilder()
-                    .setAuthor({ name: `Help - ${category.name} [${commands(category.name).length}]`, iconURL: config.helpIcon })
+                    .setAuthor({ name: t(locale, 'help.categoryTitle', { category: category.name, count: commands(category.name).length }), iconURL: config.helpIcon })
                     .setDescription(`\`\`\`python\n  \u0022${commands(category.name).join(", ")}\u0022\`\`\``)
                     .setThumbnail(category.icon)
                     .addFields(moreHelpField, linkField);
 
-                applyEmbedStructure(embed, prefix, false);
+                applyEmbedStructure(embed, prefix, false, locale);
                 embedDefinitions.push({ category: category, embed: embed });
             }
         });
 
         // Check if a category or command is specified
-        const selectedCategory = optionData.selectedCategory;
-        const selectedCommand = optionData.selectedCommand;
+        // Text arguments are positional, so a lone argument may name either one
+        const selectedCategory = findCategory(optionData.category);
+        const selectedCommand = findCommand(optionData.command, client)
+            || (selectedCategory ? null : findCommand(optionData.category, client));
 
-        if (selectedCategory && !selectedCategory.hidden) {
+        if (selectedCategory && !isHiddenCategory(selectedCategory)) {
             // Filter the embeds to start with the selected category
             let targetEmbedIndex: number = embedDefinitions.findIndex(def => def.category === selectedCategory);
             if (targetEmbedIndex !== -1) {
@@ -131,70 +161,78 @@ module.exports = {
                 embedDefinitions.unshift({ category: null, embed: helpEmbed });
                 targetEmbedIndex++;
 
-                const pages = [
-                    embedDefinitions[targetEmbedIndex].embed,
-                    ...embedDefinitions.slice(targetEmbedIndex + 1).map(def => def.embed),
-                    ...embedDefinitions.slice(0, targetEmbedIndex).map(def => def.embed)
+                const ordered = [
+                    embedDefinitions[targetEmbedIndex],
+                    ...embedDefinitions.slice(targetEmbedIndex + 1),
+                    ...embedDefinitions.slice(0, targetEmbedIndex)
                 ];
-                await handlePagination(interaction, ourUser.id, pages, emotes);
+                await paginate(interaction, ourUser.id, ordered.map(def => def.embed), { emojis: emotes, labels: ordered.map(pageLabel), locale });
             } else {
                 await interaction.reply({
-                    embeds: [errorEmbed(`The category "${selectedCategory.name}" does not exist or is hidden.`, prefix)],
+                    embeds: [errorEmbed(t(locale, 'help.categoryUnavailable', { category: selectedCategory.name }), prefix, { locale })],
                     ephemeral: true
                 });
             }
-        } else if (selectedCategory && selectedCategory.hidden) {
+        } else if (selectedCategory && isHiddenCategory(selectedCategory)) {
+            await interaction.reply({
+                embeds: [errorEmbed(t(locale, 'help.categoryUnavailable', { category: selectedCategory.name }), prefix, { locale })],
+                ephemeral: true
+            });
+        } else if (selectedCommand && !isAvailable(selectedCommand)) {
             await interaction.reply({
-                embeds: [errorEmbed(`The category "${selectedCategory.name}" does not exist or is hidden.`, prefix)],
+                embeds: [errorEmbed(t(locale, 'help.commandUnavailable', { command: selectedCommand.name }), prefix, { locale })],
                 ephemeral: true
             });
         } else if (selectedCommand) {
             // Display detailed help for the specific command
 
-            const cooldown = `${selectedCommand.cooldown ? `${selectedCommand.cooldown} second${selectedCommand.cooldown > 1 ? "s" : ""}` : "1 second"}`;
+            const cooldownSeconds = t(locale, 'help.cooldown', { count: selectedCommand.cooldown || 1 });
+            const cooldown = selectedCommand.cooldownScope && selectedCommand.cooldownScope !== "user"
+                ? t(locale, 'help.cooldownScope', { cooldown: cooldownSeconds, scope: selectedCommand.cooldownScope })
+                : cooldownSeconds;
             const commandPostPrefix = getPostPrefix(client, interaction, selectedCommand.name);
-            const aliases = findAliases(selectedCommand, interaction, prefix);
+            const aliases = findAliases(selectedCommand, interaction, prefix, locale);
+            const permissions = (held?: Command['botPermissions']) => (held || []).join(", ") || t(locale, 'help.noPermissions');
 
             const commandHelpEmbed = new EmbedBuilder()
                 .setAuthor({
-                    name: `Command Help - ${selectedCommand.name.charAt(0).toUpperCase() + selectedCommand.name.slice(1)}`,
+                    name: t(locale, 'help.commandTitle', { command: selectedCommand.name.charAt(0).toUpperCase() + selectedCommand.name.slice(1) }),
                     iconURL: config.helpIcon
                 })
                 .addFields(
-                    { name: "Category", value: `\`${selectedCommand.category || "Miscellaneous"}\``, inline: true },
-                    { name: "Usage", value: `\`${prefix}${commandPostPrefix}${selectedCommand.usage || selectedCommand.name}\``, inline: true },
-                    { name: "Description", value: selectedCommand.description || "No description provided.", inline: false },
+                    { name: t(locale, 'help.fields.category'), value: `\`${selectedCommand.category || t(locale, 'help.defaultCategory')}\``, inline: true },
+                    { name: t(locale, 'help.fields.usage'), value: `\`${prefix}${commandPostPrefix}${selectedCommand.usage || selectedCommand.name}\``, inline: true },
+                    { name: t(locale, 'help.fields.description'), value: commandDescription(selectedCommand, locale) || t(locale, 'help.noDescription'), inline: false },
                     {
-                        name: "Aliases",
+                        name: t(locale, 'help.fields.aliases'),
                         value: aliases,
                         inline: true
                     },
                     {
-                        name: "Cooldown",
+                        name: t(locale, 'help.fields.cooldown'),
                         value: cooldown,
                         inline: true
                     },
                     {
-                        name: "Required Permissions",
-                        value: `Bot: ${(selectedCommand.botPermissions || []).join(", ") || "None"}` + '\n' +
-                            `Member: ${(selectedCommand.memberPermissions || []).join(", ") || "None"}`,
+                        name: t(locale, 'help.fields.permissions'),
+                        value: t(locale, 'help.botPermissions', { permissions: permissions(selectedCommand.botPermissions) }) + '\n' +
+                            t(locale, 'help.memberPermissions', { permissions: permissions(selectedCommand.memberPermissions) }),
                         inline: false
                     },
                     linkField
                 )
                 .setThumbnail(config.helpIcon)
                 .setFooter({
-                    text: "Syntax: <> = required, [] = optional, | = OR",
+                    text: `${t(locale, 'embeds.syntaxName')}: ${t(locale, 'embeds.syntax')}`,
                     iconURL: config.embedStructure.footerIcon
                 })
 
-            applyEmbedStructure(commandHelpEmbed, prefix, false);
+            applyEmbedStructure(commandHelpEmbed, prefix, false, locale);
             await interaction.reply({ embeds: [commandHelpEmbed] });
         } else {
             // Fallback to the main help embed if no valid category or command is provided
-            const ourEmbeds = embedDefinitions.map(object => object.embed);
-            ourEmbeds.unshift(helpEmbed);
-            await handlePagination(interaction, ourUser.id, ourEmbeds, emotes);
+            embedDefinitions.unshift({ category: null, embed: helpEmbed });
+            await paginate(interaction, ourUser.id, embedDefinitions.map(def => def.embed), { emojis: emotes, labels: embedDefinitions.map(pageLabel), locale });
         }
     }
 }
\ No newline at end of file
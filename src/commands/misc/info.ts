@@ -1,5 +1,7 @@
 import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
 import { applyEmbedStructure, findUser } from '../../helpers/functions';
+import { collectShardStats, shardIds } from '../../helpers/shards';
+import { t } from '../../helpers/i18n';
 import { CustomClient } from '../../index';
 import { Config } from '../../config';
 
@@ -9,13 +11,14 @@ module.exports = {
     description: "Returns bot information and statistics",
     cooldown: 2,
     aliases: ["botstats", "botinfo"],
-    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config) => {
-        // Define the variables to be used in the embed
-        const guildCount = client.guilds.cache.size;
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config, optionData: object, locale: string) => {
+        // Define the variables to be used in the embed, guild, user and memory totals span every shard
+        const shardStats = await collectShardStats(client);
+        const guildCount = shardStats.reduce((sum, shard) => sum + shard.guilds, 0);
+        const userCount = shardStats.reduce((sum, shard) => sum + shard.users, 0);
+        const memoryUsage = (shardStats.reduce((sum, shard) => sum + shard.memoryBytes, 0) / 1024 / 1024).toFixed(2);
         const apiPing = Math.round(client.ws.ping);
         const latency = Math.abs(Math.round(Date.now() - interaction.createdTimestamp));
-        const memoryUsage = (process.memoryUsage().rss / 1024 / 1024).toFixed(2);
-        const userCount = client.guilds.cache.map((g: { memberCount: number; }) => g.memberCount || 0).reduce((x: number, y: number) => x + y, 0);
         const clientOwner = (await findUser(interaction, client, config.ownerId)).tag
 
         /**
@@ -25,16 +28,17 @@ module.exports = {
          */
         async function infoEmbed(cpuUsage: string) {
             const embed = new EmbedBuilder()
-                .setAuthor({ name: `Bot Statistics`, iconURL: client.user?.avatarURL() || '' })
-                .addFields({ name: 'Prefix', value: `\`${prefix}\`` },
-                    { name: 'Client Owner', value: `\`${clientOwner}\``, inline: true },
-                    { name: 'Guild Count', value: `\`${guildCount}\``, inline: true },
-                    { name: 'User Count', value: `\`${userCount}\``, inline: true },
-                    { name: 'API Ping', value: `\`${apiPing}ms\``, inline: true },
-                    { name: 'Client Latency', value: `\`${latency}ms\``, inline: true },
-                    { name: 'Memory Usage', value: `\`${memoryUsage}MB\``, inline: true },
-                    { name: 'CPU Usage', value: `\`${cpuUsage || "Calculating.."}\``, inline: true })
-            return applyEmbedStructure(embed, prefix);
+                .setAuthor({ name: t(locale, 'info.title'), iconURL: client.user?.avatarURL() || '' })
+                .addFields({ name: t(locale, 'info.prefix'), value: `\`${prefix}\`` },
+                    { name: t(locale, 'info.owner'), value: `\`${clientOwner}\``, inline: true },
+                    { name: t(locale, 'info.guilds'), value: `\`${guildCount}\``, inline: true },
+                    { name: t(locale, 'info.users'), value: `\`${userCount}\``, inline: true },
+                    { name: t(locale, 'info.apiPing'), value: `\`${apiPing}ms\``, inline: true },
+                    { name: t(locale, 'info.latency'), value: `\`${latency}ms\``, inline: true },
+                    { name: t(locale, 'info.memory'), value: `\`${memoryUsage}MB\``, inline: true },
+                    { name: t(locale, 'info.shards'), value: t(locale, 'info.shardsValue', { count: shardStats.length, shards: shardIds(client).join(", #") }), inline: true },
+                    { name: t(locale, 'info.cpu'), value: `\`${cpuUsage || t(locale, 'info.calculating')}\``, inline: true })
+            return applyEmbedStructure(embed, prefix, true, locale);
         }
 
         // Send the initial message with the CPU usage as "Calculating.."
@@ -0,0 +1,65 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser } from '../../helpers/functions';
+import { supportedLocales } from '../../handlers/guildSettings';
+import { setUserLocale } from '../../handlers/locale';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "mylocale",
+    aliases: ["mylanguage", "mylang"],
+    cooldown: 5,
+    usage: "mylocale <locale|reset>",
+    description: "Change the language the bot responds to you with",
+    options: [
+        {
+            string: {
+                name: "locale",
+                description: "The locale to use, for example fr, or \"reset\" to follow the server",
+                required: true,
+                autocomplete: true
+            }
+        }
+    ],
+    autocomplete: async (autocompleteInteraction: AutocompleteInteraction) => {
+        const query = autocompleteInteraction.options.getFocused().toLowerCase();
+        await autocompleteInteraction.respond(
+            ["reset", ...supportedLocales]
+                .filter(locale => locale.toLowerCase().includes(query))
+                .slice(0, 25)
+                .map(locale => ({ name: locale, value: locale }))
+        );
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            locale: string | null
+        }, locale: string) => {
+
+        // Locales are matched case-insensitively against those Discord supports
+        const requested = optionData.locale?.toLowerCase();
+        const chosen = supportedLocales.find(supported => supported.toLowerCase() === requested);
+
+        if (!requested || (requested !== "reset" && !chosen)) {
+            const locales = supportedLocales.map(supported => `\`${supported}\``).join(", ");
+            await interaction.reply({
+                embeds: [errorEmbed(t(locale, "locale.invalid", { locales }), prefix, { locale })],
+                ephemeral: true
+            });
+            return;
+        }
+
+        // Confirm in the chosen locale, the reset one is only known from the next command
+        const userLocale = chosen || null;
+        await setUserLocale(interactionUser(interaction).id, userLocale, config.db);
+
+        const responseLocale = userLocale || locale;
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(responseLocale, "locale.title") })
+            .setDescription(userLocale
+                ? t(responseLocale, "locale.userUpdated", { locale: userLocale })
+                : t(responseLocale, "locale.userReset"));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, responseLocale)] });
+    }
+}
@@ -0,0 +1,73 @@
+import { ChatInputCommandInteraction, ContextMenuCommandInteraction, EmbedBuilder, Message, User } from 'discord.js';
+import { applyEmbedStructure, interactionUser } from '../../helpers/functions';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+/**
+ * Simple function to format a date as a Discord timestamp
+ * @param date the date to format
+ * @returns the date and how long ago it was
+ */
+function timestamp(date: Date): string {
+    const seconds = Math.floor(date.getTime() / 1000);
+    return `<t:${seconds}:D> (<t:${seconds}:R>)`;
+}
+
+module.exports = {
+    name: "userinfo",
+    usage: "userinfo [user]",
+    description: "Returns information about a user",
+    cooldown: 2,
+    aliases: ["whois", "user"],
+    options: [
+        {
+            user: {
+                name: "user",
+                description: "The user to view, defaults to yourself",
+                required: false
+            }
+        }
+    ],
+    contextMenus: [
+        { type: "user", name: "User Info" }
+    ],
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction | ContextMenuCommandInteraction, prefix: string, config: Config,
+        optionData: { user: User | null }, locale: string) => {
+
+        // Default to the invoker, then fetch their membership of this guild if they have one
+        const user: User = await (optionData.user || interactionUser(interaction)).fetch();
+        const member = await interaction.guild?.members.fetch(user.id).catch(() => null);
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "userinfo.title", { tag: user.tag }), iconURL: user.displayAvatarURL() })
+            .setThumbnail(user.displayAvatarURL({ size: 256 }))
+            .addFields(
+                { name: t(locale, "userinfo.user"), value: `${user} \`${user.id}\``, inline: true },
+                { name: t(locale, "userinfo.bot"), value: `\`${t(locale, user.bot ? "userinfo.yes" : "userinfo.no")}\``, inline: true },
+                { name: t(locale, "userinfo.created"), value: timestamp(user.createdAt) }
+            );
+
+        if (member) {
+            const roles = member.roles.cache
+                .filter(role => role.id !== member.guild.id)
+                .sort((a, b) => b.position - a.position)
+                .map(role => `${role}`);
+
+            embed.addFields(
+                { name: t(locale, "userinfo.nickname"), value: `\`${member.nickname || t(locale, "userinfo.none")}\``, inline: true },
+                { name: t(locale, "userinfo.joined"), value: member.joinedAt ? timestamp(member.joinedAt) : t(locale, "userinfo.unknown") },
+                {
+                    name: t(locale, "userinfo.roles", { count: roles.length }),
+                    value: roles.slice(0, 20).join(", ") + (roles.length > 20 ? t(locale, "userinfo.moreRoles", { count: roles.length - 20 }) : "") || t(locale, "userinfo.none")
+                }
+            );
+        }
+
+        if (user.banner) {
+            embed.setImage(user.bannerURL({ size: 512 }) || null);
+        }
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, locale)] });
+    }
+}
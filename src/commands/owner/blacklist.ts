@@ -0,0 +1,162 @@
+import { EmbedBuilder, Message } from 'discord.js';
+import {
+    applyEmbedStructure,
+    errorEmbed,
+    formatDuration,
+    interactionUser,
+    parseDuration
+} from '../../helpers/functions';
+import { paginate } from '../../helpers/components';
+import { t } from '../../helpers/i18n';
+import {
+    addBlacklist,
+    broadcastBlacklistChange,
+    BlacklistType,
+    blacklistTypes,
+    describeBlacklistEntry,
+    getBlacklistEntry,
+    listBlacklist,
+    removeBlacklist
+} from '../../handlers/blacklist';
+import { logger } from '../../helpers/logger';
+import { leaveGuild } from '../../helpers/shards';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "blacklist",
+    aliases: ["bl"],
+    ownerOnly: true,
+    usage: "blacklist <add|remove|info|list> [user|guild] [id] [duration|permanent] [reason]",
+    description: "Blocks users or guilds from using the bot",
+    textExtract: (messageInteraction: Message) => {
+        const [action, ...args] = messageInteraction.content.split(/\s+/).slice(1);
+
+        // Allow ids to be given as mentions
+        const parseId = (text?: string) => text?.replace(/[<@!#&>]/g, '');
+
+        switch (action?.toLowerCase()) {
+            case "add": {
+                const [type, id, ...rest] = args;
+
+                // The duration is optional, anything that isn't one begins the reason
+                let duration: number | null = null;
+                if (rest.length > 0 && ["perm", "permanent"].includes(rest[0].toLowerCase())) {
+                    rest.shift();
+                } else if (rest.length > 0 && parseDuration(rest[0]) !== null) {
+                    duration = parseDuration(rest.shift() as string);
+                }
+
+                return { action: "add", type: type?.toLowerCase(), id: parseId(id), duration, reason: rest.join(" ") };
+            }
+            case "remove":
+            case "info":
+                return { action: action.toLowerCase(), id: parseId(args[0]) };
+            case "list":
+                return { action: "list", type: args[0]?.toLowerCase() };
+            default:
+                return { action: null };
+        }
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: {
+            action: string | null,
+            type?: string,
+            id?: string,
+            duration?: number | null,
+            reason?: string
+        }, locale: string) => {
+
+        const reply = (embed: EmbedBuilder) => interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [embed] });
+        const usageError = () => reply(errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale }));
+        const idRegex = /^[0-9]{17,20}$/;
+
+        switch (optionData.action) {
+            case "add": {
+                if (!blacklistTypes.includes(optionData.type as BlacklistType) || !optionData.id || !idRegex.test(optionData.id)) {
+                    return usageError();
+                }
+
+                const entry = {
+                    _id: optionData.id,
+                    type: optionData.type as BlacklistType,
+                    reason: optionData.reason || t(locale, "blacklist.noReason"),
+                    issuedBy: interactionUser(interaction).id,
+                    issuedAt: new Date(),
+                    expiresAt: optionData.duration ? new Date(Date.now() + optionData.duration) : null,
+                };
+                await addBlacklist(entry, config.db);
+                await broadcastBlacklistChange(client).catch((error) => {
+                    logger.child('blacklist').error('Failed to reload the blacklist on every shard', { error });
+                });
+
+                // Leave the guild straight away if we are currently in it, on whichever shard holds it
+                if (entry.type === "guild") {
+                    await leaveGuild(client, entry._id).catch((error) => {
+                        logger.child('blacklist').error('Failed to leave blacklisted guild', { guildId: entry._id, error });
+                    });
+                }
+
+                const length = optionData.duration
+                    ? t(locale, "blacklist.forDuration", { duration: formatDuration(optionData.duration) })
+                    : t(locale, "blacklist.permanently");
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "blacklist.addedTitle") })
+                    .setDescription(`${t(locale, "blacklist.added", { id: entry._id, length })}\n${describeBlacklistEntry(entry, locale)}`);
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "remove": {
+                if (!optionData.id) return usageError();
+
+                const removed = await removeBlacklist(optionData.id, config.db);
+                if (!removed) return reply(errorEmbed(t(locale, "blacklist.notBlacklisted", { id: optionData.id }), prefix, { locale }));
+                await broadcastBlacklistChange(client).catch((error) => {
+                    logger.child('blacklist').error('Failed to reload the blacklist on every shard', { error });
+                });
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "blacklist.removedTitle") })
+                    .setDescription(t(locale, "blacklist.removed", { id: optionData.id }));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "info": {
+                if (!optionData.id) return usageError();
+
+                const entry = getBlacklistEntry(optionData.id, config.db);
+                if (!entry) return reply(errorEmbed(t(locale, "blacklist.notBlacklisted", { id: optionData.id }), prefix, { locale }));
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "blacklist.entryTitle", { id: entry._id }) })
+                    .setDescription(describeBlacklistEntry(entry, locale));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "list": {
+                if (optionData.type && !blacklistTypes.includes(optionData.type as BlacklistType)) return usageError();
+
+                const entries = listBlacklist(optionData.type as BlacklistType | undefined);
+                if (entries.length === 0) return reply(errorEmbed(t(locale, "blacklist.empty"), prefix, { locale }));
+
+                // Show ten entries per page
+                const pages: EmbedBuilder[] = [];
+                for (let i = 0; i < entries.length; i += 10) {
+                    const lines = entries.slice(i, i + 10).map(entry => {
+                        const expiry = entry.expiresAt ? `<t:${Math.floor(entry.expiresAt.getTime() / 1000)}:R>` : t(locale, "blacklist.expiresNever");
+                        return t(locale, "blacklist.listEntry", {
+                            id: entry._id,
+                            type: t(locale, `blacklist.types.${entry.type}`),
+                            reason: entry.reason,
+                            time: expiry
+                        });
+                    });
+                    const embed = new EmbedBuilder()
+                        .setAuthor({ name: t(locale, "blacklist.listTitle", { count: entries.length }) })
+                        .setDescription(lines.join("\n"));
+                    pages.push(applyEmbedStructure(embed, prefix, false, locale));
+                }
+                return paginate(interaction, interactionUser(interaction).id, pages, { locale });
+            }
+            default:
+                return usageError();
+        }
+    }
+}
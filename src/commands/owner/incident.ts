@@ -0,0 +1,138 @@
+import { AttachmentBuilder, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser } from '../../helpers/functions';
+import { paginate } from '../../helpers/components';
+import { t } from '../../helpers/i18n';
+import { registerPaginator } from '../../handlers/components';
+import { describeIncident, getIncident, groupIncidents, listIncidents } from '../../handlers/incidents';
+import { CustomClient } from '../../index';
+import { Config, getConfig } from '../../config';
+
+// The stack is attached as a file when it would not fit in the embed.
+const MAX_INLINE_STACK = 1000;
+const INCIDENTS_PER_PAGE = 10;
+// The bounds for how many incidents are listed and how many days are grouped, with their defaults
+const LIST_LIMITS = { min: 1, max: 100, fallback: 50 };
+const GROUP_DAY_LIMITS = { min: 1, max: 90, fallback: 7 };
+
+/**
+ * Simple function to read a count argument within its bounds
+ * @param argument the argument given, if any
+ * @param limits the bounds and the count used when none is given
+ * @returns the count, or null when the argument is not a whole number within the bounds
+ */
+function parseCount(argument: string | undefined, limits: { min: number, max: number, fallback: number }): number | null {
+    if (argument === undefined) return limits.fallback;
+    if (!/^[0-9]+$/.test(argument)) return null;
+
+    const count = parseInt(argument, 10);
+    return count >= limits.min && count <= limits.max ? count : null;
+}
+
+const timestamp = (date: Date) => `<t:${Math.floor(date.getTime() / 1000)}:R>`;
+
+// The list is rendered again from the database on every turn, so its buttons outlive a restart
+const sendIncidentList = registerPaginator('incidents', async (page, [amount], locale) => {
+    const incidents = await listIncidents(getConfig().db, Number(amount));
+    if (incidents.length === 0) return null;
+
+    const lines = incidents.slice(page * INCIDENTS_PER_PAGE, (page + 1) * INCIDENTS_PER_PAGE).map(incident =>
+        `\`${incident._id}\` ${timestamp(incident.createdAt)} - \`${incident.command}\` - ${incident.error.message.slice(0, 80)}`
+    );
+    const embed = new EmbedBuilder()
+        .setAuthor({ name: t(locale, "incident.listTitle", { count: incidents.length }) })
+        .setDescription(lines.join("\n"));
+    return {
+        embed: applyEmbedStructure(embed, getConfig().defaultPrefix, false, locale),
+        pageCount: Math.ceil(incidents.length / INCIDENTS_PER_PAGE)
+    };
+});
+
+module.exports = {
+    name: "incident",
+    aliases: ["incidents", "inc"],
+    ownerOnly: true,
+    usage: "incident <id|list [count 1-100]|groups [days 1-90]>",
+    description: "Looks up recorded command failures",
+    textExtract: (messageInteraction: Message) => {
+        const [action, argument] = messageInteraction.content.split(/\s+/).slice(1);
+
+        switch (action?.toLowerCase()) {
+            case "list":
+                return { action: "list", amount: parseCount(argument, LIST_LIMITS) };
+            case "groups":
+                return { action: "groups", amount: parseCount(argument, GROUP_DAY_LIMITS) };
+            default:
+                return { action: action ? "info" : null, id: action };
+        }
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: {
+            action: "info" | "list" | "groups" | null,
+            id?: string,
+            amount?: number | null
+        }, locale: string) => {
+
+        const reply = (embed: EmbedBuilder, files: AttachmentBuilder[] = []) =>
+            interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [embed], files });
+        const usageError = () => reply(errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale }));
+
+        switch (optionData.action) {
+            case "info": {
+                const incident = await getIncident(optionData.id!, config.db);
+                if (!incident) return reply(errorEmbed(t(locale, "incident.notFound", { id: optionData.id }), prefix, { locale }));
+
+                const stack = incident.error.stack || t(locale, "incident.noStack");
+                const inline = stack.length <= MAX_INLINE_STACK;
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "incident.title", { id: incident._id }) })
+                    .setDescription(describeIncident(incident, locale))
+                    .addFields({
+                        name: t(locale, "incident.stack"),
+                        value: inline ? `\`\`\`\n${stack}\n\`\`\`` : t(locale, "incident.stackAttached")
+                    });
+
+                const files = inline ? [] : [new AttachmentBuilder(Buffer.from(stack), { name: `incident-${incident._id}.txt` })];
+                return reply(applyEmbedStructure(embed, prefix, true, locale), files);
+            }
+            case "list": {
+                if (!optionData.amount) return usageError();
+
+                const shown = await sendIncidentList(interaction, interactionUser(interaction).id, [String(optionData.amount)], locale);
+                if (!shown) return reply(errorEmbed(t(locale, "incident.none"), prefix, { locale }));
+                return;
+            }
+            case "groups": {
+                if (!optionData.amount) return usageError();
+
+                const days = optionData.amount;
+                const groups = await groupIncidents(config.db, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+                if (groups.length === 0) return reply(errorEmbed(t(locale, "incident.noneRecent", { count: days }), prefix, { locale }));
+
+                // Show five groups per page
+                const pages: EmbedBuilder[] = [];
+                for (let i = 0; i < groups.length; i += 5) {
+                    const lines = groups.slice(i, i + 5).map(group => [
+                        t(locale, "incident.groupSummary", {
+                            fingerprint: group.fingerprint,
+                            count: group.count,
+                            last: timestamp(group.lastSeen),
+                            first: timestamp(group.firstSeen)
+                        }),
+                        t(locale, "incident.groupCommands", {
+                            commands: group.commands.map(command => `\`${command}\``).join(", "),
+                            id: group.latestId
+                        }),
+                        `${group.message.slice(0, 120)}`
+                    ].join("\n"));
+                    const embed = new EmbedBuilder()
+                        .setAuthor({ name: t(locale, "incident.groupsTitle", { count: days, groups: groups.length }) })
+                        .setDescription(lines.join("\n\n"));
+                    pages.push(applyEmbedStructure(embed, prefix, false, locale));
+                }
+                return paginate(interaction, interactionUser(interaction).id, pages, { locale });
+            }
+            default:
+                return usageError();
+        }
+    }
+}
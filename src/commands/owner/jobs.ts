@@ -0,0 +1,90 @@
+import { EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser } from '../../helpers/functions';
+import { paginate } from '../../helpers/components';
+import { t } from '../../helpers/i18n';
+import { jobHistory, listJobs, setJobPaused, triggerJob } from '../../handlers/jobs';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "jobs",
+    aliases: ["job", "scheduler"],
+    ownerOnly: true,
+    usage: "jobs [list|history [job]|run <job>|pause <job>|resume <job>]",
+    description: "Lists, triggers, pauses and resumes scheduled jobs",
+    textExtract: (messageInteraction: Message) => {
+        const [action, name] = messageInteraction.content.split(/\s+/).slice(1);
+        return { action: action?.toLowerCase() || "list", name };
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: {
+            action: string,
+            name?: string
+        }, locale: string) => {
+
+        const reply = (embed: EmbedBuilder) => interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [embed] });
+        const timestamp = (date: Date | null) => date ? `<t:${Math.floor(new Date(date).getTime() / 1000)}:R>` : t(locale, "jobs.never");
+        const unknownJob = () => reply(errorEmbed(t(locale, "jobs.unknown", { name: optionData.name, command: `${prefix}jobs list` }), prefix, { locale }));
+
+        switch (optionData.action) {
+            case "list": {
+                const jobs = await listJobs();
+                if (jobs.length === 0) return reply(errorEmbed(t(locale, "jobs.none"), prefix, { locale }));
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "jobs.listTitle", { count: jobs.length }) })
+                    .setDescription(jobs.map(job => {
+                        const lastRun = !job.lastRun ? t(locale, "jobs.never") : job.lastRun.success
+                            ? t(locale, "jobs.succeeded", { time: timestamp(job.lastRun.startedAt) })
+                            : t(locale, "jobs.failed", { time: timestamp(job.lastRun.startedAt), error: job.lastRun.error?.slice(0, 80) });
+                        return [
+                            `**\`${job.name}\`**${job.disabled ? t(locale, "jobs.pausedTag") : ""} - ${job.description}`,
+                            t(locale, "jobs.schedule", { interval: job.interval, next: job.disabled ? t(locale, "jobs.paused") : timestamp(job.nextRunAt) }),
+                            t(locale, "jobs.lastRun", { run: lastRun }),
+                        ].join("\n");
+                    }).join("\n\n"));
+                return reply(applyEmbedStructure(embed, prefix, false, locale));
+            }
+            case "history": {
+                const runs = await jobHistory(config.db, optionData.name, 50);
+                if (runs.length === 0) return reply(errorEmbed(t(locale, "jobs.noHistory"), prefix, { locale }));
+
+                // Show ten runs per page
+                const pages: EmbedBuilder[] = [];
+                for (let i = 0; i < runs.length; i += 10) {
+                    const lines = runs.slice(i, i + 10).map(run =>
+                        `${run.success ? "✅" : "❌"} \`${run.job}\` ${timestamp(run.startedAt)} - ${run.durationMs}ms` +
+                        `${run.attempt > 1 ? t(locale, "jobs.attempt", { attempt: run.attempt }) : ""}${run.manual ? t(locale, "jobs.manual") : ""}` +
+                        `${run.error ? `\n${run.error.slice(0, 120)}` : ""}`
+                    );
+                    const embed = new EmbedBuilder()
+                        .setAuthor({
+                            name: optionData.name
+                                ? t(locale, "jobs.jobHistoryTitle", { name: optionData.name, count: runs.length })
+                                : t(locale, "jobs.historyTitle", { count: runs.length })
+                        })
+                        .setDescription(lines.join("\n"));
+                    pages.push(applyEmbedStructure(embed, prefix, false, locale));
+                }
+                return paginate(interaction, interactionUser(interaction).id, pages, { locale });
+            }
+            case "run":
+            case "pause":
+            case "resume": {
+                if (!optionData.name) return reply(errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale }));
+
+                const found = optionData.action === "run"
+                    ? await triggerJob(optionData.name)
+                    : await setJobPaused(optionData.name, optionData.action === "pause");
+                if (!found) return unknownJob();
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "jobs.title") })
+                    .setDescription(t(locale, `jobs.outcomes.${optionData.action}`, { name: optionData.name }));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            default:
+                return reply(errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale }));
+        }
+    }
+}
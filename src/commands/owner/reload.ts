@@ -0,0 +1,73 @@
+import { EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed } from '../../helpers/functions';
+import { t } from '../../helpers/i18n';
+import { reloadCategory, reloadCommand, ReloadResult } from '../../handlers/reload';
+import { reloadEvents } from '../../handlers/events';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "reload",
+    aliases: ["rl"],
+    ownerOnly: true,
+    usage: "reload <command|category <name>|events>",
+    description: "Reloads a command, a category or all events without restarting",
+    textExtract: (messageInteraction: Message) => {
+        const [target, name] = messageInteraction.content.split(/\s+/).slice(1).map(arg => arg.toLowerCase());
+
+        switch (target) {
+            case "events":
+                return { target: "events" };
+            case "category":
+                return { target: "category", name };
+            default:
+                return { target: target ? "command" : null, name: target };
+        }
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: {
+            target: "command" | "category" | "events" | null,
+            name?: string
+        }, locale: string) => {
+
+        if (!optionData.target || (optionData.target !== "events" && !optionData.name)) {
+            return interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale })] });
+        }
+
+        let result: ReloadResult;
+        let description: string;
+        switch (optionData.target) {
+            case "events":
+                result = reloadEvents(client);
+                description = t(locale, "reload.events");
+                break;
+            case "category":
+                result = await reloadCategory(client, optionData.name!);
+                description = t(locale, "reload.category", { name: optionData.name });
+                break;
+            default:
+                result = await reloadCommand(client, optionData.name!);
+                description = t(locale, "reload.command", { name: optionData.name });
+        }
+
+        if (result.reloaded.length === 0 && result.failed.length === 0) {
+            return interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [errorEmbed(t(locale, "reload.nothing", { target: description }), prefix, { locale })] });
+        }
+
+        // Failed files keep their previous definition, so list them separately
+        const list = (names: string[]) => names.map(name => `\`${name}\``).join(", ") || t(locale, "reload.none");
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "reload.title") })
+            .setDescription(t(locale, "reload.reloaded", { target: description }))
+            .addFields(
+                { name: t(locale, "reload.reloadedField", { count: result.reloaded.length }), value: list(result.reloaded) },
+                { name: t(locale, "reload.failedField", { count: result.failed.length }), value: list(result.failed) }
+            );
+
+        if (result.failed.length > 0) {
+            embed.setFooter({ text: t(locale, "reload.failedHint") });
+        }
+
+        return interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, result.failed.length === 0, locale)] });
+    }
+}
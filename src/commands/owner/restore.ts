@@ -0,0 +1,111 @@
+import { EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser } from '../../helpers/functions';
+import { confirm } from '../../helpers/components';
+import { isBackupId } from '../../helpers/backup';
+import { t } from '../../helpers/i18n';
+import { backupDestinations, restoreBackup } from '../../handlers/backup';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "restore",
+    aliases: ["backups"],
+    ownerOnly: true,
+    usage: "restore <list|id> [collection...] [--into <database>] [--from <destination>] [--replace]",
+    description: "Lists backups, or restores all or some collections of one",
+    textExtract: (messageInteraction: Message) => {
+        const args = messageInteraction.content.split(/\s+/).slice(1);
+        // A flag followed by nothing, or by another flag, has no value
+        const flagValue = (flag: string) => {
+            const value = args[args.indexOf(flag) + 1];
+            return value && !value.startsWith("--") ? value : undefined;
+        };
+        const flagValues = ["--into", "--from"].filter(flag => args.includes(flag)).map(flagValue);
+
+        return {
+            backupId: args[0],
+            collections: args.slice(1).filter(arg => !arg.startsWith("--") && !flagValues.includes(arg)),
+            into: args.includes("--into") ? flagValue("--into") : null,
+            from: args.includes("--from") ? flagValue("--from") : null,
+            replace: args.includes("--replace"),
+        };
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: {
+            backupId?: string,
+            collections: string[],
+            // Undefined when the flag was given without a value
+            into?: string | null,
+            from?: string | null,
+            replace: boolean
+        }, locale: string) => {
+
+        const reply = (embed: EmbedBuilder) => interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [embed] });
+
+        const missingFlagValue = optionData.into === undefined || optionData.from === undefined;
+        if (!optionData.backupId || (optionData.backupId !== "list" && !isBackupId(optionData.backupId)) || missingFlagValue) {
+            return reply(errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` }), prefix, { locale }));
+        }
+
+        // Backups are read from the first destination unless one is named
+        const destinations = backupDestinations(client.rest);
+        const destination = optionData.from ? destinations.find(entry => entry.name === optionData.from) : destinations[0];
+        if (!destination) {
+            const message = optionData.from
+                ? t(locale, "restore.noDestination", { name: optionData.from })
+                : t(locale, "restore.noDestinations");
+            return reply(errorEmbed(message, prefix, { locale }));
+        }
+
+        if (optionData.backupId === "list") {
+            const ids = await destination.list();
+            const embed = new EmbedBuilder()
+                .setAuthor({ name: t(locale, "restore.listTitle", { destination: destination.name, count: ids.length }) })
+                .setDescription(ids.slice(0, 25).map(id => `\`${id}\``).join("\n") || t(locale, "restore.noBackups"));
+            return reply(applyEmbedStructure(embed, prefix, false, locale));
+        }
+
+        const target = optionData.into ? config.db.client.db(optionData.into) : config.db;
+
+        // Replacing collections in the live database cannot be undone, so it is confirmed first
+        if (optionData.replace && target.databaseName === config.db.databaseName) {
+            const prompt = new EmbedBuilder()
+                .setAuthor({ name: t(locale, "restore.title", { id: optionData.backupId }) })
+                .setDescription(t(locale, "restore.confirmReplace", { database: target.databaseName, id: optionData.backupId }));
+            const confirmed = await confirm(interaction, interactionUser(interaction).id, applyEmbedStructure(prompt, prefix, true, locale), { timeMs: 30000, locale });
+            if (!confirmed) return;
+        }
+        let result;
+        try {
+            result = await restoreBackup({
+                backupId: optionData.backupId,
+                destination,
+                target,
+                collections: optionData.collections,
+                replace: optionData.replace,
+            });
+        } catch (error) {
+            return reply(errorEmbed(t(locale, "restore.readFailed", {
+                id: optionData.backupId,
+                destination: destination.name,
+                error: error instanceof Error ? error.message : String(error)
+            }), prefix, { locale }));
+        }
+
+        const restored = Object.entries(result.restored).map(([name, count]) => t(locale, "restore.documents", { name, count }));
+        const skipped = Object.entries(result.skipped).map(([name, reason]) => `\`${name}\` - ${reason}`);
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "restore.title", { id: result.manifest.id }) })
+            .setDescription(t(locale, "restore.restoredInto", { database: target.databaseName, destination: destination.name }))
+            .addFields(
+                { name: t(locale, "restore.restored", { count: restored.length }), value: restored.join("\n") || t(locale, "restore.none") },
+                { name: t(locale, "restore.skipped", { count: skipped.length }), value: skipped.join("\n") || t(locale, "restore.none") }
+            );
+
+        if (skipped.some(line => line.endsWith("collection is not empty"))) {
+            embed.setFooter({ text: t(locale, "restore.replaceHint") });
+        }
+
+        return reply(applyEmbedStructure(embed, prefix, skipped.length === 0, locale));
+    }
+}
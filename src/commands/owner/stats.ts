@@ -0,0 +1,119 @@
+import { EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, interactionUser } from '../../helpers/functions';
+import { paginate } from '../../helpers/components';
+import { t } from '../../helpers/i18n';
+import { usageSummary, usageTimeline, UsageTotals } from '../../handlers/analytics';
+import { fetchGuildNames } from '../../helpers/shards';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+// The periods usage can be viewed over, and how the timeline is stepped for each.
+const periods: { [period: string]: { hours: number, step: 'hour' | 'day' } } = {
+    "24h": { hours: 24, step: "hour" },
+    "7d": { hours: 7 * 24, step: "day" },
+    "30d": { hours: 30 * 24, step: "day" },
+};
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Simple function to describe usage totals in a single line
+ * @param totals the totals to describe
+ * @param locale the locale to describe them in
+ * @returns the count, error rate and latency
+ */
+function describeTotals(totals: UsageTotals, locale: string): string {
+    const errorRate = totals.count > 0 ? (totals.failures / totals.count * 100).toFixed(1) : "0.0";
+    const p95 = totals.p95Ms === null ? t(locale, "stats.notApplicable") : totals.p95Ms === Infinity ? ">10s" : `≤${totals.p95Ms}ms`;
+    return t(locale, "stats.totals", { count: totals.count, errorRate, p95, average: totals.averageMs });
+}
+
+/**
+ * Simple function to describe the change between two counts
+ * @param current the count for the current period
+ * @param previous the count for the period before it
+ * @param locale the locale to describe it in
+ * @returns the change as a percentage
+ */
+function describeChange(current: number, previous: number, locale: string): string {
+    if (previous === 0) return t(locale, current > 0 ? "stats.new" : "stats.noChange");
+    const change = (current - previous) / previous * 100;
+    return `${change >= 0 ? "+" : ""}${change.toFixed(0)}%`;
+}
+
+module.exports = {
+    name: "stats",
+    aliases: ["usage", "analytics"],
+    ownerOnly: true,
+    usage: "stats [24h|7d|30d]",
+    description: "Shows command usage, error rates and latency",
+    textExtract: (messageInteraction: Message) => {
+        const period = messageInteraction.content.split(/\s+/)[1]?.toLowerCase();
+        return { period: period && period in periods ? period : "7d" };
+    },
+    execute: async (client: CustomClient, interaction: Message, prefix: string, config: Config,
+        optionData: { period: string }, locale: string) => {
+
+        const { hours, step } = periods[optionData.period];
+        const now = Date.now();
+        const since = new Date(now - hours * HOUR_MS);
+
+        const summary = await usageSummary(config.db, since);
+        const timeline = await usageTimeline(config.db, since, step);
+
+        // Compare every period against the one before it
+        const trends = await Promise.all(Object.entries(periods).map(async ([name, period]) => {
+            const start = new Date(now - period.hours * HOUR_MS);
+            const current = await usageSummary(config.db, start);
+            const previous = await usageSummary(config.db, new Date(start.getTime() - period.hours * HOUR_MS), start);
+            return t(locale, "stats.trend", { period: name, count: current.count, change: describeChange(current.count, previous.count, locale) });
+        }));
+
+        const pages: EmbedBuilder[] = [];
+        const page = (title: string, description: string) => pages.push(applyEmbedStructure(
+            new EmbedBuilder()
+                .setAuthor({ name: t(locale, "stats.title", { period: optionData.period, page: title }) })
+                .setDescription(description || t(locale, "stats.noUsage")),
+            prefix, false, locale
+        ));
+
+        const sources = Object.entries(summary.sources).map(([source, count]) => `${source}: ${count}`).join(", ") || t(locale, "stats.none");
+        page(t(locale, "stats.overview"), [
+            describeTotals(summary, locale),
+            t(locale, "stats.invokedVia", { sources }),
+            t(locale, "stats.used", { commands: summary.commands.length, guilds: summary.guilds.length }),
+            "",
+            t(locale, "stats.trends"),
+            ...trends,
+        ].join("\n"));
+
+        // Scale the timeline bars to the busiest step
+        const busiest = Math.max(1, ...timeline.map(entry => entry.count));
+        const timelineLines = timeline.map(entry => {
+            const label = step === "hour" ? `<t:${entry.time.getTime() / 1000}:t>` : `<t:${entry.time.getTime() / 1000}:d>`;
+            return `${label} \`${"█".repeat(Math.ceil(entry.count / busiest * 15)).padEnd(15, " ")}\` ${entry.count}${entry.failures > 0 ? t(locale, "stats.failed", { count: entry.failures }) : ""}`;
+        });
+        for (let i = 0; i < Math.max(timelineLines.length, 1); i += 24) {
+            page(t(locale, "stats.timeline"), timelineLines.slice(i, i + 24).join("\n"));
+        }
+
+        for (let i = 0; i < Math.max(summary.commands.length, 1); i += 10) {
+            page(t(locale, "stats.topCommands"), summary.commands.slice(i, i + 10).map((entry, index) => t(locale, "stats.commandEntry", {
+                rank: i + index + 1,
+                command: entry.command,
+                category: entry.category,
+                totals: describeTotals(entry, locale)
+            })).join("\n"));
+        }
+
+        // Guilds can be held by any shard, so their names are looked up across all of them
+        const guildNames = await fetchGuildNames(client, summary.guilds.flatMap(entry => entry.guildId ? [entry.guildId] : []));
+        for (let i = 0; i < Math.max(summary.guilds.length, 1); i += 10) {
+            page(t(locale, "stats.guilds"), summary.guilds.slice(i, i + 10).map((entry, index) => {
+                const name = entry.guildId ? guildNames.get(entry.guildId) || t(locale, "stats.unknownGuild") : t(locale, "stats.directMessages");
+                return t(locale, "stats.guildEntry", { rank: i + index + 1, name, id: entry.guildId || "-", totals: describeTotals(entry, locale) });
+            }).join("\n"));
+        }
+
+        return paginate(interaction, interactionUser(interaction).id, pages, { locale });
+    }
+}
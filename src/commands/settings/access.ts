@@ -0,0 +1,180 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, findCategory, findCommand } from '../../helpers/functions';
+import { AccessRules, emptyAccessRules, getGuildSettings, updateGuildSettings } from '../../handlers/guildSettings';
+import { PROTECTED_CATEGORY } from '../../helpers/access';
+import { defaultLocale, t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+// The actions that can be taken on a command or category's rules.
+const accessActions = ["allow", "deny", "reset"];
+
+/**
+ * Function to describe a set of access rules for an embed
+ * @param rules the rules to describe
+ * @param locale the locale to describe the rules in [optional]
+ * @returns the fields describing the rules
+ */
+function describeRules(rules: AccessRules, locale: string = defaultLocale) {
+    const format = (ids: string[], mention: (id: string) => string) => ids.map(mention).join(", ") || t(locale, "accessRules.any");
+    const formatDenied = (ids: string[], mention: (id: string) => string) => ids.map(mention).join(", ") || t(locale, "accessRules.none");
+
+    return [
+        { name: t(locale, "accessRules.allowedChannels"), value: format(rules.allowedChannels, id => `<#${id}>`), inline: true },
+        { name: t(locale, "accessRules.deniedChannels"), value: formatDenied(rules.deniedChannels, id => `<#${id}>`), inline: true },
+        { name: "\u200b", value: "\u200b", inline: true },
+        { name: t(locale, "accessRules.allowedRoles"), value: format(rules.allowedRoles, id => `<@&${id}>`), inline: true },
+        { name: t(locale, "accessRules.deniedRoles"), value: formatDenied(rules.deniedRoles, id => `<@&${id}>`), inline: true },
+        { name: "\u200b", value: "\u200b", inline: true },
+    ];
+}
+
+module.exports = {
+    name: "access",
+    aliases: ["restrict", "override"],
+    cooldown: 3,
+    usage: "access <command|category> [allow|deny|reset] [#channels|@roles]",
+    description: "Allow or deny a command or category in specific channels or for specific roles",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "target",
+                description: "The command or category to change access for",
+                required: true
+            }
+        },
+        {
+            string: {
+                name: "action",
+                description: "Whether to allow, deny or reset access (view the rules if omitted)",
+                required: false,
+                choices: [
+                    { name: "Allow", value: "allow" },
+                    { name: "Deny", value: "deny" },
+                    { name: "Reset", value: "reset" }
+                ]
+            }
+        },
+        {
+            channel: {
+                name: "channel",
+                description: "The channel to allow or deny",
+                required: false
+            }
+        },
+        {
+            role: {
+                name: "role",
+                description: "The role to allow or deny",
+                required: false
+            }
+        }
+    ],
+    textExtract: (messageInteraction: Message, client: CustomClient) => {
+        const [target, action, ...mentions] = messageInteraction.content.split(/\s+/).slice(1);
+        const guild = messageInteraction.guild!;
+
+        // Mentions may be channels or roles, bare ids are resolved against the guild
+        const channelIds: string[] = [];
+        const roleIds: string[] = [];
+        for (const mention of mentions) {
+            const id = mention.replace(/[<#@&>]/g, "");
+            if (mention.startsWith("<#") || guild.channels.cache.has(id)) channelIds.push(id);
+            else if (mention.startsWith("<@&") || guild.roles.cache.has(id)) roleIds.push(id);
+        }
+
+        return {
+            selectedCommand: findCommand(target, client),
+            selectedCategory: findCategory(target),
+            action: action?.toLowerCase() || null,
+            channelIds,
+            roleIds,
+        }
+    },
+    slashExtract: (commandInteraction: ChatInputCommandInteraction, client: CustomClient) => {
+        const target = commandInteraction.options.getString("target");
+        const channel = commandInteraction.options.getChannel("channel");
+        const role = commandInteraction.options.getRole("role");
+        return {
+            selectedCommand: findCommand(target, client),
+            selectedCategory: findCategory(target),
+            action: commandInteraction.options.getString("action")?.toLowerCase() || null,
+            channelIds: channel ? [channel.id] : [],
+            roleIds: role ? [role.id] : [],
+        }
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            selectedCommand: any | null,
+            selectedCategory: any | null,
+            action: string | null,
+            channelIds: string[],
+            roleIds: string[]
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+        const { selectedCommand, selectedCategory, action, channelIds, roleIds } = optionData;
+        const categoryName = (selectedCommand?.category || selectedCategory?.name)?.toLowerCase();
+
+        if (!categoryName || categoryName === PROTECTED_CATEGORY) {
+            await interaction.reply({
+                embeds: [errorEmbed(t(locale, categoryName ? "accessRules.protected" : "errors.unknownTarget"), prefix, { locale })],
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (action && !accessActions.includes(action)) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, "embeds.usage", { usage: `${prefix}access <command|category> [allow|deny|reset] [#channels|@roles]` }), prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        if ((action === "allow" || action === "deny") && channelIds.length === 0 && roleIds.length === 0) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, `accessRules.mentionRequired.${action}`), prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        // Work on a copy of the overrides for whichever kind of target was chosen
+        const settings = await getGuildSettings(guildId, config.db);
+        const [key, name] = selectedCommand
+            ? ["commandOverrides", selectedCommand.name] as const
+            : ["categoryOverrides", categoryName] as const;
+        const overrides = { ...settings[key] };
+        const rules: AccessRules = { ...emptyAccessRules(), ...overrides[name] };
+
+        // Remove the given ids from every list, then add them where they belong
+        const without = (ids: string[], remove: string[]) => ids.filter(id => !remove.includes(id));
+        if (action) {
+            rules.allowedChannels = without(rules.allowedChannels, channelIds);
+            rules.deniedChannels = without(rules.deniedChannels, channelIds);
+            rules.allowedRoles = without(rules.allowedRoles, roleIds);
+            rules.deniedRoles = without(rules.deniedRoles, roleIds);
+
+            if (action === "allow") {
+                rules.allowedChannels.push(...channelIds);
+                rules.allowedRoles.push(...roleIds);
+            } else if (action === "deny") {
+                rules.deniedChannels.push(...channelIds);
+                rules.deniedRoles.push(...roleIds);
+            }
+
+            // Resetting without any mentions clears every rule
+            const cleared = action === "reset" && channelIds.length === 0 && roleIds.length === 0;
+            if (cleared || Object.values(rules).every(ids => ids.length === 0)) {
+                delete overrides[name];
+            } else {
+                overrides[name] = rules;
+            }
+
+            await updateGuildSettings(guildId, { [key]: overrides }, config.db);
+        }
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "accessRules.title", { name }) })
+            .setDescription(t(locale, action ? "accessRules.updated" : "accessRules.current", { name }))
+            .addFields(describeRules(overrides[name] || emptyAccessRules(), locale));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, locale)] });
+    }
+}
@@ -0,0 +1,62 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, findCategory, findCommand } from '../../helpers/functions';
+import { getGuildSettings, updateGuildSettings } from '../../handlers/guildSettings';
+import { PROTECTED_CATEGORY } from '../../helpers/access';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "disable",
+    aliases: ["disablecommand"],
+    cooldown: 3,
+    usage: "disable <command|category>",
+    description: "Disable a command or a whole category in this server",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "target",
+                description: "The command or category to disable",
+                required: true
+            }
+        }
+    ],
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            target: string
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+        const selectedCommand = findCommand(optionData.target, client);
+        const selectedCategory = selectedCommand ? null : findCategory(optionData.target);
+        const categoryName = (selectedCommand?.category || selectedCategory?.name)?.toLowerCase();
+
+        // Settings commands stay enabled so they can always be undone
+        if (!categoryName || categoryName === PROTECTED_CATEGORY) {
+            await interaction.reply({
+                embeds: [errorEmbed(t(locale, categoryName ? "disable.protected" : "errors.unknownTarget"), prefix, { locale })],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const settings = await getGuildSettings(guildId, config.db);
+        const [key, name, disabled] = selectedCommand
+            ? ["disabledCommands", selectedCommand.name, settings.disabledCommands] as const
+            : ["disabledCategories", categoryName, settings.disabledCategories] as const;
+
+        if (disabled.includes(name)) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, "disable.already", { name }), prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        await updateGuildSettings(guildId, { [key]: [...disabled, name] }, config.db);
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, selectedCommand ? "disable.commandTitle" : "disable.categoryTitle") })
+            .setDescription(t(locale, "disable.disabled", { name }));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, locale)] });
+    }
+}
@@ -0,0 +1,56 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, findCategory, findCommand } from '../../helpers/functions';
+import { getGuildSettings, updateGuildSettings } from '../../handlers/guildSettings';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "enable",
+    aliases: ["enablecommand"],
+    cooldown: 3,
+    usage: "enable <command|category>",
+    description: "Re-enable a disabled command or category in this server",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "target",
+                description: "The command or category to enable",
+                required: true
+            }
+        }
+    ],
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            target: string
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+        const selectedCommand = findCommand(optionData.target, client);
+        const selectedCategory = selectedCommand ? null : findCategory(optionData.target);
+
+        if (!selectedCommand && !selectedCategory) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, "errors.unknownTarget"), prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        const settings = await getGuildSettings(guildId, config.db);
+        const [key, name, disabled] = selectedCommand
+            ? ["disabledCommands", selectedCommand.name, settings.disabledCommands] as const
+            : ["disabledCategories", selectedCategory.name.toLowerCase(), settings.disabledCategories] as const;
+
+        if (!disabled.includes(name)) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, "enable.notDisabled", { name }), prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        await updateGuildSettings(guildId, { [key]: disabled.filter(disabledName => disabledName !== name) }, config.db);
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, selectedCommand ? "enable.commandTitle" : "enable.categoryTitle") })
+            .setDescription(t(locale, "enable.enabled", { name }));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, locale)] });
+    }
+}
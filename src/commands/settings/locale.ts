@@ -0,0 +1,66 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed } from '../../helpers/functions';
+import { resetGuildSettings, supportedLocales, updateGuildSettings } from '../../handlers/guildSettings';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "locale",
+    aliases: ["language", "lang"],
+    cooldown: 5,
+    usage: "locale <locale|reset>",
+    description: "Change the language the bot responds with in this server",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "locale",
+                description: "The locale to use, for example en-US, or \"reset\" to follow each member's language",
+                required: true,
+                autocomplete: true
+            }
+        }
+    ],
+    autocomplete: async (autocompleteInteraction: AutocompleteInteraction) => {
+        const query = autocompleteInteraction.options.getFocused().toLowerCase();
+        await autocompleteInteraction.respond(
+            ["reset", ...supportedLocales]
+                .filter(locale => locale.toLowerCase().includes(query))
+                .slice(0, 25)
+                .map(locale => ({ name: locale, value: locale }))
+        );
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            locale: string | null
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+
+        // Locales are matched case-insensitively against those Discord supports
+        const requested = optionData.locale?.toLowerCase();
+        const chosen = supportedLocales.find(supported => supported.toLowerCase() === requested);
+
+        if (!requested || (requested !== "reset" && !chosen)) {
+            const locales = supportedLocales.map(supported => `\`${supported}\``).join(", ");
+            await interaction.reply({
+                embeds: [errorEmbed(t(locale, "locale.invalid", { locales }), prefix, { locale })],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const settings = requested === "reset"
+            ? await resetGuildSettings(guildId, config.db, ["locale"])
+            : await updateGuildSettings(guildId, { locale: chosen as string }, config.db);
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "locale.title") })
+            .setDescription(settings.locale
+                ? t(locale, "locale.guildUpdated", { locale: settings.locale })
+                : t(locale, "locale.guildReset"));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, prefix, true, locale)] });
+    }
+}
@@ -0,0 +1,49 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed } from '../../helpers/functions';
+import { MAX_PREFIX_LENGTH, resetGuildSettings, updateGuildSettings, validatePrefix } from '../../handlers/guildSettings';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+module.exports = {
+    name: "prefix",
+    aliases: ["setprefix"],
+    cooldown: 5,
+    usage: "prefix <new prefix|reset>",
+    description: "Change the prefix used for text commands in this server",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "prefix",
+                description: "The new prefix, or \"reset\" to restore the default",
+                required: true,
+                maxLength: MAX_PREFIX_LENGTH
+            }
+        }
+    ],
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            prefix: string | null
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+        const newPrefix = optionData.prefix?.toLowerCase();
+        const invalidReason = newPrefix ? validatePrefix(newPrefix, locale) : t(locale, "embeds.usage", { usage: `${prefix}prefix <new prefix|reset>` });
+
+        if (!newPrefix || invalidReason) {
+            await interaction.reply({ embeds: [errorEmbed(invalidReason as string, prefix, { locale })], ephemeral: true });
+            return;
+        }
+
+        const settings = newPrefix === "reset"
+            ? await resetGuildSettings(guildId, config.db, ["prefix"])
+            : await updateGuildSettings(guildId, { prefix: newPrefix }, config.db);
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: t(locale, "prefix.title") })
+            .setDescription(t(locale, "prefix.updated", { prefix: settings.prefix }));
+
+        await interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [applyEmbedStructure(embed, settings.prefix, true, locale)] });
+    }
+}
@@ -0,0 +1,114 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser } from '../../helpers/functions';
+import { confirm, respond } from '../../helpers/components';
+import { GuildSettings, getGuildSettings, resetGuildSettings } from '../../handlers/guildSettings';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+// The names settings can be reset by, mapped to their keys.
+const resettableSettings: { [name: string]: Array<keyof GuildSettings> | undefined } = {
+    all: undefined,
+    prefix: ['prefix'],
+    locale: ['locale'],
+    disabled: ['disabledCommands', 'disabledCategories'],
+    access: ['commandOverrides', 'categoryOverrides'],
+};
+
+module.exports = {
+    name: "settings",
+    aliases: ["config", "serversettings"],
+    cooldown: 3,
+    usage: "settings [reset <prefix|locale|disabled|access|all>]",
+    description: "View this server's settings, or reset them to their defaults",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "reset",
+                description: "The setting to reset",
+                required: false,
+                choices: [
+                    { name: "Prefix", value: "prefix" },
+                    { name: "Locale", value: "locale" },
+                    { name: "Disabled commands and categories", value: "disabled" },
+                    { name: "Access rules", value: "access" },
+                    { name: "All settings", value: "all" }
+                ]
+            }
+        }
+    ],
+    textExtract: (messageInteraction: Message) => {
+        const [action, setting] = messageInteraction.content.split(/\s+/).slice(1);
+        return {
+            reset: action?.toLowerCase() === "reset" ? (setting || "all").toLowerCase() : null,
+        }
+    },
+    slashExtract: (commandInteraction: ChatInputCommandInteraction) => {
+        return {
+            reset: commandInteraction.options.getString("reset")?.toLowerCase() || null,
+        }
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            reset: string | null
+        }, locale: string) => {
+
+        const guildId = interaction.guild!.id;
+        let settings: GuildSettings;
+        let title = t(locale, "settings.title");
+
+        if (optionData.reset) {
+            if (!(optionData.reset in resettableSettings)) {
+                await interaction.reply({
+                    embeds: [errorEmbed(t(locale, "settings.unknown", {
+                        setting: optionData.reset,
+                        settings: Object.keys(resettableSettings).map(name => `\`${name}\``).join(", ")
+                    }), prefix, { locale })],
+                    ephemeral: true
+                });
+                return;
+            }
+
+            // Resetting everything cannot be undone, so it is confirmed first
+            if (optionData.reset === "all") {
+                const prompt = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "settings.resetTitle", { setting: "all" }) })
+                    .setDescription(t(locale, "settings.confirmReset"));
+                const confirmed = await confirm(interaction, interactionUser(interaction).id, applyEmbedStructure(prompt, prefix, true, locale), { timeMs: 30000, locale });
+                if (!confirmed) return;
+            }
+
+            settings = await resetGuildSettings(guildId, config.db, resettableSettings[optionData.reset]);
+            title = t(locale, "settings.resetTitle", { setting: optionData.reset });
+        } else {
+            settings = await getGuildSettings(guildId, config.db);
+        }
+
+        const embed = new EmbedBuilder()
+            .setAuthor({ name: title, iconURL: interaction.guild!.iconURL() || undefined })
+            .addFields(
+                { name: t(locale, "settings.prefix"), value: `\`${settings.prefix}\``, inline: true },
+                { name: t(locale, "settings.locale"), value: settings.locale ? `\`${settings.locale}\`` : t(locale, "settings.memberLocale"), inline: true },
+                {
+                    name: t(locale, "settings.disabledCommands"),
+                    value: settings.disabledCommands.map(command => `\`${command}\``).join(", ") || t(locale, "settings.none"),
+                    inline: false
+                },
+                {
+                    name: t(locale, "settings.disabledCategories"),
+                    value: settings.disabledCategories.map(category => `\`${category}\``).join(", ") || t(locale, "settings.none"),
+                    inline: false
+                },
+                {
+                    name: t(locale, "settings.accessRules"),
+                    value: [...Object.keys(settings.commandOverrides), ...Object.keys(settings.categoryOverrides)]
+                        .map(name => `\`${name}\``).join(", ") || t(locale, "settings.none"),
+                    inline: false
+                },
+            );
+
+        // The reset confirmation may already have answered the interaction
+        await respond(interaction, { embeds: [applyEmbedStructure(embed, settings.prefix, true, locale)] });
+    }
+}
@@ -0,0 +1,190 @@
+import { ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed, interactionUser, parseDuration } from '../../helpers/functions';
+import { pick, respond } from '../../helpers/components';
+import { createReminder, deleteReminder, listReminders, MAX_REMINDERS_PER_USER, ReminderDelivery } from '../../handlers/reminders';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+// The most words a duration can span, as in "1 day 2 hours 30 minutes".
+const MAX_DURATION_WORDS = 6;
+
+module.exports = {
+    name: "remind",
+    aliases: ["reminder", "remindme", "reminders"],
+    cooldown: 3,
+    usage: "remind <[me|here] in <duration> [to] <message>|list|delete [id]>",
+    description: "Sets a reminder, delivered by DM or in this channel",
+    options: [
+        {
+            string: {
+                name: "action",
+                description: "Whether to set, list or delete reminders",
+                required: true,
+                choices: [
+                    { name: "Set", value: "set" },
+                    { name: "List", value: "list" },
+                    { name: "Delete", value: "delete" }
+                ]
+            }
+        },
+        {
+            string: {
+                name: "in",
+                description: "How long until the reminder, such as 2h or 1 day",
+                required: false,
+                maxLength: 50
+            }
+        },
+        {
+            string: {
+                name: "message",
+                description: "What to be reminded about",
+                required: false,
+                maxLength: 1000
+            }
+        },
+        {
+            string: {
+                name: "delivery",
+                description: "Where to deliver the reminder, defaults to DMs",
+                required: false,
+                choices: [
+                    { name: "Direct message", value: "dm" },
+                    { name: "This channel", value: "channel" }
+                ]
+            }
+        },
+        {
+            string: {
+                name: "id",
+                description: "The reminder to delete",
+                required: false,
+                maxLength: 10
+            }
+        }
+    ],
+    textExtract: (messageInteraction: Message) => {
+        const words = messageInteraction.content.split(/\s+/).slice(1);
+        const action = words[0]?.toLowerCase();
+        if (action === "list") return { action: "list" };
+        if (action === "delete" || action === "remove") return { action: "delete", id: words[1] };
+
+        // Reminders read as "remind me in 2h to ...", or "remind here ..." to deliver in the channel
+        let delivery: ReminderDelivery = "dm";
+        if (action === "me" || action === "here") {
+            delivery = action === "here" ? "channel" : "dm";
+            words.shift();
+        }
+        if (words[0]?.toLowerCase() === "in") words.shift();
+
+        // Take the longest run of words that reads as a duration
+        let duration: number | null = null;
+        let durationWords = 0;
+        for (let count = Math.min(MAX_DURATION_WORDS, words.length); count > 0; count--) {
+            duration = parseDuration(words.slice(0, count).join(" "));
+            if (duration !== null) {
+                durationWords = count;
+                break;
+            }
+        }
+
+        const messageWords = words.slice(durationWords);
+        if (["to", "that"].includes(messageWords[0]?.toLowerCase())) messageWords.shift();
+
+        return { action: words.length > 0 ? "set" : null, duration, message: messageWords.join(" "), delivery };
+    },
+    slashExtract: (commandInteraction: ChatInputCommandInteraction) => {
+        const duration = commandInteraction.options.getString("in");
+        return {
+            action: commandInteraction.options.getString("action"),
+            duration: duration ? parseDuration(duration) : null,
+            message: commandInteraction.options.getString("message") || "",
+            delivery: commandInteraction.options.getString("delivery") || "dm",
+            id: commandInteraction.options.getString("id"),
+        };
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            action: "set" | "list" | "delete" | null,
+            duration?: number | null,
+            message?: string,
+            delivery?: ReminderDelivery,
+            id?: string | null
+        }, locale: string) => {
+
+        const user = interactionUser(interaction);
+        // The reminder picker may already have answered the interaction
+        const reply = (embed: EmbedBuilder) => respond(interaction, { embeds: [embed] });
+        const timestamp = (date: Date | null) => date ? `<t:${Math.floor(date.getTime() / 1000)}:R>` : t(locale, "remind.soon");
+        const usage = t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` });
+        const noReminders = t(locale, "remind.none", { command: `${prefix}remind me in 1h to ...` });
+
+        switch (optionData.action) {
+            case "list": {
+                const reminders = await listReminders(user.id);
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "remind.listTitle", { count: reminders.length, max: MAX_REMINDERS_PER_USER }) })
+                    .setDescription(reminders.map(({ reminder, nextRunAt }) => {
+                        const where = reminder.delivery === "dm" ? t(locale, "remind.byDm") : t(locale, "remind.inChannel", { channel: reminder.channelId });
+                        return `\`${reminder.id}\` ${timestamp(nextRunAt)} ${where} - ${reminder.message.slice(0, 80)}`;
+                    }).join("\n") || noReminders);
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "delete": {
+                let id = optionData.id;
+                if (!id) {
+                    // Without an id, the reminder to delete is picked from a menu
+                    const reminders = await listReminders(user.id);
+                    if (reminders.length === 0) return reply(errorEmbed(noReminders, prefix, { locale }));
+
+                    const prompt = new EmbedBuilder()
+                        .setAuthor({ name: t(locale, "remind.title") })
+                        .setDescription(t(locale, "remind.pickPrompt"));
+                    const chosen = await pick(interaction, user.id, applyEmbedStructure(prompt, prefix, true, locale), reminders.map(({ reminder, nextRunAt }) => ({
+                        label: reminder.message.slice(0, 100),
+                        value: reminder.id,
+                        description: `${reminder.id} - ${nextRunAt ? nextRunAt.toUTCString() : t(locale, "remind.soon")}`
+                    })), { placeholder: t(locale, "remind.pickPlaceholder"), timeMs: 60000, locale });
+                    if (!chosen) return;
+                    id = chosen[0];
+                }
+
+                if (!await deleteReminder(user.id, id)) {
+                    return reply(errorEmbed(t(locale, "remind.notFound", { id, command: `${prefix}remind list` }), prefix, { locale }));
+                }
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "remind.title") })
+                    .setDescription(t(locale, "remind.deleted", { id: id.toUpperCase() }));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "set": {
+                if (!optionData.duration) {
+                    return reply(errorEmbed(`${t(locale, "remind.durationMissing")}\n${usage}`, prefix, { locale }));
+                }
+
+                const { created, nextRunAt, error } = await createReminder({
+                    userId: user.id,
+                    guildId: interaction.guild!.id,
+                    channelId: interaction.channelId,
+                    message: optionData.message || "",
+                    delivery: optionData.delivery || "dm",
+                    locale,
+                }, optionData.duration);
+                if (!created) return reply(errorEmbed(error!, prefix, { locale }));
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "remind.setTitle") })
+                    .setDescription(t(locale, "remind.set", {
+                        time: timestamp(nextRunAt),
+                        where: t(locale, created.delivery === "dm" ? "remind.byDm" : "remind.inThisChannel")
+                    }))
+                    .addFields({ name: t(locale, "remind.reminder"), value: created.message }, { name: t(locale, "remind.id"), value: `\`${created.id}\``, inline: true });
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            default:
+                return reply(errorEmbed(usage, prefix, { locale }));
+        }
+    }
+}
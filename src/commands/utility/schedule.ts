@@ -0,0 +1,173 @@
+import { ChannelType, ChatInputCommandInteraction, EmbedBuilder, Message } from 'discord.js';
+import { applyEmbedStructure, errorEmbed } from '../../helpers/functions';
+import { createScheduledMessage, deleteScheduledMessage, listScheduledMessages, MAX_SCHEDULED_MESSAGES_PER_GUILD } from '../../handlers/reminders';
+import { t } from '../../helpers/i18n';
+import { CustomClient } from '../../index';
+import { Config } from '../../config';
+
+// "add <#channel> <interval> [embed] <message>", intervals with spaces must be quoted.
+const addRegex = /^\S+\s+add\s+(\S+)\s+("[^"]+"|'[^']+'|\S+)\s+(?:(embed)\s+)?([\s\S]+)$/i;
+
+module.exports = {
+    name: "schedule",
+    aliases: ["announce", "scheduled"],
+    cooldown: 3,
+    usage: "schedule <add <#channel> <interval|\"cron\"> [embed] <message>|list|delete <id>>",
+    description: "Posts a message or embed in a channel on a recurring schedule",
+    memberPermissions: ["ManageGuild"],
+    options: [
+        {
+            string: {
+                name: "action",
+                description: "Whether to add, list or delete scheduled messages",
+                required: true,
+                choices: [
+                    { name: "Add", value: "add" },
+                    { name: "List", value: "list" },
+                    { name: "Delete", value: "delete" }
+                ]
+            }
+        },
+        {
+            channel: {
+                name: "channel",
+                description: "The channel to post in",
+                required: false,
+                channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement]
+            }
+        },
+        {
+            string: {
+                name: "interval",
+                description: "How often to post, such as 1 day or a cron expression like 0 9 * * 1",
+                required: false,
+                maxLength: 100
+            }
+        },
+        {
+            string: {
+                name: "message",
+                description: "What to post",
+                required: false,
+                maxLength: 2000
+            }
+        },
+        {
+            boolean: {
+                name: "embed",
+                description: "Whether to post the message as an embed",
+                required: false
+            }
+        },
+        {
+            string: {
+                name: "id",
+                description: "The scheduled message to delete",
+                required: false,
+                maxLength: 10
+            }
+        }
+    ],
+    textExtract: (messageInteraction: Message) => {
+        const [action, id] = messageInteraction.content.split(/\s+/).slice(1);
+        switch (action?.toLowerCase()) {
+            case "list":
+                return { action: "list" };
+            case "delete":
+            case "remove":
+                return { action: "delete", id };
+            case "add": {
+                const match = messageInteraction.content.match(addRegex);
+                if (!match) return { action: "add" };
+                return {
+                    action: "add",
+                    channelId: match[1].replace(/[<#>]/g, ""),
+                    interval: match[2].replace(/^["']|["']$/g, ""),
+                    embed: Boolean(match[3]),
+                    message: match[4].trim(),
+                };
+            }
+            default:
+                return { action: null };
+        }
+    },
+    slashExtract: (commandInteraction: ChatInputCommandInteraction) => {
+        return {
+            action: commandInteraction.options.getString("action"),
+            channelId: commandInteraction.options.getChannel("channel")?.id,
+            interval: commandInteraction.options.getString("interval"),
+            message: commandInteraction.options.getString("message"),
+            embed: commandInteraction.options.getBoolean("embed") || false,
+            id: commandInteraction.options.getString("id"),
+        };
+    },
+    execute: async (client: CustomClient, interaction: Message | ChatInputCommandInteraction, prefix: string, config: Config,
+        optionData: {
+            action: "add" | "list" | "delete" | null,
+            channelId?: string,
+            interval?: string | null,
+            message?: string | null,
+            embed?: boolean,
+            id?: string | null
+        }, locale: string) => {
+
+        const guild = interaction.guild!;
+        const reply = (embed: EmbedBuilder) => interaction.reply({ allowedMentions: { repliedUser: false }, embeds: [embed] });
+        const timestamp = (date: Date | null) => date ? `<t:${Math.floor(date.getTime() / 1000)}:R>` : t(locale, "schedule.never");
+        const usage = t(locale, "embeds.usage", { usage: `${prefix}${module.exports.usage}` });
+
+        switch (optionData.action) {
+            case "list": {
+                const scheduledMessages = await listScheduledMessages(guild.id);
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "schedule.listTitle", { count: scheduledMessages.length, max: MAX_SCHEDULED_MESSAGES_PER_GUILD }) })
+                    .setDescription(scheduledMessages.map(({ scheduledMessage, nextRunAt }) =>
+                        t(locale, "schedule.entry", { id: scheduledMessage.id, channel: scheduledMessage.channelId, interval: scheduledMessage.interval, time: timestamp(nextRunAt) }) +
+                        `${scheduledMessage.embed ? t(locale, "schedule.embedTag") : ""}\n${scheduledMessage.content.slice(0, 80)}`
+                    ).join("\n\n") || t(locale, "schedule.none"));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "delete": {
+                if (!optionData.id) return reply(errorEmbed(usage, prefix, { locale }));
+                if (!await deleteScheduledMessage(guild.id, optionData.id)) {
+                    return reply(errorEmbed(t(locale, "schedule.notFound", { id: optionData.id, command: `${prefix}schedule list` }), prefix, { locale }));
+                }
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "schedule.title") })
+                    .setDescription(t(locale, "schedule.deleted", { id: optionData.id.toUpperCase() }));
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            case "add": {
+                const channel = optionData.channelId ? guild.channels.cache.get(optionData.channelId) : null;
+                if (!channel || !optionData.interval || !optionData.message) {
+                    return reply(errorEmbed(usage, prefix, { locale }));
+                }
+
+                // The bot must be able to post there when the schedule fires
+                const botPermissions = guild.members.me && channel.permissionsFor(guild.members.me);
+                if (!channel.isTextBased() || !botPermissions?.has(["ViewChannel", "SendMessages", "EmbedLinks"])) {
+                    return reply(errorEmbed(t(locale, "schedule.cannotPost", { channel: `${channel}` }), prefix, { locale }));
+                }
+
+                const { created, nextRunAt, error } = await createScheduledMessage({
+                    guildId: guild.id,
+                    channelId: channel.id,
+                    createdBy: interaction.member!.user.id,
+                    content: optionData.message,
+                    embed: optionData.embed || false,
+                    interval: optionData.interval,
+                }, locale);
+                if (!created) return reply(errorEmbed(error!, prefix, { locale }));
+
+                const embed = new EmbedBuilder()
+                    .setAuthor({ name: t(locale, "schedule.createdTitle") })
+                    .setDescription(t(locale, "schedule.created", { channel: `${channel}`, interval: created.interval, time: timestamp(nextRunAt) }))
+                    .addFields({ name: t(locale, "schedule.message"), value: created.content.slice(0, 1024) }, { name: t(locale, "schedule.id"), value: `\`${created.id}\``, inline: true });
+                return reply(applyEmbedStructure(embed, prefix, true, locale));
+            }
+            default:
+                return reply(errorEmbed(usage, prefix, { locale }));
+        }
+    }
+}
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ColorResolvable } from 'discord.js';
+import { Db, MongoClient } from 'mongodb';
+import { LogFormat, LogLevel, logger } from './helpers/logger';
+import { BackupConfig } from './helpers/backupDestinations';
+import { BotListsConfig } from './helpers/botLists';
+import { environmentLayer, mergeLayers, schemaDefaults, validateConfig } from './helpers/configSchema';
+
+// A category of commands, shown in the help menu.
+export interface CategoryDefinition {
+    name: string;
+    description?: string;
+    icon: string;
+    aliases?: string[];
+    hidden?: boolean;
+}
+
+// The config, as validated against the schema in helpers/configSchema.ts.
+export interface Config {
+    token: string;
+    mongoURI: string;
+    dbName: string;
+    db: Db;
+    ownerId: string;
+    defaultPrefix: string;
+    slashGlobal: boolean;
+    hotReload?: boolean;
+    migrateOnStart?: boolean;
+    metricsPort?: number;
+    shards?: number | 'auto';
+    logLevel?: LogLevel;
+    logFormat?: LogFormat;
+    discordLogLevel?: LogLevel;
+    botErrorLogs: string;
+    backupChannel: string;
+    backup?: BackupConfig;
+    guildCache?: { maxSize?: number; ttlSeconds?: number; negativeTtlSeconds?: number };
+    botLists?: BotListsConfig;
+    topGG: string;
+    topGGVote: string;
+    supportInvite: string;
+    donation: string;
+    ToS: string;
+    privacyPolicy: string;
+    helpIcon: string;
+    invitePermissionsID: string;
+    collectionNames: { BOT_GUILDS: string; BOT_USERS: string; BLACKLIST: string; INCIDENTS: string; ANALYTICS: string; JOBS: string; JOB_RUNS: string; MIGRATIONS: string };
+    embedStructure: { colour: ColorResolvable; errorColour: ColorResolvable; footerIcon: string };
+    categoryDefinitions: CategoryDefinition[];
+}
+
+// The outcome of loading the config, before connecting to the database.
+export interface LoadedConfig {
+    config: Omit<Config, 'db'> | null;
+    // The files the config was read from, in the order they were applied
+    sources: string[];
+    problems: string[];
+    warnings: string[];
+}
+
+// Config files looked for in the working directory, unless CONFIG_FILE names one.
+const configFileNames = ['config.yaml', 'config.yml', 'config.json'];
+
+let config: Config;
+
+/**
+ * Reads a config file, as YAML or JSON depending on its extension
+ * @param filePath the file to read
+ * @returns the values in the file, or why it could not be read
+ */
+function readConfigFile(filePath: string): { values: { [key: string]: unknown } | null, error: string | null } {
+    try {
+        const text = fs.readFileSync(filePath, 'utf8');
+        const values = filePath.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+        if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+            return { values: null, error: `${filePath} must contain an object of settings` };
+        }
+        return { values, error: null };
+    } catch (error) {
+        return { values: null, error: `${filePath} could not be read: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+/**
+ * Loads the config in layers: the schema defaults, then the config file, then environment variables.
+ * A .env file in the working directory is read into the environment first, without
+ * overriding variables that are already set.
+ *
+ * @param directory where to look for .env and the config file, defaults to the working directory
+ * @returns the validated config, or the problems that stopped it validating
+ */
+export function loadConfig(directory: string = process.cwd()): LoadedConfig {
+    const sources: string[] = [];
+
+    const envFile = path.join(directory, '.env');
+    if (fs.existsSync(envFile)) {
+        process.loadEnvFile(envFile);
+        sources.push(envFile);
+    }
+
+    const configFile = process.env.CONFIG_FILE
+        ? path.resolve(directory, process.env.CONFIG_FILE)
+        : configFileNames.map((name) => path.join(directory, name)).find((filePath) => fs.existsSync(filePath));
+
+    let fileLayer: { [key: string]: unknown } = {};
+    if (configFile) {
+        const { values, error } = readConfigFile(configFile);
+        if (!values) return { config: null, sources, problems: [error!], warnings: [] };
+        fileLayer = values;
+        sources.unshift(configFile);
+    }
+
+    const merged = mergeLayers(schemaDefaults(), fileLayer, environmentLayer(process.env));
+    const { problems, warnings } = validateConfig(merged);
+    if (!configFile) warnings.unshift(`No config file was found, looked for ${configFileNames.join(', ')} in ${directory}`);
+
+    return { config: problems.length === 0 ? merged as unknown as Omit<Config, 'db'> : null, sources, problems, warnings };
+}
+
+/**
+ * Loads and validates the config, then connects to the database.
+ * Startup stops with every problem listed if the config is invalid.
+ */
+export async function initialiseConfig(): Promise<void> {
+    const { config: loaded, problems, warnings } = loadConfig();
+    warnings.forEach((warning) => logger.child('config').warn(warning));
+    if (!loaded) {
+        throw new Error(`Invalid config, run "npm run config check" for details:\n${problems.map((problem) => ` - ${problem}`).join('\n')}`);
+    }
+
+    const client = await MongoClient.connect(loaded.mongoURI);
+    config = { ...loaded, db: client.db(loaded.dbName) };
+}
+
+export function getConfig(): Config {
+    return config;
+}
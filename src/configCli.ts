@@ -0,0 +1,33 @@
+import { stringify as stringifyYaml } from 'yaml';
+import { loadConfig } from './config.js';
+import { redactConfig } from './helpers/configSchema';
+
+// Usage: node dist/configCli.js [check|show]
+// check: loads the config the same way the bot does, listing where it came from and anything wrong with it.
+// show: also prints the resolved config, with tokens, secrets and the Mongo URI redacted.
+// Exits with an error when the config is invalid, so it can gate a deploy.
+
+// Main Function
+function main(): number {
+  const [command = 'check'] = process.argv.slice(2);
+  if (!['check', 'show'].includes(command)) {
+    console.error('Usage: node dist/configCli.js [check|show]');
+    return 1;
+  }
+
+  const { config, sources, problems, warnings } = loadConfig();
+  console.log(`Sources: defaults, ${[...sources, 'environment'].join(', ')}`);
+  warnings.forEach((warning) => console.warn(`Warning: ${warning}`));
+
+  if (!config) {
+    console.error(`The config is invalid:\n${problems.map((problem) => ` - ${problem}`).join('\n')}`);
+    return 1;
+  }
+
+  if (command === 'show') console.log(stringifyYaml(redactConfig(config)));
+  console.log('The config is valid.');
+  return 0;
+}
+
+// Run main
+process.exit(main());
@@ -1,29 +1,71 @@
-import { ApplicationCommand, CommandInteraction, CommandInteractionOptionResolver, Message } from "discord.js";
-import { errorEmbed, logError, escapeString } from "../../helpers/functions";
+import {
+    ApplicationCommand,
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    CommandInteraction,
+    Interaction,
+    Message
+} from "discord.js";
+import { errorEmbed, logError, escapeString, interactionUser, isOwner } from "../../helpers/functions";
 import { CustomClient } from "../../index";
 import { getConfig } from "../../config";
-import { getCache } from "../../handlers/botCache";
+import { getGuildSettings } from "../../handlers/guildSettings";
+import { resolveLocale } from "../../handlers/locale";
+import { t } from "../../helpers/i18n";
+import { withErrorContext } from "../../helpers/logger";
 import { Command } from "../../handlers/command";
+import { checkCooldown } from "../../handlers/cooldowns";
+import { describeBlacklistEntry, getBlacklistEntry } from "../../handlers/blacklist";
+import { describeMissingPermissions, findMissingPermissions } from "../../helpers/permissions";
+import { accessContext, checkCommandAccess } from "../../helpers/access";
+import { parseContextMenuOptions, parseSlashOptions, parseTextOptions, usageEmbed } from "../../helpers/arguments";
+import { findContextMenuCommand, findSlashCommand } from "../../helpers/command";
+import { recordIncident } from "../../handlers/incidents";
+import { recordCommandUsage } from "../../handlers/analytics";
 
-module.exports = async (client: CustomClient, interaction: Message | CommandInteraction) => {
+/**
+ * Routes an autocomplete interaction to the handler of the command it belongs to
+ * @param client the bot client
+ * @param interaction the autocomplete interaction
+ */
+async function handleAutocomplete(client: CustomClient, interaction: AutocompleteInteraction) {
+    const command = findSlashCommand(client, interaction);
+
+    try {
+        if (command && typeof command.autocomplete === "function") {
+            await command.autocomplete(interaction, client);
+        } else {
+            await interaction.respond([]);
+        }
+    } catch (e) {
+        logError(client, withErrorContext(e, { guildId: interaction.guildId, userId: interaction.user.id, command: command?.name }));
+    }
+}
+
+module.exports = async (client: CustomClient, interaction: Message | Interaction) => {
     // If the interaction is not in a guild, return
     if (!interaction.guild || client.user === null) return;
-    if (!(interaction instanceof Message) && !interaction.isChatInputCommand()) return;
+    if (!(interaction instanceof Message) && interaction.isAutocomplete()) return handleAutocomplete(client, interaction);
+    if (!(interaction instanceof Message) && !interaction.isChatInputCommand() && !interaction.isContextMenuCommand()) return;
 
     const config = getConfig();
-    const guildData = await getCache(interaction.guild.id, config.db)
+    const guildSettings = await getGuildSettings(interaction.guild.id, config.db);
 
     let prefix: string;
     let commandName: string;
     let givenPrefix: string = "";
 
     if (interaction instanceof CommandInteraction) {
-        // Slash command prefix
+        // Slash command prefix, the command is found by the full path it was invoked with
+        // ...or by the context menu entry that was clicked
         prefix = "/";
-        commandName = (interaction.options as CommandInteractionOptionResolver).getSubcommand();
+        const interactionCommand = interaction.isContextMenuCommand()
+            ? findContextMenuCommand(client, interaction)
+            : findSlashCommand(client, interaction as ChatInputCommandInteraction);
+        commandName = interactionCommand?.name || "";
     } else {
         // Bot's prefix [default or guild specific]
-        prefix = guildData?.prefix || config.defaultPrefix;
+        prefix = guildSettings.prefix;
 
         // Extract some key message data
         const content = interaction.content.split(" ")[0]
@@ -43,29 +85,121 @@ module.exports = async (client: CustomClient, interaction: Message | CommandInte
     // Return if command cannot be found or if the message does not start with the prefix
     const prefixRegex = new RegExp(`^(<@!?${client.user.id}>|${escapeString(prefix)})`);
     if (!command || ((interaction instanceof Message) ? !prefixRegex.test(givenPrefix) : false)) return;
-    
+
+    // Respond in the invoker's chosen locale, their guild's, or the language of their client
+    const locale = await resolveLocale(interaction, guildSettings, config.db);
+
+    // Owner-only commands are ignored for everyone else
+    const invokerId = interactionUser(interaction).id;
+    const invocationContext = { guildId: interaction.guild.id, channelId: interaction.channelId, userId: invokerId, command: command.name };
+    if (command.ownerOnly && !isOwner(invokerId)) {
+        if (interaction instanceof CommandInteraction) {
+            await interaction.reply({ embeds: [errorEmbed(t(locale, "errors.ownerOnly"), prefix, { locale })], ephemeral: true });
+        }
+        return;
+    }
+
+    // Blacklisted users and guilds cannot use the bot, owners are never blocked
+    // Text commands are ignored silently to avoid replying to every message
+    if (!isOwner(invokerId)) {
+        const blacklistEntry = getBlacklistEntry(invokerId, config.db)
+            || getBlacklistEntry(interaction.guild.id, config.db);
+        if (blacklistEntry) {
+            if (interaction instanceof CommandInteraction) {
+                await interaction.reply({
+                    embeds: [errorEmbed(`${t(locale, "errors.blacklisted")}\n${describeBlacklistEntry(blacklistEntry, locale)}`, prefix, { locale })],
+                    ephemeral: true
+                });
+            }
+            return;
+        }
+    }
+
+    // Commands disabled or restricted by the guild cannot be used here
+    const accessDenied = checkCommandAccess(command, guildSettings, accessContext(interaction), locale);
+    if (accessDenied) {
+        await interaction.reply({
+            allowedMentions: { repliedUser: false },
+            embeds: [errorEmbed(accessDenied, prefix, { locale })],
+            ephemeral: true
+        });
+        return;
+    }
+
+    // Ensure both the bot and the member hold the command's required permissions
+    const missingPermissions = findMissingPermissions(command, interaction);
+    if (missingPermissions.bot.length > 0 || missingPermissions.member.length > 0) {
+        await interaction.reply({
+            allowedMentions: { repliedUser: false },
+            embeds: [errorEmbed(describeMissingPermissions(missingPermissions, locale), prefix, { locale })],
+            ephemeral: true
+        });
+        return;
+    }
+
+    // Enforce the command's cooldown, shared between text and slash invocations
+    const cooldownRemaining = checkCooldown(client, command, interaction);
+    if (cooldownRemaining > 0) {
+        await interaction.reply({
+            allowedMentions: { repliedUser: false },
+            embeds: [errorEmbed(t(locale, "errors.cooldown", { count: cooldownRemaining }), prefix, { locale })],
+            ephemeral: true
+        });
+        return;
+    }
+
     // Execute the command, use data extracting helpers to get the data 
     // from the interaction as a commonly shared object
-    try {
-        let optionData: object = {};
+    let optionData: object = {};
+    const startedAt = Date.now();
+    const usage = {
+        command: command.name,
+        category: command.category,
+        source: interaction instanceof Message ? "text" as const : interaction.isContextMenuCommand() ? "context" as const : "slash" as const,
+        guildId: interaction.guild.id,
+    };
 
-        // Below helpers allow unique data extraction slash and text command specific
-        if (interaction instanceof CommandInteraction && command.hasOwnProperty("slashExtract")) {
+    try {
+        // Below helpers allow unique data extraction slash and text command specific,
+        // otherwise the declared options are parsed into the same typed structure for both
+        if (interaction instanceof CommandInteraction && interaction.isContextMenuCommand()) {
+            optionData = parseContextMenuOptions(interaction, command);
+        } else if (interaction instanceof CommandInteraction) {
             if (typeof command.slashExtract === "function") {
                 optionData = command.slashExtract(interaction, client);
+            } else if (command.options) {
+                optionData = parseSlashOptions(interaction as ChatInputCommandInteraction, command);
             }
-        } else if (command.hasOwnProperty("textExtract")) {
-            if (typeof command.textExtract === "function") {
-                optionData = command.textExtract(interaction as Message, client);
+        } else if (typeof command.textExtract === "function") {
+            optionData = command.textExtract(interaction, client);
+        } else if (command.options) {
+            const parsedOptions = await parseTextOptions(interaction, command, client, locale);
+            if (parsedOptions.error) {
+                await interaction.reply({
+                    allowedMentions: { repliedUser: false },
+                    embeds: [usageEmbed(command, prefix, parsedOptions.error, locale)]
+                });
+                return;
             }
+            optionData = parsedOptions.data;
         }
 
-        command.execute(client, interaction, prefix, config, optionData);
+        await command.execute(client, interaction, prefix, config, optionData, locale);
+        recordCommandUsage({ ...usage, durationMs: Date.now() - startedAt, success: true });
     } catch (e) {
-        logError(client, e as Error);
-        interaction.reply({
+        recordCommandUsage({ ...usage, durationMs: Date.now() - startedAt, success: false });
+        withErrorContext(e, invocationContext);
+
+        // Record the failure so it can be looked up from the id shown to the user
+        const incident = await recordIncident({ ...invocationContext, options: optionData }, e, config.db);
+        logError(client, withErrorContext(e, { incidentId: incident._id }));
+
+        const reply = {
             allowedMentions: { repliedUser: false },
-            embeds: [errorEmbed("Unexpected Error", prefix)]
-        });
+            embeds: [errorEmbed(t(locale, "embeds.unexpectedError"), prefix, { locale, incidentId: incident._id })],
+            ephemeral: true
+        };
+        const replied = interaction instanceof CommandInteraction && (interaction.replied || interaction.deferred);
+        await (replied ? (interaction as CommandInteraction).followUp(reply) : interaction.reply(reply)).catch(() => null);
     }
 };
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Guild } from "discord.js";
+import { CustomClient } from "../../index";
+import { getConfig } from "../../config";
+import { getBlacklistEntry } from "../../handlers/blacklist";
+import { logger } from "../../helpers/logger";
+
+const log = logger.child("blacklist");
+
+module.exports = async (client: CustomClient, guild: Guild) => {
+    // Leave blacklisted guilds as soon as we are added to them
+    const blacklistEntry = getBlacklistEntry(guild.id, getConfig().db);
+    if (!blacklistEntry || blacklistEntry.type !== "guild") return;
+
+    try {
+        await guild.leave();
+        log.info("Left blacklisted guild", { guildId: guild.id });
+    } catch (error) {
+        log.error("Failed to leave blacklisted guild", { guildId: guild.id, error });
+    }
+};
@@ -0,0 +1,276 @@
+import { AnyBulkWriteOperation, Db as DbConnection, MongoBulkWriteError } from 'mongodb';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { logger } from '../helpers/logger';
+import { commandCounter, commandDuration } from '../helpers/metrics';
+
+// How a command was invoked.
+export type InvocationSource = 'text' | 'slash' | 'context';
+
+// A single command dispatch.
+export interface CommandUsage {
+    command: string;
+    category: string;
+    source: InvocationSource;
+    guildId: string | null;
+    durationMs: number;
+    success: boolean;
+}
+
+// The structure of an hourly usage bucket, one per command, guild and source.
+export interface UsageBucket {
+    _id: string;
+    bucket: Date;
+    command: string;
+    category: string;
+    source: InvocationSource;
+    guildId: string | null;
+    count: number;
+    failures: number;
+    totalDuration: number;
+    latency: { [boundary: string]: number };
+}
+
+// Usage totals for a command, guild or period.
+export interface UsageTotals {
+    count: number;
+    failures: number;
+    averageMs: number;
+    p95Ms: number | null;
+}
+
+// Usage over a period, broken down in the ways the stats command shows.
+export interface UsageSummary extends UsageTotals {
+    commands: Array<UsageTotals & { command: string, category: string }>;
+    guilds: Array<UsageTotals & { guildId: string | null }>;
+    sources: { [source in InvocationSource]?: number };
+}
+
+// Upper bounds, in milliseconds, of the latency histogram buckets.
+const latencyBoundaries = [50, 100, 250, 500, 1000, 2500, 5000, 10000, Infinity];
+const latencyKeys = latencyBoundaries.map((boundary) => boundary === Infinity ? 'inf' : `le${boundary}`);
+
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const MAX_BUFFERED_BUCKETS = 500;
+const USAGE_RETENTION_DAYS = 90;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Increments waiting to be written, keyed by bucket id.
+let buffer: Map<string, Omit<UsageBucket, '_id'>> = new Map();
+const log = logger.child('analytics');
+
+/**
+ * @param db the database connection
+ * @returns the usage collection
+ */
+function usageCollection(db: DbConnection) {
+    return db.collection<UsageBucket>(getConfig().collectionNames.ANALYTICS);
+}
+
+/**
+ * Records a command dispatch, buffering it in memory until the next flush.
+ * The dispatch is also counted in the live metrics.
+ * @param usage the dispatch to record
+ */
+export function recordCommandUsage(usage: CommandUsage) {
+    commandCounter.inc({ command: usage.command, source: usage.source, outcome: usage.success ? 'success' : 'failure' });
+    commandDuration.observe({ command: usage.command }, usage.durationMs / 1000);
+
+    const bucket = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+    const id = [bucket.toISOString(), usage.command, usage.guildId || 'dm', usage.source].join(':');
+
+    const entry = buffer.get(id) || {
+        bucket,
+        command: usage.command,
+        category: usage.category,
+        source: usage.source,
+        guildId: usage.guildId,
+        count: 0,
+        failures: 0,
+        totalDuration: 0,
+        latency: {},
+    };
+
+    const latencyKey = latencyKeys[latencyBoundaries.findIndex((boundary) => usage.durationMs <= boundary)];
+    entry.count++;
+    entry.failures += usage.success ? 0 : 1;
+    entry.totalDuration += usage.durationMs;
+    entry.latency[latencyKey] = (entry.latency[latencyKey] || 0) + 1;
+    buffer.set(id, entry);
+
+    if (buffer.size >= MAX_BUFFERED_BUCKETS) {
+        flushUsage(getConfig().db).catch((error) => log.error('Failed to flush command usage', { error }));
+    }
+}
+
+/**
+ * Writes the buffered usage to the database, merging it into the stored buckets.
+ * Usage that fails to be written is kept for the next flush.
+ *
+ * @param db the database connection
+ */
+export async function flushUsage(db: DbConnection) {
+    if (buffer.size === 0) return;
+
+    const pending = Array.from(buffer);
+    buffer = new Map();
+
+    const operations: AnyBulkWriteOperation<UsageBucket>[] = pending.map(([id, entry]) => ({
+        updateOne: {
+            filter: { _id: id },
+            update: {
+                $setOnInsert: { bucket: entry.bucket, command: entry.command, category: entry.category, source: entry.source, guildId: entry.guildId },
+                $inc: {
+                    count: entry.count,
+                    failures: entry.failures,
+                    totalDuration: entry.totalDuration,
+                    ...Object.fromEntries(Object.entries(entry.latency).map(([key, value]) => [`latency.${key}`, value])),
+                },
+            },
+            upsert: true,
+        },
+    }));
+
+    try {
+        await usageCollection(db).bulkWrite(operations, { ordered: false });
+    } catch (error) {
+        // The writes are unordered, so a bulk write error still applied every operation it does not list.
+        // Only the unwritten usage is merged back in, so nothing is lost to a brief outage or counted twice
+        const failedIndexes = error instanceof MongoBulkWriteError
+            ? new Set([error.writeErrors].flat().map((writeError) => writeError.index))
+            : null;
+        const unwritten = failedIndexes ? pending.filter((_, index) => failedIndexes.has(index)) : pending;
+
+        for (const [id, entry] of unwritten) {
+            const current = buffer.get(id);
+            if (!current) {
+                buffer.set(id, entry);
+                continue;
+            }
+            current.count += entry.count;
+            current.failures += entry.failures;
+            current.totalDuration += entry.totalDuration;
+            for (const [key, value] of Object.entries(entry.latency)) {
+                current.latency[key] = (current.latency[key] || 0) + value;
+            }
+        }
+        throw error;
+    }
+}
+
+/**
+ * Function to estimate a percentile from a latency histogram
+ * @param latency the histogram counts by bucket
+ * @param percentile the percentile to estimate, between 0 and 1
+ * @returns the upper bound of the bucket holding the percentile, or null without data
+ */
+function estimatePercentile(latency: { [boundary: string]: number }, percentile: number): number | null {
+    const total = latencyKeys.reduce((sum, key) => sum + (latency[key] || 0), 0);
+    if (total === 0) return null;
+
+    let seen = 0;
+    for (const [index, key] of latencyKeys.entries()) {
+        seen += latency[key] || 0;
+        if (seen >= total * percentile) return latencyBoundaries[index];
+    }
+    return Infinity;
+}
+
+/**
+ * Simple function to turn grouped sums into totals
+ * @param group the grouped sums
+ * @returns the totals
+ */
+function toTotals(group: any): UsageTotals {
+    const latency = Object.fromEntries(latencyKeys.map((key) => [key, group[key] || 0]));
+    return {
+        count: group.count,
+        failures: group.failures,
+        averageMs: group.count > 0 ? Math.round(group.totalDuration / group.count) : 0,
+        p95Ms: estimatePercentile(latency, 0.95),
+    };
+}
+
+/**
+ * @param groupId what to group by
+ * @returns a group stage summing the counts and latency histogram
+ */
+function groupStage(groupId: unknown) {
+    return {
+        $group: {
+            _id: groupId,
+            count: { $sum: '$count' },
+            failures: { $sum: '$failures' },
+            totalDuration: { $sum: '$totalDuration' },
+            ...Object.fromEntries(latencyKeys.map((key) => [key, { $sum: `$latency.${key}` }])),
+        },
+    };
+}
+
+/**
+ * Summarises usage since a date, flushing the buffer first so it is up to date
+ * @param db the database connection
+ * @param since the start of the period
+ * @param until the end of the period [optional]
+ * @returns the summary
+ */
+export async function usageSummary(db: DbConnection, since: Date, until: Date = new Date()): Promise<UsageSummary> {
+    await flushUsage(db);
+
+    const [result] = await usageCollection(db).aggregate<any>([
+        { $match: { bucket: { $gte: since, $lt: until } } },
+        {
+            $facet: {
+                total: [groupStage(null)],
+                commands: [groupStage({ command: '$command', category: '$category' }), { $sort: { count: -1 } }],
+                guilds: [groupStage('$guildId'), { $sort: { count: -1 } }],
+                sources: [{ $group: { _id: '$source', count: { $sum: '$count' } } }],
+            },
+        },
+    ]).toArray();
+
+    const total = result.total[0] || { count: 0, failures: 0, totalDuration: 0 };
+    return {
+        ...toTotals(total),
+        commands: result.commands.map((group: any) => ({ ...toTotals(group), command: group._id.command, category: group._id.category })),
+        guilds: result.guilds.map((group: any) => ({ ...toTotals(group), guildId: group._id })),
+        sources: Object.fromEntries(result.sources.map((group: any) => [group._id, group.count])),
+    };
+}
+
+/**
+ * Fetches usage over time, in hourly or daily steps
+ * @param db the database connection
+ * @param since the start of the period
+ * @param step the size of each step
+ * @returns the count and failures of each step with usage, oldest first
+ */
+export async function usageTimeline(db: DbConnection, since: Date, step: 'hour' | 'day'): Promise<Array<{ time: Date, count: number, failures: number }>> {
+    await flushUsage(db);
+
+    const format = step === 'hour' ? '%Y-%m-%dT%H:00:00Z' : '%Y-%m-%dT00:00:00Z';
+    const steps = await usageCollection(db).aggregate<any>([
+        { $match: { bucket: { $gte: since } } },
+        { $group: { _id: { $dateToString: { format, date: '$bucket' } }, count: { $sum: '$count' }, failures: { $sum: '$failures' } } },
+        { $sort: { _id: 1 } },
+    ]).toArray();
+
+    return steps.map((entry) => ({ time: new Date(entry._id), count: entry.count, failures: entry.failures }));
+}
+
+/**
+ * Start flushing usage periodically, and ensure old buckets expire
+ */
+export default async function loadAnalyticsHandler(client: CustomClient): Promise<void> {
+    const db = getConfig().db;
+
+    setInterval(() => {
+        flushUsage(db).catch((error) => log.error('Failed to flush command usage', { error }));
+    }, FLUSH_INTERVAL_MS).unref();
+
+    try {
+        await usageCollection(db).createIndex({ bucket: 1 }, { expireAfterSeconds: USAGE_RETENTION_DAYS * 24 * 60 * 60 });
+    } catch (error) {
+        log.error('Error preparing usage indexes', { error });
+    }
+}
@@ -1,13 +1,21 @@
+import { logger } from '../helpers/logger';
+import { unhandledErrors } from '../helpers/metrics';
+
+const log = logger.child('process');
+
 export default function antiCrash(client: any): void {
+    // Commands, event listeners and jobs tag their errors with withErrorContext, so the logger attaches where they came from
     process.on('unhandledRejection', async (error) => {
-        console.error(`Unhandled promise rejection: ${error}`);
+        unhandledErrors.inc({ type: 'rejection' });
+        log.error('Unhandled promise rejection', { error });
     });
 
     process.on('uncaughtException', async (error) => {
-        console.error(`Uncaught exception: ${error.stack}`);
+        unhandledErrors.inc({ type: 'exception' });
+        log.error('Uncaught exception', { error });
     });
 
     process.on('warning', async (warning) => {
-        console.warn(`Warning: ${warning}`);
+        log.warn(`Warning: ${warning.message}`, { name: warning.name });
     });
-}
\ No newline at end of file
+}
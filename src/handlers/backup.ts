@@ -0,0 +1,236 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { REST } from 'discord.js';
+import { Db as DbConnection, Document, IndexDescription } from 'mongodb';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { logger } from '../helpers/logger';
+import { BackupManifest, exportCollection, generateBackupId, importCollection, hashFile, MANIFEST_FILE } from '../helpers/backup';
+import { BackupDestination, createDestination } from '../helpers/backupDestinations';
+
+// The outcome of a backup, by destination.
+export interface BackupResult {
+    manifest: BackupManifest;
+    uploaded: string[];
+    failed: string[];
+}
+
+// What to restore, from where and into which database.
+export interface RestoreOptions {
+    backupId: string;
+    destination: BackupDestination;
+    target: DbConnection;
+    collections?: string[];
+    replace?: boolean;
+}
+
+// The outcome of a restore, by collection.
+export interface RestoreResult {
+    manifest: BackupManifest;
+    restored: { [collection: string]: number };
+    skipped: { [collection: string]: string };
+}
+
+const WORK_DIRECTORY_PREFIX = 'majestic-backup-';
+// Work directories younger than this may belong to a backup still running on another shard.
+const STALE_WORK_DIRECTORY_MS = 2 * 60 * 60 * 1000;
+// Appended to a collection's name while it is restored with replace.
+const STAGING_COLLECTION_SUFFIX = '_restoring';
+
+const log = logger.child('backup');
+
+/**
+ * @returns the collections to back up, defaulting to the bot's own data
+ * and the migrations applied to it, so a restore knows the schema it holds
+ */
+export function backupCollectionNames(): string[] {
+    const config = getConfig();
+    const cNames = config.collectionNames;
+    return config.backup?.collections || [cNames.BOT_GUILDS, cNames.BOT_USERS, cNames.BLACKLIST, cNames.MIGRATIONS];
+}
+
+/**
+ * @param rest a REST client, used by Discord destinations
+ * @returns the configured destinations, defaulting to the backup channel
+ */
+export function backupDestinations(rest: REST): BackupDestination[] {
+    const config = getConfig();
+    const destinations = config.backup?.destinations
+        || (config.backupChannel ? [{ type: 'discord' as const, channelId: config.backupChannel }] : []);
+    return destinations.map((destination) => createDestination(destination, rest));
+}
+
+/**
+ * Simple function to create a temporary directory to work in
+ * @returns the path of the directory
+ */
+function createWorkDirectory(): Promise<string> {
+    return fs.mkdtemp(path.join(os.tmpdir(), WORK_DIRECTORY_PREFIX));
+}
+
+/**
+ * Exports the collections, then uploads them with their manifest to every destination.
+ * Destinations are pruned after a successful upload, and the exported files are
+ * always removed afterwards.
+ *
+ * @param db the database to back up
+ * @param collectionNames the collections to back up
+ * @param destinations where to send the backup
+ * @returns the manifest, and which destinations received it
+ */
+export async function runBackup(db: DbConnection, collectionNames: string[], destinations: BackupDestination[]): Promise<BackupResult> {
+    const workDirectory = await createWorkDirectory();
+    const createdAt = new Date();
+
+    try {
+        const manifest: BackupManifest = { id: generateBackupId(createdAt), createdAt: createdAt.toISOString(), database: db.databaseName, collections: [] };
+        for (const name of collectionNames) {
+            manifest.collections.push(await exportCollection(db, name, workDirectory));
+        }
+        await fs.writeFile(path.join(workDirectory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+        const files = [...manifest.collections.map((entry) => entry.file), MANIFEST_FILE]
+            .map((name) => ({ name, path: path.join(workDirectory, name) }));
+
+        const uploaded: string[] = [];
+        const failed: string[] = [];
+        for (const destination of destinations) {
+            try {
+                await destination.upload(manifest.id, files);
+                uploaded.push(destination.name);
+            } catch (error) {
+                failed.push(destination.name);
+                log.error('Failed to upload backup', { backupId: manifest.id, destination: destination.name, error });
+                continue;
+            }
+
+            try {
+                const pruned = await destination.prune();
+                if (pruned.length > 0) log.info(`Pruned ${pruned.length} old backups from ${destination.name}.`, { pruned });
+            } catch (error) {
+                log.warn('Failed to prune old backups', { destination: destination.name, error });
+            }
+        }
+
+        return { manifest, uploaded, failed };
+    } finally {
+        await fs.rm(workDirectory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Imports a collection into a staging collection with the live one's indexes,
+ * then swaps it in. A failed import drops the staging collection and leaves the live one as it was.
+ *
+ * @param db the database to restore into
+ * @param name the collection to replace
+ * @param filePath the exported collection to import
+ * @returns the number of documents imported
+ */
+async function replaceCollection(db: DbConnection, name: string, filePath: string): Promise<number> {
+    const stagingName = `${name}${STAGING_COLLECTION_SUFFIX}`;
+    const staging = db.collection(stagingName);
+    await staging.drop().catch(() => null);
+    // Created up front, as an empty backup inserts nothing and would leave nothing to rename
+    await db.createCollection(stagingName);
+
+    // Renaming over the live collection drops its indexes, so they are built on the staging one first
+    const indexes = await db.collection(name).indexes().catch(() => []);
+    const copied = indexes
+        .filter((index) => index.name !== '_id_')
+        .map(({ v, ns, ...index }: Document) => index as IndexDescription);
+    if (copied.length > 0) await staging.createIndexes(copied);
+
+    try {
+        const imported = await importCollection(db, stagingName, filePath);
+        await staging.rename(name, { dropTarget: true });
+        return imported;
+    } catch (error) {
+        await staging.drop().catch(() => null);
+        throw error;
+    }
+}
+
+/**
+ * Restores a backup, verifying each collection against its checksum first.
+ * Collections that already hold documents are skipped unless replace is set,
+ * in which case the backup is imported into a staging collection that only
+ * replaces the live one once the whole import has succeeded.
+ *
+ * @param options what to restore, from where and into which database
+ * @returns the manifest, and what happened to each collection
+ */
+export async function restoreBackup(options: RestoreOptions): Promise<RestoreResult> {
+    const workDirectory = await createWorkDirectory();
+
+    try {
+        const manifestPath = path.join(workDirectory, MANIFEST_FILE);
+        await options.destination.download(options.backupId, MANIFEST_FILE, manifestPath);
+        const manifest: BackupManifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+
+        const result: RestoreResult = { manifest, restored: {}, skipped: {} };
+        const requested = options.collections?.length ? options.collections : manifest.collections.map((entry) => entry.name);
+
+        for (const name of requested) {
+            const entry = manifest.collections.find((collection) => collection.name === name);
+            if (!entry) {
+                result.skipped[name] = 'not in this backup';
+                continue;
+            }
+
+            // The manifest comes from the destination, so its file names must stay inside the work directory
+            if (path.basename(entry.file) !== entry.file || entry.file === '.' || entry.file === '..') {
+                result.skipped[name] = 'invalid file name in manifest';
+                continue;
+            }
+
+            try {
+                const filePath = path.join(workDirectory, entry.file);
+                await options.destination.download(options.backupId, entry.file, filePath);
+                if (await hashFile(filePath) !== entry.sha256) {
+                    result.skipped[name] = 'checksum mismatch';
+                    continue;
+                }
+
+                if (options.replace) {
+                    result.restored[name] = await replaceCollection(options.target, name, filePath);
+                } else if (await options.target.collection(name).countDocuments({}, { limit: 1 }) > 0) {
+                    result.skipped[name] = 'collection is not empty';
+                    continue;
+                } else {
+                    result.restored[name] = await importCollection(options.target, name, filePath);
+                }
+                await fs.rm(filePath, { force: true });
+            } catch (error) {
+                log.error('Failed to restore collection', { backupId: options.backupId, collection: name, error });
+                result.skipped[name] = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        log.info(`Restored backup ${options.backupId} into ${options.target.databaseName}.`, { restored: result.restored, skipped: result.skipped });
+        return result;
+    } finally {
+        await fs.rm(workDirectory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Removes work directories left behind by a backup or restore that was interrupted
+ */
+async function removeStaleWorkDirectories() {
+    const entries = await fs.readdir(os.tmpdir()).catch(() => []);
+    for (const entry of entries.filter((name) => name.startsWith(WORK_DIRECTORY_PREFIX))) {
+        const entryPath = path.join(os.tmpdir(), entry);
+        const stats = await fs.stat(entryPath).catch(() => null);
+        if (!stats || Date.now() - stats.mtimeMs < STALE_WORK_DIRECTORY_MS) continue;
+        await fs.rm(entryPath, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Clear out anything a previous backup or restore left behind
+ */
+export default async function loadBackups(client: CustomClient): Promise<void> {
+    await removeStaleWorkDirectories();
+}
@@ -0,0 +1,125 @@
+import { Db as DbConnection } from 'mongodb';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { defaultLocale, t } from '../helpers/i18n';
+import { logger } from '../helpers/logger';
+import { broadcastEval } from '../helpers/shards';
+import { BlacklistEntry, BlacklistRepository, BlacklistType } from '../repositories/blacklist';
+
+export { BlacklistEntry, BlacklistType, blacklistTypes } from '../repositories/blacklist';
+
+// Emitted on each shard's client when the blacklist changes, so every shard reloads its cache.
+const BLACKLIST_CHANGED_EVENT = 'blacklistChanged';
+
+let blacklistCache: Map<string, BlacklistEntry> = new Map();
+const log = logger.child('blacklist');
+
+/**
+ * @param entry the entry to check
+ * @returns whether the entry has passed its expiry
+ */
+function hasExpired(entry: BlacklistEntry): boolean {
+    return entry.expiresAt !== null && entry.expiresAt.getTime() <= Date.now();
+}
+
+/**
+ * Loads every blacklist entry into the cache, replacing what was there
+ * @param db the database connection
+ */
+export async function loadBlacklist(db: DbConnection) {
+    const entries = await new BlacklistRepository(db).findAll();
+    blacklistCache = new Map(entries.map(entry => [entry._id, entry]));
+}
+
+/**
+ * Fetches the active blacklist entry for a user or guild.
+ * Expired entries are dropped from the cache as they are found, and deleted in the background
+ * as the expiry index removes them from the database regardless.
+ *
+ * @param id the user or guild id to check
+ * @param db the database connection
+ * @returns the entry, or undefined if the id is not blacklisted
+ */
+export function getBlacklistEntry(id: string, db: DbConnection): BlacklistEntry | undefined {
+    const entry = blacklistCache.get(id);
+    if (entry && hasExpired(entry)) {
+        blacklistCache.delete(id);
+        new BlacklistRepository(db).delete(id).catch((error) => log.error('Failed to delete an expired blacklist entry', { id, error }));
+        return undefined;
+    }
+    return entry;
+}
+
+/**
+ * @returns every active blacklist entry, optionally of a single type
+ */
+export function listBlacklist(type?: BlacklistType): BlacklistEntry[] {
+    return Array.from(blacklistCache.values())
+        .filter(entry => !hasExpired(entry) && (!type || entry.type === type));
+}
+
+/**
+ * Adds or replaces a blacklist entry
+ * @param entry the entry to store
+ * @param db the database connection
+ */
+export async function addBlacklist(entry: BlacklistEntry, db: DbConnection) {
+    await new BlacklistRepository(db).upsert(entry);
+    blacklistCache.set(entry._id, entry);
+}
+
+/**
+ * Removes a blacklist entry
+ * @param id the user or guild id to remove
+ * @param db the database connection
+ * @returns whether an entry was removed
+ */
+export async function removeBlacklist(id: string, db: DbConnection): Promise<boolean> {
+    const removed = await new BlacklistRepository(db).delete(id);
+    const cached = blacklistCache.delete(id);
+    return removed || cached;
+}
+
+/**
+ * Tells every shard to reload its blacklist cache, as each shard only
+ * updates its own when an entry is added or removed there.
+ *
+ * @param client the client instance
+ */
+export async function broadcastBlacklistChange(client: CustomClient) {
+    await broadcastEval(client, (shardClient, { event }) => {
+        shardClient.emit(event);
+    }, { event: BLACKLIST_CHANGED_EVENT });
+}
+
+/**
+ * Function to describe a blacklist entry for use in embeds
+ * @param entry the entry to describe
+ * @param locale the locale to describe the entry in [optional]
+ * @returns the description of the entry
+ */
+export function describeBlacklistEntry(entry: BlacklistEntry, locale: string = defaultLocale): string {
+    const expiry = entry.expiresAt ? `<t:${Math.floor(entry.expiresAt.getTime() / 1000)}:R>` : t(locale, 'blacklist.never');
+    return [
+        t(locale, 'blacklist.type', { type: t(locale, `blacklist.types.${entry.type}`) }),
+        t(locale, 'blacklist.reason', { reason: entry.reason }),
+        t(locale, 'blacklist.issuedBy', { user: entry.issuedBy, time: `<t:${Math.floor(entry.issuedAt.getTime() / 1000)}:R>` }),
+        t(locale, 'blacklist.expires', { time: expiry }),
+    ].join('\n');
+}
+
+/**
+ * Load the blacklist into memory once the bot starts
+ */
+export default async function loadBlacklistHandler(client: CustomClient): Promise<void> {
+    try {
+        await loadBlacklist(getConfig().db);
+        log.info(`Loaded ${blacklistCache.size} blacklist entries.`);
+    } catch (error) {
+        log.error('Error loading blacklist', { error });
+    }
+
+    client.on(BLACKLIST_CHANGED_EVENT, () => {
+        loadBlacklist(getConfig().db).catch((error) => log.error('Error reloading blacklist', { error }));
+    });
+}
@@ -1,10 +1,66 @@
-import { Db as DbConnection, ObjectId } from 'mongodb';
+import { ChangeStream, Db as DbConnection } from 'mongodb';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { CacheStats, LRUCache } from '../helpers/cache';
+import { logger } from '../helpers/logger';
+import { cacheRequests } from '../helpers/metrics';
+import { GuildData, GuildDocument, GuildRepository } from '../repositories/guilds';
 
-let guildCache: Map<string, any> = new Map();
+// Defaults for the guild cache, overridden by config.guildCache.
+const DEFAULT_MAX_SIZE = 5000;
+const DEFAULT_TTL_SECONDS = 30 * 60;
+const DEFAULT_NEGATIVE_TTL_SECONDS = 5 * 60;
+
+// How long to wait before watching for changes again after the change stream fails.
+const CHANGE_STREAM_RETRY_MS = 30 * 1000;
+
+const log = logger.child('botCache');
+
+let guildCache: LRUCache<string, GuildData> | null = null;
+// Lookups in flight, so concurrent misses for a guild share one query
+const pendingLookups: Map<string, Promise<GuildData | null>> = new Map();
+let changeStream: ChangeStream<GuildDocument> | null = null;
+
+/**
+ * @returns the guild cache, created from the config on first use
+ */
+function cache(): LRUCache<string, GuildData> {
+    if (!guildCache) {
+        const options = getConfig().guildCache || {};
+        guildCache = new LRUCache({
+            maxSize: options.maxSize ?? DEFAULT_MAX_SIZE,
+            ttlMs: (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000,
+            negativeTtlMs: (options.negativeTtlSeconds ?? DEFAULT_NEGATIVE_TTL_SECONDS) * 1000,
+        });
+    }
+    return guildCache;
+}
+
+/**
+ * Fetches a guild's data from the database and caches it, caching null when it has none
+ * @param guild the guild to fetch
+ * @param db the database connection
+ * @returns the guild's data, or null if it has none
+ */
+function fetchGuildData(guild: string, db: DbConnection): Promise<GuildData | null> {
+    const lookup = new GuildRepository(db).findData(guild)
+        .then((data) => {
+            // A lookup overtaken by an update or invalidation is not cached
+            if (pendingLookups.get(guild) === lookup) cache().set(guild, data);
+            return data;
+        })
+        .finally(() => {
+            if (pendingLookups.get(guild) === lookup) pendingLookups.delete(guild);
+        });
+
+    pendingLookups.set(guild, lookup);
+    return lookup;
+}
 
 // Resets the cache entirely
 export function clearCache() {
-    guildCache = new Map();
+    pendingLookups.clear();
+    cache().clear();
 }
 
 /**
@@ -12,27 +68,24 @@ export function clearCache() {
  * @param guild the guild to remove from the cache
  */
 export function removeCache(guild: string) {
-    guildCache.delete(guild)
+    pendingLookups.delete(guild);
+    cache().delete(guild);
 }
 
 /**
  * @param guild fetches the cache for a specific guild
  * @param db the database connection
- * @returns the cache for the guild
- */
-export async function getCache(guild: string, db: DbConnection) {
-    if (guildCache.has(guild)) {
-        return guildCache.get(guild)
-    } else {
-        const data = await db.collection('botGuilds').findOne({ _id: guild as unknown as ObjectId });
-        if (data !== null) {
-            const extractData = data.data
-            if (extractData !== null) {
-                guildCache.set(guild, extractData);
-            }
-        }
-        return data
+ * @returns the guild's data, or null if it has none
+ */
+export async function getCache(guild: string, db: DbConnection): Promise<GuildData | null> {
+    const cached = cache().get(guild);
+    if (cached) {
+        cacheRequests.inc({ result: 'hit' });
+        return cached.value;
     }
+
+    cacheRequests.inc({ result: 'miss' });
+    return pendingLookups.get(guild) || fetchGuildData(guild, db);
 }
 
 /**
@@ -40,11 +93,75 @@ export async function getCache(guild: string, db: DbConnection) {
  * @param db the database connection
  */
 export async function updateCache(guild: string, db: DbConnection) {
-    const collection = await db.collection('botGuilds');
-    if (collection !== null) {
-        const collectionData = await collection.findOne({ _id: guild as unknown as ObjectId });
-        if (collectionData != null) {
-            guildCache.set(guild, collectionData.data);
+    pendingLookups.delete(guild);
+    await fetchGuildData(guild, db);
+}
+
+/**
+ * @returns what the guild cache has served, and whether changes are being watched
+ */
+export function cacheStats(): CacheStats & { watchingChanges: boolean } {
+    return { ...cache().stats(), watchingChanges: changeStream !== null };
+}
+
+/**
+ * Change streams need a replica set or sharded cluster, a standalone server cannot open one
+ * @param db the database connection
+ * @returns whether the server supports change streams
+ */
+async function supportsChangeStreams(db: DbConnection): Promise<boolean> {
+    const hello = await db.admin().command({ hello: 1 });
+    return Boolean(hello.setName) || hello.msg === 'isdbgrid';
+}
+
+/**
+ * Invalidates cached guilds as their documents change, including changes made by
+ * other shards or processes. Anything missed while the stream is down is cleared,
+ * and the stream is reopened after a delay.
+ *
+ * @param db the database connection
+ */
+function watchGuildChanges(db: DbConnection) {
+    const stream = new GuildRepository(db).watchChanges();
+    changeStream = stream;
+
+    const restart = () => {
+        if (changeStream !== stream) return;
+        changeStream = null;
+        clearCache();
+        stream.close().catch(() => null);
+        setTimeout(() => watchGuildChanges(db), CHANGE_STREAM_RETRY_MS).unref();
+    };
+
+    stream.on('change', (change) => {
+        if ('documentKey' in change) {
+            removeCache(change.documentKey._id);
+        } else {
+            // The collection was dropped or renamed, which also ends the stream
+            log.warn(`Guild collection change stream ended by a ${change.operationType} event.`);
+            restart();
         }
+    });
+    stream.on('error', (error) => {
+        log.warn('Guild change stream failed, falling back to the cache ttl until it reopens', { error });
+        restart();
+    });
+}
+
+/**
+ * Watch for guild changes when the database supports change streams,
+ * otherwise cached guilds are only refreshed once their ttl runs out.
+ */
+export default async function loadBotCache(client: CustomClient) {
+    const db = getConfig().db;
+    try {
+        if (!await supportsChangeStreams(db)) {
+            log.info('Change streams need a replica set, cached guilds will refresh on their ttl.');
+            return;
+        }
+        watchGuildChanges(db);
+        log.info('Watching guild changes to invalidate the cache.');
+    } catch (error) {
+        log.warn('Could not watch guild changes, cached guilds will refresh on their ttl', { error });
     }
-}
\ No newline at end of file
+}
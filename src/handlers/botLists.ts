@@ -0,0 +1,187 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { EmbedBuilder } from 'discord.js';
+import { Db as DbConnection } from 'mongodb';
+import { CustomClient } from '../index';
+import { Config, getConfig } from '../config';
+import { applyEmbedStructure } from '../helpers/functions';
+import { logger } from '../helpers/logger';
+import { collectShardStats, isPrimaryShard, sendToChannel, shardCount } from '../helpers/shards';
+import { UserRepository } from '../repositories/users';
+import { BotListConfig, BotListName, botListNames, BotStats, parseVote, postStats, Vote } from '../helpers/botLists';
+
+export const DEFAULT_STATS_INTERVAL = '30 minutes';
+const DEFAULT_WEBHOOK_PATH = '/votes';
+const MAX_WEBHOOK_BODY = 16 * 1024;
+
+const log = logger.child('botLists');
+
+/**
+ * @param config the config
+ * @returns the bot lists to post to, falling back to the top.gg token on its own
+ */
+export function configuredBotLists(config: Config): BotListConfig[] {
+    return config.botLists?.lists || (config.topGG ? [{ name: 'topgg', token: config.topGG }] : []);
+}
+
+/**
+ * Collects the bot's stats, summed across every shard
+ * @param client the client instance
+ * @returns the stats to post
+ */
+export async function collectStats(client: CustomClient): Promise<BotStats> {
+    const shardStats = await collectShardStats(client);
+    return {
+        botId: client.user!.id,
+        guilds: shardStats.reduce((sum, shard) => sum + shard.guilds, 0),
+        shards: shardCount(client),
+    };
+}
+
+/**
+ * Posts the bot's stats to every configured bot list
+ * @param client the client instance
+ * @returns the lists posted to, and why any others failed
+ */
+export async function postBotListStats(client: CustomClient): Promise<{ posted: BotListName[], failed: { [name in BotListName]?: string } }> {
+    const stats = await collectStats(client);
+    const posted: BotListName[] = [];
+    const failed: { [name in BotListName]?: string } = {};
+
+    for (const list of configuredBotLists(getConfig())) {
+        const error = await postStats(list, stats);
+        if (error) failed[list.name] = error;
+        else posted.push(list.name);
+    }
+    return { posted, failed };
+}
+
+/**
+ * Records a vote against the voter's user document
+ * @param vote the vote to record
+ * @param db the database connection
+ */
+export async function recordVote(vote: Vote, db: DbConnection) {
+    await new UserRepository(db).recordVote(vote);
+}
+
+/**
+ * Checks whether a user has voted recently, such as to unlock a reward
+ * @param userId the user to check
+ * @param db the database connection
+ * @param hours how recent the vote must be, bot lists allow a vote every 12 hours
+ * @returns whether the user voted within the period
+ */
+export async function hasVotedRecently(userId: string, db: DbConnection, hours: number = 12): Promise<boolean> {
+    const lastVotedAt = await new UserRepository(db).lastVotedAt(userId);
+    return lastVotedAt !== null && Date.now() - lastVotedAt.getTime() < hours * 60 * 60 * 1000;
+}
+
+/**
+ * Thanks a voter, by DM and in the thank channel where configured
+ * @param client the client instance
+ * @param vote the vote to thank
+ */
+async function thankVoter(client: CustomClient, vote: Vote) {
+    const webhook = getConfig().botLists?.webhook;
+    const embed = applyEmbedStructure(new EmbedBuilder()
+        .setAuthor({ name: "Thanks for voting!" })
+        .setDescription(`Your vote on ${vote.list} helps more servers find ${client.user?.username || "the bot"}.${vote.weight > 1 ? " Weekend votes count double!" : ""}`), "", false);
+
+    if (webhook?.dmVoters) {
+        await client.users.send(vote.userId, { embeds: [embed] })
+            .catch((error) => log.debug('Could not DM voter', { userId: vote.userId, error }));
+    }
+
+    if (webhook?.thankChannel) {
+        // The webhook is served by the first shard, which may not hold the channel's guild
+        const result = await sendToChannel(client, webhook.thankChannel, {
+            content: `<@${vote.userId}> voted on ${vote.list}, thank you!`,
+            allowedMentions: { parse: [] },
+        });
+        if (!result.sent) log.warn('Could not thank voter', { channelId: webhook.thankChannel, error: result.error });
+    }
+}
+
+/**
+ * Simple function to compare a received secret without leaking its length through timing
+ * @param received the secret received
+ * @param expected the configured secret
+ * @returns whether they match
+ */
+function secretMatches(received: string | undefined, expected: string): boolean {
+    const receivedBuffer = Buffer.from(received || '');
+    const expectedBuffer = Buffer.from(expected);
+    return receivedBuffer.length === expectedBuffer.length && timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+/**
+ * Reads a request body, up to a size limit
+ * @param request the request to read
+ * @returns the body, or null if it was too large
+ */
+async function readBody(request: http.IncomingMessage): Promise<string | null> {
+    let body = '';
+    for await (const chunk of request) {
+        body += chunk;
+        if (body.length > MAX_WEBHOOK_BODY) return null;
+    }
+    return body;
+}
+
+/**
+ * Serves vote webhooks at <path>/<list>, such as /votes/topgg
+ * @param client the client instance
+ * @param webhook the webhook config
+ */
+function startVoteWebhook(client: CustomClient, webhook: NonNullable<NonNullable<Config['botLists']>['webhook']>) {
+    const basePath = (webhook.path || DEFAULT_WEBHOOK_PATH).replace(/\/$/, '');
+
+    const server = http.createServer(async (request, response) => {
+        const respond = (status: number, message: string) => {
+            response.writeHead(status, { 'Content-Type': 'text/plain' });
+            response.end(`${message}\n`);
+        };
+
+        const url = request.url?.split('?')[0] || '';
+        const listName = url.startsWith(`${basePath}/`) ? url.slice(basePath.length + 1) as BotListName : null;
+        const list = configuredBotLists(getConfig()).find((entry) => entry.name === listName);
+        if (request.method !== 'POST' || !list || !botListNames.includes(list.name)) return respond(404, 'Not found');
+        if (!list.webhookSecret || !secretMatches(request.headers.authorization, list.webhookSecret)) return respond(401, 'Unauthorized');
+
+        try {
+            const body = await readBody(request);
+            if (body === null) return respond(413, 'Payload too large');
+
+            const vote = parseVote(list.name, JSON.parse(body));
+            if (!vote) return respond(400, 'Not a vote');
+
+            // Test votes from the list's dashboard are acknowledged without being counted
+            if (!vote.test) {
+                await recordVote(vote, getConfig().db);
+                await thankVoter(client, vote);
+            }
+            log.info(`Received ${vote.test ? 'a test vote' : 'a vote'} from ${vote.list}.`, { userId: vote.userId });
+            respond(200, 'OK');
+        } catch (error) {
+            log.error('Error handling vote webhook', { list: list.name, error });
+            respond(error instanceof SyntaxError ? 400 : 500, 'Could not handle vote');
+        }
+    });
+
+    server.on('error', (error) => log.error('Vote webhook server error', { port: webhook.port, error }));
+    server.listen(webhook.port, () => log.info(`Receiving vote webhooks on port ${webhook.port}.`));
+}
+
+/**
+ * Start the vote webhook receiver when configured.
+ * Only the first shard listens, as the others would compete for the port.
+ * Stats are posted by the botListStats job.
+ */
+export default function loadBotLists(client: CustomClient) {
+    const webhook = getConfig().botLists?.webhook;
+    if (!webhook) return;
+    if (!isPrimaryShard(client)) return;
+
+    startVoteWebhook(client, webhook);
+}
@@ -1,15 +1,19 @@
 import {
-    ApplicationCommand,
+    AutocompleteInteraction,
     ChatInputCommandInteraction,
     Collection,
     CommandInteraction,
     Message,
+    ContextMenuCommandInteraction,
     PermissionResolvable,
-    SlashCommandBuilder,
 } from 'discord.js';
 
-import { buildSlashCommand, findSlashChanges, validateCommandStructure } from '../helpers/command';
-import { OptionBuilderMapping, OptionObject } from '../helpers/command';
+import { applicationCommandKey, buildContextMenuCommand, buildSlashCommand, buildTopLevelCommand, commandTranslationKeys, slashPath, validateCommandStructure } from '../helpers/command';
+import { ApplicationCommandBuilder, ContextMenuObject, OptionBuilderMapping, OptionObject } from '../helpers/command';
+import { CooldownScope } from './cooldowns';
+import { syncApplicationCommands } from './sync';
+import { logger } from '../helpers/logger';
+import { defaultLocale, missingTranslations } from '../helpers/i18n';
 import { promises as fsPromises } from 'fs';
 import { CustomClient } from '../index';
 import { Config, getConfig } from '../config';
@@ -18,6 +22,8 @@ import path from 'path';
 // Use the fsPromises object to access the async file system functions.
 // More efficient than using the synchronous fs functions.
 const { readdir, lstat } = fsPromises;
+const commandsDirectoryPath = path.resolve(__dirname, '../commands');
+const log = logger.child('commandLoader');
 
 // The structure of a command object.
 export interface Command {
@@ -26,260 +32,205 @@ export interface Command {
     category: string;
     description: string;
     cooldown?: number;
+    cooldownScope?: CooldownScope;
     aliases?: string[];
+    ownerOnly?: boolean;
+    slash?: boolean;
+    topLevel?: boolean;
+    subcommandGroup?: string;
+    contextMenus?: ContextMenuObject[];
     botPermissions?: PermissionResolvable[];
     memberPermissions?: PermissionResolvable[];
+    filePath?: string;
     options?: Array<{ [optionType: keyof OptionBuilderMapping]: OptionObject }>;
     textExtract?: (messageInteraction: Message, client?: CustomClient) => object;
     slashExtract?: (commandInteraction: CommandInteraction, client?: CustomClient) => object;
-    execute: (clientInstance: CustomClient, interactionObject: Message | ChatInputCommandInteraction, commandPrefix: string, config?: Config, optionData?: object) => void;
+    autocomplete?: (autocompleteInteraction: AutocompleteInteraction, client: CustomClient) => Promise<void> | void;
+    execute: (clientInstance: CustomClient, interactionObject: Message | ChatInputCommandInteraction | ContextMenuCommandInteraction, commandPrefix: string, config?: Config, optionData?: object, locale?: string) => Promise<unknown> | void;
 }
 
 /**
- * Key logic to load all commands from the commands directory.
- * This function registers both text and slash commands.
- * @param clientInstance the client instance
+ * Function to list the command files of a category.
+ * @param categoryName the name of the category
+ * @returns the paths of the category's command files, or none if it does not exist
  */
-export default async function loadCommands(clientInstance: CustomClient) {
-    try {
-        const config = getConfig();
-        const enableGlobalSlashCommands = config.slashGlobal || false;
-
-        const commandsDirectoryPath = path.resolve(__dirname, '../commands');
-        const slashCommandsMap: Map<string, SlashCommandBuilder> = new Map();
-
-        clientInstance.commands = new Collection<string, Command>();
-        clientInstance.aliases = new Collection<string, string>();
-
-        const commandDirectories = await readdir(commandsDirectoryPath);
-
-        const categoryProcessing = commandDirectories.map(async (commandDirectoryName) => {
-            const commandDirectoryPath = `${commandsDirectoryPath}/${commandDirectoryName}`;
-
-            if ((await lstat(commandDirectoryPath)).isDirectory()) {
-                const categoryName = commandDirectoryName;
-                const categoryCommands: Command[] = [];
-
-                const commandFiles = (await readdir(commandDirectoryPath)).filter(
-                    (fileName) => fileName.endsWith('.js') || fileName.endsWith('.ts')
-                );
-
-                const fileProcessing = commandFiles.map(async (commandFileName) => {
-                    try {
-                        const { default: commandDefinition } = await import(`${commandDirectoryPath}/${commandFileName}`);
-
-                        // Build commands with a category that's inferred, ensure lowercase elsewhere
-                        commandDefinition.name = commandDefinition.name.toLowerCase();
-                        commandDefinition.aliases = commandDefinition.aliases?.map((alias: String) => alias.toLowerCase());
-                        commandDefinition.category = categoryName.toLowerCase();
-
-                        // Validate the command structure before adding it to the client.
-                        if (!validateCommandStructure(commandDefinition)) {
-                            console.warn(`[CommandLoader] Invalid command structure in file: ${commandFileName}`);
-                            return;
-                        }
-
-                        clientInstance.commands.set(commandDefinition.name, commandDefinition);
-                        if (commandDefinition.aliases) {
-                            commandDefinition.aliases.forEach((aliasName: string) =>
-                                clientInstance.aliases.set(aliasName.toLowerCase(), commandDefinition.name)
-                            );
-                        }
+export async function commandFilePaths(categoryName: string): Promise<string[]> {
+    const commandDirectoryPath = `${commandsDirectoryPath}/${categoryName}`;
 
-                        categoryCommands.push(commandDefinition);
-                    } catch (error) {
-                        console.error(`[CommandLoader] Error loading command from file "${commandFileName}": ${error}`);
-                    }
-                });
-
-                await Promise.all(fileProcessing);
-
-                if (categoryCommands.length > 0) {
-                    const slashCommand = buildSlashCommand(categoryCommands, categoryName);
-                    slashCommandsMap.set(categoryName.toLowerCase(), slashCommand);
-                }
-            }
-        });
-
-        await Promise.all(categoryProcessing);
-
-        // Register slash commands when client is ready [only if they need to be updated]
-        // This boosts efficiency by only updating commands when necessary.
-        clientInstance.on('ready', async () => {
-            if (clientInstance.application) {
-                try {
-                    // Fetch current commands to compare with new commands
-                    let currentCommands: Collection<string, ApplicationCommand> = new Collection();
-                    let commandsToDelete: Collection<string, ApplicationCommand> = new Collection();
+    try {
+        if (!(await lstat(commandDirectoryPath)).isDirectory()) return [];
+    } catch {
+        return [];
+    }
 
-                    // Fetch all commands from all guilds to compare with new commands
-                    // ...if we are in global mode, fetch them so we can delete them if they exist.
-                    const guildPromises = clientInstance.guilds.cache.map(async (guildInstance) => {
-                        return guildInstance.commands.fetch();
-                    });
-                    const guildCommands = await Promise.allSettled(guildPromises);
-                    const fulfilledGuildCommands = guildCommands
-                        .filter(result => result.status === 'fulfilled')
-                        .map(result => (result as PromiseFulfilledResult<Collection<string, ApplicationCommand>>).value);
+    return (await readdir(commandDirectoryPath))
+        .filter((fileName) => fileName.endsWith('.js') || fileName.endsWith('.ts'))
+        .map((fileName) => `${commandDirectoryPath}/${fileName}`);
+}
 
+/**
+ * Function to load a single command file and validate it.
+ * The file is always read from disk again, and if it fails to load or validate
+ * the previously cached module is restored so the old definition stays in use.
+ *
+ * @param commandFilePath the path of the command file
+ * @param categoryName the category the command belongs to
+ * @returns the command, or null if it could not be loaded
+ */
+export async function loadCommandFile(commandFilePath: string, categoryName: string): Promise<Command | null> {
+    const commandFileName = path.basename(commandFilePath);
+    const resolvedPath = require.resolve(commandFilePath);
+    const previousModule = require.cache[resolvedPath];
+    delete require.cache[resolvedPath];
 
-                    // Do the same for global commands.
-                    const globalCommands = await clientInstance.application.commands.fetch();
+    try {
+        const { default: commandDefinition } = await import(resolvedPath);
+
+        // Build commands with a category that's inferred, ensure lowercase elsewhere
+        commandDefinition.name = commandDefinition.name.toLowerCase();
+        commandDefinition.aliases = commandDefinition.aliases?.map((alias: String) => alias.toLowerCase());
+        commandDefinition.category = categoryName.toLowerCase();
+        commandDefinition.filePath = resolvedPath;
+
+        // Validate the command structure before adding it to the client.
+        if (validateCommandStructure(commandDefinition)) {
+            return commandDefinition;
+        }
+        log.warn('Invalid command structure', { file: commandFileName });
+    } catch (error) {
+        log.error('Error loading command', { file: commandFileName, error });
+    }
 
-                    // Determine which commands to use based on the mode
-                    if (enableGlobalSlashCommands) {
-                        // Set global commands as current commands
-                        currentCommands = globalCommands;
+    if (previousModule) {
+        require.cache[resolvedPath] = previousModule;
+    } else {
+        delete require.cache[resolvedPath];
+    }
+    return null;
+}
 
-                        // Delete server-specific commands if they exist.[Since we are in global mode]
-                        commandsToDelete.concat(...fulfilledGuildCommands);
-                    } else {
-                        // Set server-specific commands as current commands
-                        currentCommands = currentCommands.concat(...fulfilledGuildCommands);
+/**
+ * Function to build the application commands of a category.
+ * Commands that opt out of slash [including owner-only ones] are text only,
+ * the rest are registered on their own or within the category's command.
+ *
+ * @param categoryCommands the commands in the category
+ * @param categoryName the name of the category
+ * @returns the slash and context menu command builders
+ */
+export function buildCategoryCommands(categoryCommands: Command[], categoryName: string): ApplicationCommandBuilder[] {
+    const slashCategoryCommands = categoryCommands.filter((command) => slashPath(command) !== null);
+    const topLevelCommands = slashCategoryCommands.filter((command) => command.topLevel);
+    const nestedCommands = slashCategoryCommands.filter((command) => !command.topLevel);
+
+    const slashCommands: ApplicationCommandBuilder[] = topLevelCommands.map((command) => buildTopLevelCommand(command));
+    if (nestedCommands.length > 0) {
+        slashCommands.push(buildSlashCommand(nestedCommands, categoryName));
+    }
 
-                        // Delete global commands if they exist.[Since we are in server-specific mode]
-                        commandsToDelete.concat(globalCommands);
-                    }
+    // Context menu entries are registered alongside, owner-only commands are never exposed
+    for (const command of categoryCommands.filter((command) => !command.ownerOnly)) {
+        (command.contextMenus || []).forEach((contextMenu) => slashCommands.push(buildContextMenuCommand(command, contextMenu)));
+    }
 
-                    // Determine which commands need to be updated or added and track excess commands
-                    const commandsToUpdate: Array<[ApplicationCommand, SlashCommandBuilder, object]> = [];
-                    const commandsToAdd: Array<SlashCommandBuilder> = [];
-                    const commandTracker: Collection<string, ApplicationCommand> = new Collection();
+    return slashCommands;
+}
 
-                    // Build update, add and delete collections for commands
-                    for (const [, slashCommand] of slashCommandsMap.entries()) {
-                        const existingCommands = currentCommands.filter(command => command.name === slashCommand.name);
-                        commandTracker.concat(existingCommands);
+/**
+ * Simple function to rebuild the client's aliases from its commands
+ * @param clientInstance the client instance
+ */
+export function rebuildAliases(clientInstance: CustomClient) {
+    clientInstance.aliases = new Collection<string, string>();
+    clientInstance.commands.forEach((command) => {
+        command.aliases?.forEach((aliasName) => clientInstance.aliases.set(aliasName, command.name));
+    });
+}
 
-                        if (existingCommands.size === 0) {
-                            commandsToAdd.push(slashCommand);
-                        } else {
-                            existingCommands.forEach(existingCommand => {
-                                const differences = findSlashChanges(slashCommand, existingCommand);
-                                if (differences !== null) {
-                                    commandsToUpdate.push([existingCommand, slashCommand, differences]);
-                                }
-                            });
-                        }
-                    }
+/**
+ * Function to report the translations each catalog is missing, including
+ * the metadata of every command registered as a slash command.
+ * Missing translations fall back to the default locale, so these are only warnings.
+ *
+ * @param commands the loaded commands
+ */
+function reportMissingTranslations(commands: Collection<string, Command>) {
+    const expectedKeys = Array.from(commands.values())
+        .filter((command) => slashPath(command) !== null)
+        .flatMap((command) => commandTranslationKeys(command));
+
+    missingTranslations(expectedKeys).forEach((keys, locale) => {
+        log.warn(`Locale ${locale} is missing ${keys.length} translations, falling back to ${defaultLocale} for them`, { locale, keys });
+    });
+}
 
-                    // Remove commands not served by files anymore
-                    commandsToDelete.concat(commandTracker.subtract(currentCommands))
-                    const commandType = enableGlobalSlashCommands ? 'global' : 'server-specific';
+/**
+ * Function to load every command and build the application commands they register.
+ * This does not need a client, so the commands can be inspected offline.
+ *
+ * @returns the commands by name, and the application command builders by key
+ */
+export async function loadAllCommands(): Promise<{ commands: Collection<string, Command>, slashCommands: Map<string, ApplicationCommandBuilder> }> {
+    const commands = new Collection<string, Command>();
+    const slashCommands = new Map<string, ApplicationCommandBuilder>();
 
-                    // Iterate over the commands to delete and delete them
-                    // Use promises to safely delete commands and log the results
-                    if (commandsToDelete.size > 0) {
-                        const deletionResults = await Promise.allSettled(
-                            commandsToDelete.map(async (command) => {
-                                try {
-                                    await command.delete();
-                                    return { name: command.name, success: true };
-                                } catch (error) {
-                                    console.error(`[CommandLoader] Failed to delete command ${command.name}: ${error}`);
-                                    return { name: command.name, success: false, error };
-                                }
-                            })
-                        );
+    const commandDirectories = await readdir(commandsDirectoryPath);
 
-                        // Filter out unsuccessful deletions and show results
-                        const successfulDeletions = deletionResults.filter(result => result.status === 'fulfilled' && result.value?.success);
-                        const failedDeletions = deletionResults.filter(result => result.status === 'rejected' || !result.value?.success);
+    const categoryProcessing = commandDirectories.map(async (categoryName) => {
+        const categoryCommands = (await Promise.all((await commandFilePaths(categoryName)).map(
+            (commandFilePath) => loadCommandFile(commandFilePath, categoryName)
+        ))).filter((command): command is Command => command !== null);
 
-                        console.log(`[CommandLoader] Successfully deleted ${successfulDeletions.length} ${commandType} slash commands.`);
-                        if (failedDeletions.length > 0) {
-                            console.warn(`[CommandLoader] Failed to delete ${failedDeletions.length} commands. Check logs for details.`);
-                        }
-                    } else {
-                        console.log(`[CommandLoader] No command deletions detected.`);
-                    }
+        categoryCommands.forEach((command) => commands.set(command.name, command));
 
-                    if (commandsToUpdate.length > 0) {
-                        // Resolve the commands to update with the changes valid in the .edit({}) method
-                        const resolvedCommandsToUpdate = commandsToUpdate.map(([existingCommand, newCommand, differences]) => {
-                            const commandChanges: { [key: string]: any } = {};
-                            const newCommandJSON = newCommand.toJSON();
-                            Object.keys(differences).forEach((key) => {
-                                commandChanges[key] = (newCommandJSON as any)[key];
-                            });
-                            return [existingCommand, commandChanges];
-                        });
+        for (const slashCommand of buildCategoryCommands(categoryCommands, categoryName)) {
+            const commandKey = applicationCommandKey(slashCommand);
+            if (slashCommands.has(commandKey)) {
+                log.warn(`Application command "${slashCommand.name}" is already registered, skipping duplicate`, { category: categoryName });
+                continue;
+            }
+            slashCommands.set(commandKey, slashCommand);
+        }
+    });
 
-                        // Update the commands with the changes
-                        // Global and local commands are already loaded in, edit operation is the same
-                        const updatePromises = resolvedCommandsToUpdate.map(([existingCommand, commandChanges]) => {
-                            existingCommand.edit(commandChanges).catch(
-                                (error: unknown) => {
-                                    console.error(`[CommandLoader] Failed to edit ${commandType} commands: ${error}`);
-                                }
-                            );
-                        });
-                        await Promise.all(updatePromises);
-                        // Let the user know. 
-                        console.log(`[CommandLoader] Updated ${commandsToUpdate.length} ${commandType} slash commands.`);
-                    } else {
-                        console.log('[CommandLoader] No changes detected in slash commands. No updates performed.');
-                    }
-                    if (commandsToAdd.length > 0) {
-                        const slashCommandsArray = commandsToAdd.map((command) => command.toJSON());
+    await Promise.all(categoryProcessing);
+    reportMissingTranslations(commands);
+    return { commands, slashCommands };
+}
 
-                        if (enableGlobalSlashCommands) {
-                            try {
-                                // Add the new slash commands to the application globally.
-                                const addPromises = slashCommandsArray.map((command) => {
-                                    clientInstance.application?.commands.create(command).catch((error) => {
-                                        console.error(`[CommandLoader] Failed to add ${command.name} global command: ${error}`);
-                                    });
-                                });
-                                await Promise.all(addPromises);
-                                console.log(`[CommandLoader] Added ${slashCommandsArray.length} global slash commands.`);
-                            } catch (error) {
-                                console.error(`[CommandLoader] Error adding global slash commands: ${error}`);
-                            }
-                        } else {
-                            try {
-                                // Map over all guilds
-                                await Promise.all(clientInstance.guilds.cache.map(async (guildInstance) => {
-                                    // Create an array of promises for each command
-                                    const addPromises = slashCommandsArray.map((command) =>
-                                        guildInstance.commands.create(command).catch((error) => {
-                                            console.error(`[CommandLoader] [${guildInstance.id}] Failed to add ${command.name} ${commandType} command: ${error}`);
-                                        })
-                                    );
+/**
+ * Key logic to load all commands from the commands directory.
+ * This function registers both text and slash commands.
+ * @param clientInstance the client instance
+ */
+export default async function loadCommands(clientInstance: CustomClient) {
+    try {
+        const config = getConfig();
+        const enableGlobalSlashCommands = config.slashGlobal || false;
 
-                                    // Wait for all commands to be added for this guild
-                                    await Promise.all(addPromises);
-                                }));
+        const { commands, slashCommands } = await loadAllCommands();
+        clientInstance.commands = commands;
+        clientInstance.slashCommands = slashCommands;
+        rebuildAliases(clientInstance);
 
-                                console.log(`[CommandLoader] Added ${slashCommandsArray.length} ${commandType} slash commands.`);
-                            } catch (error) {
-                                console.error(`[CommandLoader] Error adding slash commands: ${error}`);
-                            }
-                        }
-                    } else {
-                        console.log('[CommandLoader] No new slash commands detected.');
-                    }
-                } catch (error) {
-                    console.error(`[CommandLoader] Error registering slash commands: ${error}`);
-                }
-            } else {
-                console.error('[CommandLoader] Client application is unavailable.');
-            }
+        // Register slash commands when client is ready
+        clientInstance.on('ready', async () => {
+            await syncApplicationCommands(clientInstance, Array.from(clientInstance.slashCommands.values()));
         });
 
         // Register commands for newly joined guilds
         clientInstance.on('guildCreate', async (guildInstance) => {
             if (!enableGlobalSlashCommands) {
                 try {
-                    await guildInstance.commands.set(Array.from(slashCommandsMap.values()).map((command) => command.toJSON()));
+                    await guildInstance.commands.set(Array.from(clientInstance.slashCommands.values()).map((command) => command.toJSON()));
                 } catch (error) {
-                    console.error(`[CommandLoader] Error setting commands for guild ${guildInstance.id}: ${error}`);
+                    log.error('Error setting commands for guild', { guildId: guildInstance.id, error });
                 }
             }
         });
 
-        console.log(`[CommandLoader] Successfully loaded ${clientInstance.commands.size} commands.`);
+        log.info(`Successfully loaded ${clientInstance.commands.size} commands.`);
     } catch (error) {
-        console.error(`[CommandLoader] Error loading commands: ${(error as Error).stack}`);
+        log.error('Error loading commands', { error });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,149 @@
+import { EmbedBuilder, Interaction, MessageComponentInteraction, ModalSubmitInteraction } from 'discord.js';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { defaultGuildSettings, getGuildSettings } from './guildSettings';
+import { resolveLocale } from './locale';
+import {
+    buildCustomId,
+    isActiveSession,
+    PageCustomId,
+    pageForm,
+    pageView,
+    PaginatorOptions,
+    parseCustomId,
+    rejectOtherUser,
+    Replyable,
+    respond,
+    SESSION_NAMESPACE,
+    submittedPage,
+    updateView
+} from '../helpers/components';
+import { defaultLocale, t } from '../helpers/i18n';
+import { logger } from '../helpers/logger';
+
+// Answers a routed component or modal, given the parts of its custom ID after the namespace.
+export type ComponentRoute = (interaction: MessageComponentInteraction | ModalSubmitInteraction, parts: string[], locale: string) => Promise<void>;
+
+// A page rendered again from the arguments carried in a stateless paginator's custom IDs.
+export interface RenderedPage {
+    embed: EmbedBuilder;
+    pageCount: number;
+    labels?: string[];
+}
+
+// Renders a page of a stateless paginator, or null if there is nothing left to show.
+export type PageRenderer = (page: number, args: string[], locale: string) => Promise<RenderedPage | null>;
+
+// Sends the first page of a stateless paginator, that only the given user can turn.
+export type PaginatorSender = (interaction: Replyable, userId: string, args: string[], locale?: string) => Promise<boolean>;
+
+const log = logger.child('components');
+const routes: Map<string, ComponentRoute> = new Map();
+
+/**
+ * Function to route the components whose custom IDs start with a namespace.
+ * Routed components carry all of their state in their custom IDs,
+ * so they keep working after a restart. Registering a namespace again replaces it,
+ * so commands can register theirs when they are loaded or reloaded.
+ *
+ * @param namespace the namespace to route, which cannot contain ":"
+ * @param route answers the namespace's components
+ */
+export function registerComponentRoute(namespace: string, route: ComponentRoute) {
+    if (namespace === SESSION_NAMESPACE) throw new Error(`The "${SESSION_NAMESPACE}" namespace is reserved for collector sessions`);
+    buildCustomId(namespace);
+    routes.set(namespace, route);
+}
+
+/**
+ * Function to register a paginator whose controls keep working after a restart.
+ * Rather than holding its pages, each control carries the page it turns to,
+ * the user allowed to turn it and the arguments the page is rendered from.
+ *
+ * @param namespace the namespace the paginator's controls are routed by
+ * @param render renders a page from the arguments
+ * @param options the emojis to show [optional]
+ * @returns a function to send the paginator's first page, resolving to whether there was anything to show
+ */
+export function registerPaginator(namespace: string, render: PageRenderer, options: Omit<PaginatorOptions, 'labels' | 'locale' | 'timeMs'> = {}): PaginatorSender {
+    const view = (rendered: RenderedPage, page: number, userId: string, args: string[], locale: string) => {
+        const customId: PageCustomId = (action, target) => buildCustomId(namespace, action, userId, target, ...args);
+        return pageView(rendered.embed, page, rendered.pageCount, customId, { ...options, labels: rendered.labels, locale });
+    };
+
+    registerComponentRoute(namespace, async (interaction, parts, locale) => {
+        const [action, userId, target, ...args] = parts;
+        if (interaction.user.id !== userId) return rejectOtherUser(interaction, locale);
+
+        let page = Number(target);
+        if (interaction.isStringSelectMenu()) page = Number(interaction.values[0]);
+        let rendered = await render(page, args, locale);
+
+        // The jump button only asks for the page, its submission is routed back here
+        if (rendered && action === 'jump' && interaction.isButton()) {
+            return interaction.showModal(pageForm(buildCustomId(namespace, 'jumpForm', userId, target, ...args), rendered.pageCount, locale));
+        }
+        if (rendered && interaction.isModalSubmit()) {
+            page = submittedPage(interaction, rendered.pageCount) ?? page;
+            rendered = await render(page, args, locale);
+        }
+
+        // The pages may have shrunk since the controls were sent
+        if (rendered && page >= rendered.pageCount) {
+            page = rendered.pageCount - 1;
+            rendered = await render(page, args, locale);
+        }
+
+        if (!rendered) {
+            await interaction.reply({ content: t(locale, 'components.expired'), ephemeral: true });
+            return;
+        }
+        await updateView(interaction, view(rendered, page, userId, args, locale));
+    });
+
+    return async (interaction, userId, args, locale = defaultLocale) => {
+        const rendered = await render(0, args, locale);
+        if (!rendered) return false;
+
+        await respond(interaction, view(rendered, 0, userId, args, locale));
+        return true;
+    };
+}
+
+/**
+ * Function to answer a component or modal by the namespace of its custom ID.
+ * Components of a session that is no longer collected, such as after a restart,
+ * are told they have expired, rather than failing silently.
+ *
+ * @param interaction the component or modal interaction
+ */
+async function routeComponent(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+    const { namespace, parts } = parseCustomId(interaction.customId);
+    const route = routes.get(namespace);
+    if (namespace === SESSION_NAMESPACE && isActiveSession(parts[0])) return;
+    if (namespace !== SESSION_NAMESPACE && !route) return;
+
+    const db = getConfig().db;
+    const guildSettings = interaction.guildId ? await getGuildSettings(interaction.guildId, db) : defaultGuildSettings();
+    const locale = await resolveLocale(interaction, guildSettings, db);
+
+    if (!route) {
+        await interaction.reply({ content: t(locale, 'components.expired'), ephemeral: true });
+        return;
+    }
+    await route(interaction, parts, locale);
+}
+
+/**
+ * Route the components and modals of stateless interactive messages,
+ * those of collector sessions are answered where they were sent.
+ */
+export default function loadComponentRouter(client: CustomClient) {
+    client.on('interactionCreate', (interaction: Interaction) => {
+        if (!interaction.isMessageComponent() && !interaction.isModalSubmit()) return;
+
+        routeComponent(interaction).catch((error) => {
+            log.error('Error routing component', { customId: interaction.customId, guildId: interaction.guildId, userId: interaction.user.id, error });
+        });
+    });
+}
@@ -0,0 +1,58 @@
+import { CommandInteraction, Message } from 'discord.js';
+import { CustomClient } from '../index';
+import { Command } from './command';
+import { interactionUser, isOwner } from '../helpers/functions';
+
+// The scopes a cooldown can be shared across.
+export type CooldownScope = 'user' | 'guild' | 'channel';
+export const cooldownScopes: CooldownScope[] = ['user', 'guild', 'channel'];
+
+// Commands without a cooldown still receive the one second advertised by help.
+const DEFAULT_COOLDOWN = 1;
+
+/**
+ * Function to build the key a cooldown is stored under.
+ * Keys combine the command with the id of whatever the cooldown is scoped to.
+ *
+ * @param command the command being invoked
+ * @param interaction the message or interaction invoking it
+ * @returns the cooldown key
+ */
+function cooldownKey(command: Command, interaction: Message | CommandInteraction): string {
+    const scope = command.cooldownScope || 'user';
+    const scopeIds: { [key in CooldownScope]: string | null } = {
+        user: interactionUser(interaction).id,
+        guild: interaction.guildId,
+        channel: interaction.channelId,
+    };
+
+    return `${command.name}:${scope}:${scopeIds[scope]}`;
+}
+
+/**
+ * Checks whether a command is on cooldown for the invoker,
+ * starting a new cooldown if it is not. Owners bypass cooldowns entirely.
+ *
+ * @param client the client holding the cooldowns
+ * @param command the command being invoked
+ * @param interaction the message or interaction invoking it
+ * @returns the seconds remaining on the cooldown, or 0 if the command may run
+ */
+export function checkCooldown(client: CustomClient, command: Command, interaction: Message | CommandInteraction): number {
+    if (isOwner(interactionUser(interaction).id)) return 0;
+
+    const key = cooldownKey(command, interaction);
+    const now = Date.now();
+    const expiresAt = client.cooldowns.get(key);
+
+    if (expiresAt && expiresAt > now) {
+        return Math.ceil((expiresAt - now) / 1000);
+    }
+
+    const duration = (command.cooldown ?? DEFAULT_COOLDOWN) * 1000;
+    client.cooldowns.set(key, now + duration);
+
+    // Remove the entry once it expires so the collection doesn't grow forever
+    setTimeout(() => client.cooldowns.delete(key), duration);
+    return 0;
+}
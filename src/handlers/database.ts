@@ -0,0 +1,33 @@
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { logger } from '../helpers/logger';
+import { isPrimaryShard } from '../helpers/shards';
+import { ensureIndexes } from '../repositories';
+import { loadMigrations, migrateUp, migrationStatus } from './migrations';
+
+const log = logger.child('database');
+
+/**
+ * Create the repository indexes, then apply pending migrations when migrateOnStart
+ * is set, or warn about them so they can be run with "npm run migrate up".
+ * Only the first shard migrates, the others just create indexes.
+ */
+export default async function loadDatabase(client: CustomClient) {
+    const config = getConfig();
+    try {
+        await ensureIndexes(config.db);
+
+        const migrations = await loadMigrations();
+        const pending = (await migrationStatus(config.db, migrations)).filter((migration) => !migration.appliedAt);
+        if (pending.length === 0 || !isPrimaryShard(client)) return;
+
+        if (config.migrateOnStart) {
+            const applied = await migrateUp(config.db, migrations);
+            log.info(`Applied ${applied.length} migrations.`);
+        } else {
+            log.warn(`${pending.length} migrations are pending, run "npm run migrate up" to apply them.`, { pending: pending.map((migration) => migration.id) });
+        }
+    } catch (error) {
+        log.error('Error preparing the database', { error });
+    }
+}
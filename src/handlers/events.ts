@@ -1,10 +1,91 @@
 import fs from 'fs';
-import colors from 'colors';
 import path from 'path';
 import { CustomClient } from '../index';
 import { Events, RESTEvents } from 'discord.js';
+import { logger, withErrorContext } from '../helpers/logger';
 
 const allEvents: string[] = [];
+const log = logger.child('events');
+const eventDirectories = ['client', 'guild'];
+
+// The listeners bound for each event file, so they can be removed again on reload.
+const boundListeners: Map<string, Array<() => void>> = new Map();
+
+/**
+ * Read the guild and user an event is about, from the first argument it is emitted with
+ * @param subject the first argument of the event, such as a message, interaction or member
+ * @returns the guild and user ids found
+ */
+const eventContext = (subject: any): { [key: string]: unknown } => {
+    const context: { [key: string]: unknown } = {};
+    const guildId = subject?.guildId ?? subject?.guild?.id;
+    const userId = subject?.user?.id ?? subject?.author?.id;
+    if (guildId) context.guildId = guildId;
+    if (userId) context.userId = userId;
+    return context;
+};
+
+/**
+ * Bind an event file's handler to the client or REST manager
+ * @param filePath the path of the event file
+ * @param event the handler exported by the event file
+ * @param client the client to bind the event to
+ * @returns void
+ */
+const bindEvent = (filePath: string, event: any, client: CustomClient): void => {
+    const eventName = path.basename(filePath).split('.')[0];
+    const eventLower = eventName.toLowerCase();
+    const handler = event.bind(null, client);
+    const unbinds: Array<() => void> = [];
+
+    // Errors escaping a handler are tagged with the event, so the crash handler can log where they came from
+    const listener = (...args: any[]) => {
+        const tag = (error: unknown) => withErrorContext(error, { event: eventName, ...eventContext(args[0]) });
+        try {
+            const result = handler(...args);
+            if (result instanceof Promise) result.catch((error) => { throw tag(error); });
+        } catch (error) {
+            throw tag(error);
+        }
+    };
+
+    if (eventLower === 'commandcreate') {
+        client.on('messageCreate', listener);
+        client.on('interactionCreate', listener);
+        unbinds.push(() => client.off('messageCreate', listener), () => client.off('interactionCreate', listener));
+    } else if (Object.keys(RESTEvents).map((key) => key.toLowerCase()).includes(eventLower)) {
+        client.rest.on(eventName, listener);
+        unbinds.push(() => client.rest.off(eventName, listener));
+    } else if (Object.keys(Events).map((key) => key.toLowerCase()).includes(eventLower)) {
+        client.on(eventName, listener);
+        unbinds.push(() => client.off(eventName, listener));
+    } else {
+        log.warn(`Unknown event: ${eventName}`);
+    }
+
+    boundListeners.set(filePath, unbinds);
+};
+
+/**
+ * Remove the listeners bound for an event file
+ * @param filePath the path of the event file
+ * @returns void
+ */
+const unbindEvent = (filePath: string): void => {
+    boundListeners.get(filePath)?.forEach((unbind) => unbind());
+    boundListeners.delete(filePath);
+};
+
+/**
+ * List the event files of a directory
+ * @param dir the directory to list
+ * @returns the paths of the event files
+ */
+const eventFilePaths = (dir: string): string[] => {
+    const dirPath = path.resolve(__dirname, `../events/${dir}`);
+    if (!fs.existsSync(dirPath)) return [];
+    return fs.readdirSync(dirPath).filter((file) => file.endsWith(".js")).map((file) => require.resolve(`${dirPath}/${file}`));
+};
 
 /**
  * Load a single directory of events (of which there are two)
@@ -16,7 +97,7 @@ const loadDir = (dir: string, client: CustomClient): void => {
     const dirPath = path.resolve(__dirname, `../events/${dir}`);
 
     if (!fs.existsSync(dirPath)) {
-        console.warn(colors.yellow(`Directory not found: ${dirPath}`));
+        log.warn(`Directory not found: ${dirPath}`);
         return;
     }
 
@@ -24,25 +105,50 @@ const loadDir = (dir: string, client: CustomClient): void => {
 
     for (const file of eventFolders) {
         try {
-            const event = require(`${dirPath}/${file}`);
-            const eventName = file.split('.')[0];
-            const eventLower = eventName.toLowerCase();
-            allEvents.push(eventName);
-
-            if (eventLower === 'commandcreate') {
-                client.on('messageCreate', event.bind(null, client));
-                client.on('interactionCreate', event.bind(null, client));
-            } else if (Object.keys(RESTEvents).map((key) => key.toLowerCase()).includes(eventLower)) {
-                client.rest.on(eventName, event.bind(null, client));
-            } else if (Object.keys(Events).map((key) => key.toLowerCase()).includes(eventLower)) {
-                client.on(eventName, event.bind(null, client));
-            } else {
-                console.warn(colors.yellow(`Unknown event: ${eventName}`));
-            }
+            const filePath = require.resolve(`${dirPath}/${file}`);
+            allEvents.push(file.split('.')[0]);
+            bindEvent(filePath, require(filePath), client);
+        } catch (error) {
+            log.error('Error loading event file', { file, error });
+        }
+    }
+};
+
+/**
+ * Reload every event file, re-reading them from disk.
+ * A file that fails to load keeps its previous handler bound.
+ *
+ * @param client the client the events are bound to
+ * @returns the names of the events that were reloaded and those that failed
+ */
+export const reloadEvents = (client: CustomClient): { reloaded: string[], failed: string[] } => {
+    const reloaded: string[] = [];
+    const failed: string[] = [];
+    const filePaths = eventDirectories.flatMap((dir) => eventFilePaths(dir));
+
+    // Events whose files were removed are unbound entirely
+    for (const filePath of boundListeners.keys()) {
+        if (!filePaths.includes(filePath)) unbindEvent(filePath);
+    }
+
+    for (const filePath of filePaths) {
+        const eventName = path.basename(filePath).split('.')[0];
+        const previousModule = require.cache[filePath];
+        delete require.cache[filePath];
+
+        try {
+            const event = require(filePath);
+            unbindEvent(filePath);
+            bindEvent(filePath, event, client);
+            reloaded.push(eventName);
         } catch (error) {
-            console.error(colors.red(`Events File Error First Try:: ${error}`));
+            if (previousModule) require.cache[filePath] = previousModule;
+            log.error('Error reloading event file', { event: eventName, error });
+            failed.push(eventName);
         }
     }
+
+    return { reloaded, failed };
 };
 
 /**
@@ -52,10 +158,10 @@ export default async (client: CustomClient): Promise<void> => {
     try {
         let eventCount: number = 0;
 
-        for (const dir of ['client', 'guild']) {
+        for (const dir of eventDirectories) {
             const dirPath = path.resolve(__dirname, `../events/${dir}`);
             if (!fs.existsSync(dirPath)) {
-                console.warn(colors.yellow(`Skipping missing directory: ${dirPath}`));
+                log.warn(`Skipping missing directory: ${dirPath}`);
                 continue;
             }
 
@@ -63,8 +169,8 @@ export default async (client: CustomClient): Promise<void> => {
             eventCount += fs.readdirSync(dirPath).filter((file) => file.endsWith('.js')).length;
         }
 
-        console.log(colors.green(`Successfully loaded ${eventCount} events`));
+        log.info(`Successfully loaded ${eventCount} events`);
     } catch (error) {
-        console.error(`Events File Error Final Try:: ${colors.bgRed(String(error))}`);
+        log.error('Error loading events', { error });
     }
 };
@@ -0,0 +1,105 @@
+import { Locale } from 'discord.js';
+import { Db as DbConnection } from 'mongodb';
+import { getCache, updateCache } from './botCache';
+import { GuildRepository } from '../repositories/guilds';
+import { getConfig } from '../config';
+import { defaultLocale, t } from '../helpers/i18n';
+
+// The channels and roles a command or category is restricted to or from.
+export interface AccessRules {
+    allowedChannels: string[];
+    deniedChannels: string[];
+    allowedRoles: string[];
+    deniedRoles: string[];
+}
+
+// The structure of the settings stored under a guild's data.
+export interface GuildSettings {
+    prefix: string;
+    // Unset unless the guild chose one, so members see their own Discord language
+    locale: string | null;
+    disabledCommands: string[];
+    disabledCategories: string[];
+    commandOverrides: { [command: string]: AccessRules };
+    categoryOverrides: { [category: string]: AccessRules };
+}
+
+// Limits applied to the values guilds can choose.
+export const MAX_PREFIX_LENGTH = 5;
+export const supportedLocales: string[] = Object.values(Locale);
+
+/**
+ * @returns the settings every guild starts with
+ */
+export function defaultGuildSettings(): GuildSettings {
+    return {
+        prefix: getConfig().defaultPrefix,
+        locale: null,
+        disabledCommands: [],
+        disabledCategories: [],
+        commandOverrides: {},
+        categoryOverrides: {},
+    };
+}
+
+/**
+ * @returns access rules that place no restrictions
+ */
+export function emptyAccessRules(): AccessRules {
+    return {
+        allowedChannels: [],
+        deniedChannels: [],
+        allowedRoles: [],
+        deniedRoles: [],
+    };
+}
+
+/**
+ * Fetches a guild's settings, filling in defaults for anything unset
+ * @param guild the id of the guild
+ * @param db the database connection
+ * @returns the guild's settings
+ */
+export async function getGuildSettings(guild: string, db: DbConnection): Promise<GuildSettings> {
+    const data: Partial<GuildSettings> | null = await getCache(guild, db);
+    return { ...defaultGuildSettings(), ...data };
+}
+
+/**
+ * Updates some of a guild's settings, creating its document if needed
+ * @param guild the id of the guild
+ * @param changes the settings to change
+ * @param db the database connection
+ * @returns the guild's settings after the update
+ */
+export async function updateGuildSettings(guild: string, changes: Partial<GuildSettings>, db: DbConnection): Promise<GuildSettings> {
+    await new GuildRepository(db).updateData(guild, changes);
+    await updateCache(guild, db);
+    return getGuildSettings(guild, db);
+}
+
+/**
+ * Resets a guild's settings to their defaults
+ * @param guild the id of the guild
+ * @param db the database connection
+ * @param keys the settings to reset, or every setting if omitted
+ * @returns the guild's settings after the reset
+ */
+export async function resetGuildSettings(guild: string, db: DbConnection, keys?: Array<keyof GuildSettings>): Promise<GuildSettings> {
+    const resetKeys = keys || (Object.keys(defaultGuildSettings()) as Array<keyof GuildSettings>);
+    await new GuildRepository(db).unsetData(guild, resetKeys);
+    await updateCache(guild, db);
+    return getGuildSettings(guild, db);
+}
+
+/**
+ * Function to check a prefix is one guilds may use
+ * @param prefix the prefix to check
+ * @param locale the locale to give the reason in [optional]
+ * @returns the reason the prefix is invalid, or null if it is valid
+ */
+export function validatePrefix(prefix: string, locale: string = defaultLocale): string | null {
+    if (!prefix || prefix.length > MAX_PREFIX_LENGTH) return t(locale, 'prefix.length', { max: MAX_PREFIX_LENGTH });
+    if (/\s/.test(prefix)) return t(locale, 'prefix.spaces');
+    return null;
+}
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { Db as DbConnection } from 'mongodb';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { logger, toError } from '../helpers/logger';
+import { generateShortId } from '../helpers/functions';
+import { defaultLocale, t } from '../helpers/i18n';
+
+// The structure of a recorded command failure, keyed by its short id.
+export interface Incident {
+    _id: string;
+    fingerprint: string;
+    command: string;
+    options: { [optionName: string]: unknown };
+    guildId: string | null;
+    channelId: string | null;
+    userId: string;
+    error: {
+        name: string;
+        message: string;
+        stack: string | null;
+    };
+    createdAt: Date;
+}
+
+// Incidents sharing a fingerprint, summarised.
+export interface IncidentGroup {
+    fingerprint: string;
+    count: number;
+    firstSeen: Date;
+    lastSeen: Date;
+    latestId: string;
+    message: string;
+    commands: string[];
+}
+
+// Where a failing command was invoked, and with what.
+export interface IncidentDetails {
+    command: string;
+    options: object;
+    guildId: string | null;
+    channelId: string | null;
+    userId: string;
+}
+
+// Incidents are removed automatically after this long.
+const INCIDENT_RETENTION_DAYS = 90;
+const INCIDENT_ID_LENGTH = 8;
+
+const log = logger.child('incidents');
+
+/**
+ * @param db the database connection
+ * @returns the incident collection
+ */
+function incidentCollection(db: DbConnection) {
+    return db.collection<Incident>(getConfig().collectionNames.INCIDENTS);
+}
+
+/**
+ * Function to fingerprint an error, so repeats of the same failure can be grouped.
+ * Numbers and ids are removed from the message, and line numbers and install
+ * paths from the top stack frame, so the fingerprint survives deploys.
+ *
+ * @param error the error to fingerprint
+ * @returns the fingerprint
+ */
+export function errorFingerprint(error: Error): string {
+    const message = error.message.replace(/\d+/g, '#');
+    const topFrame = (error.stack || '').split('\n').find((line) => line.trim().startsWith('at ')) || '';
+    const frame = topFrame.trim().replace(/:\d+:\d+/g, '').replace(/[^\s(]*[\\/](dist|src)[\\/]/g, '');
+
+    return createHash('sha1').update(`${error.name}|${message}|${frame}`).digest('hex').slice(0, 12);
+}
+
+/**
+ * Simple function to store option values in a readable form.
+ * Discord structures such as users and channels are stored by id.
+ *
+ * @param options the option data the command received
+ * @returns the options, safe to store
+ */
+function serialiseOptions(options: object): { [optionName: string]: unknown } {
+    return Object.fromEntries(Object.entries(options).map(([name, value]) => {
+        if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return [name, value];
+        if (typeof value === 'object' && 'id' in value) return [name, `${value.constructor?.name || 'Object'}:${value.id}`];
+        return [name, String(value)];
+    }));
+}
+
+/**
+ * Records a command failure as an incident.
+ * The incident is still returned if it cannot be stored, so its id can be shown either way.
+ *
+ * @param details where the command was invoked, and with what
+ * @param thrown what the command threw
+ * @param db the database connection
+ * @returns the incident
+ */
+export async function recordIncident(details: IncidentDetails, thrown: unknown, db: DbConnection): Promise<Incident> {
+    const error = toError(thrown);
+    const incident: Incident = {
+        _id: generateShortId(INCIDENT_ID_LENGTH),
+        fingerprint: errorFingerprint(error),
+        command: details.command,
+        options: serialiseOptions(details.options),
+        guildId: details.guildId,
+        channelId: details.channelId,
+        userId: details.userId,
+        error: { name: error.name, message: error.message, stack: error.stack || null },
+        createdAt: new Date(),
+    };
+
+    try {
+        await incidentCollection(db).insertOne(incident);
+    } catch (storeError) {
+        log.error('Failed to store incident', { incidentId: incident._id, error: storeError });
+    }
+    return incident;
+}
+
+/**
+ * Fetches an incident by its id
+ * @param id the id of the incident
+ * @param db the database connection
+ * @returns the incident, or null if it does not exist
+ */
+export async function getIncident(id: string, db: DbConnection): Promise<Incident | null> {
+    return incidentCollection(db).findOne({ _id: id.toUpperCase() });
+}
+
+/**
+ * Fetches the most recent incidents
+ * @param db the database connection
+ * @param limit the most incidents to fetch
+ * @returns the incidents, newest first
+ */
+export async function listIncidents(db: DbConnection, limit: number = 50): Promise<Incident[]> {
+    return incidentCollection(db).find({}).sort({ createdAt: -1 }).limit(limit).toArray();
+}
+
+/**
+ * Groups recent incidents by fingerprint
+ * @param db the database connection
+ * @param since only incidents after this date are grouped
+ * @returns the groups, most frequent first
+ */
+export async function groupIncidents(db: DbConnection, since: Date): Promise<IncidentGroup[]> {
+    return incidentCollection(db).aggregate<IncidentGroup>([
+        { $match: { createdAt: { $gte: since } } },
+        { $sort: { createdAt: -1 } },
+        {
+            $group: {
+                _id: '$fingerprint',
+                count: { $sum: 1 },
+                firstSeen: { $min: '$createdAt' },
+                lastSeen: { $max: '$createdAt' },
+                latestId: { $first: '$_id' },
+                message: { $first: '$error.message' },
+                commands: { $addToSet: '$command' },
+            }
+        },
+        { $project: { _id: 0, fingerprint: '$_id', count: 1, firstSeen: 1, lastSeen: 1, latestId: 1, message: 1, commands: 1 } },
+        { $sort: { count: -1, lastSeen: -1 } },
+    ]).toArray();
+}
+
+/**
+ * Function to describe an incident for use in embeds
+ * @param incident the incident to describe
+ * @param locale [optional] the locale to describe it in
+ * @returns the description of the incident
+ */
+export function describeIncident(incident: Incident, locale: string = defaultLocale): string {
+    const none = t(locale, 'incident.noValue');
+    const options = Object.entries(incident.options).map(([name, value]) => `${name}: ${JSON.stringify(value)}`).join(', ') || none;
+    return [
+        t(locale, 'incident.command', { command: incident.command }),
+        t(locale, 'incident.options', { options }),
+        t(locale, 'incident.where', {
+            guild: incident.guildId ? `\`${incident.guildId}\`` : none,
+            channel: incident.channelId ? `<#${incident.channelId}>` : none
+        }),
+        t(locale, 'incident.user', { user: incident.userId }),
+        t(locale, 'incident.when', { time: `<t:${Math.floor(incident.createdAt.getTime() / 1000)}:R>` }),
+        t(locale, 'incident.fingerprint', { fingerprint: incident.fingerprint }),
+        t(locale, 'incident.error', { error: `${incident.error.name}: ${incident.error.message}` }),
+    ].join('\n');
+}
+
+/**
+ * Ensure incidents can be searched by fingerprint and expire on their own
+ */
+export default async function loadIncidentsHandler(client: CustomClient): Promise<void> {
+    try {
+        const collection = incidentCollection(getConfig().db);
+        await collection.createIndex({ fingerprint: 1, createdAt: -1 });
+        await collection.createIndex({ createdAt: 1 }, { expireAfterSeconds: INCIDENT_RETENTION_DAYS * 24 * 60 * 60 });
+    } catch (error) {
+        log.error('Error preparing incident indexes', { error });
+    }
+}
@@ -0,0 +1,398 @@
+import { hostname } from 'os';
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { Agenda, Job as AgendaJob, JobAttributesData } from 'agenda';
+import { Db as DbConnection } from 'mongodb';
+import { CustomClient } from '../index';
+import { Config, getConfig } from '../config';
+import { logger, withErrorContext } from '../helpers/logger';
+import { isPrimaryShard } from '../helpers/shards';
+
+// The structure of a job module.
+// Jobs without an interval only run when scheduled with data, such as reminders.
+export interface ScheduledJob {
+    name: string;
+    description: string;
+    // A cron expression or a human interval such as "1 hour"
+    interval?: string | ((config: Config) => string);
+    retries?: number;
+    retryDelay?: number;
+    lockLifetime?: number;
+    enabled?: (config: Config) => boolean;
+    run: (client: CustomClient, config: Config, data: JobAttributesData) => Promise<void>;
+}
+
+// A single run of a job, kept as history.
+export interface JobRun {
+    job: string;
+    startedAt: Date;
+    finishedAt: Date;
+    durationMs: number;
+    success: boolean;
+    attempt: number;
+    manual: boolean;
+    error: string | null;
+}
+
+// The state of a job, as shown by the jobs command.
+export interface JobStatus {
+    name: string;
+    description: string;
+    interval: string;
+    disabled: boolean;
+    nextRunAt: Date | null;
+    lastRun: JobRun | null;
+}
+
+// A pending run of a job scheduled with data.
+export interface PendingJob {
+    nextRunAt: Date | null;
+    interval: string | null;
+    disabled: boolean;
+    data: JobAttributesData;
+}
+
+const jobsDirectoryPath = path.resolve(__dirname, '../jobs');
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const JOB_HISTORY_RETENTION_DAYS = 30;
+
+let agenda: Agenda | null = null;
+const scheduledJobs: Map<string, ScheduledJob> = new Map();
+const log = logger.child('jobs');
+
+/**
+ * @param db the database connection
+ * @returns the job run collection
+ */
+function runCollection(db: DbConnection) {
+    return db.collection<JobRun>(getConfig().collectionNames.JOB_RUNS);
+}
+
+/**
+ * Function to point the configured Mongo URI at the bot's database.
+ * Agenda keeps its own connection, as it is built against an older driver.
+ * Credentials are authenticated against the database in the URI's path, or admin without one,
+ * so that source is kept as the authSource when the path is changed.
+ *
+ * @param config the config
+ * @returns the address Agenda connects to
+ */
+function jobsDatabaseAddress(config: Config): string {
+    const match = /^(mongodb(?:\+srv)?:\/\/)([^/?]+)(?:\/([^?]*))?(?:\?(.*))?$/.exec(config.mongoURI);
+    if (!match) return config.mongoURI;
+
+    const [, scheme, hosts, pathDatabase, query] = match;
+    const options = query ? query.split('&') : [];
+    if (hosts.includes('@') && !options.some((option) => option.startsWith('authSource='))) {
+        options.push(`authSource=${pathDatabase || 'admin'}`);
+    }
+    return `${scheme}${hosts}/${config.db.databaseName}${options.length > 0 ? `?${options.join('&')}` : ''}`;
+}
+
+/**
+ * @param job the job
+ * @param config the config
+ * @returns how often the job repeats
+ */
+function jobInterval(job: ScheduledJob, config: Config): string | null {
+    return (typeof job.interval === 'function' ? job.interval(config) : job.interval) || null;
+}
+
+/**
+ * Function to load every job module from the jobs directory
+ * @returns the valid jobs
+ */
+async function loadJobFiles(): Promise<ScheduledJob[]> {
+    const jobFiles = (await fsPromises.readdir(jobsDirectoryPath))
+        .filter((fileName) => fileName.endsWith('.js') || fileName.endsWith('.ts'));
+
+    const jobs: ScheduledJob[] = [];
+    for (const jobFile of jobFiles) {
+        try {
+            const { default: job } = await import(path.join(jobsDirectoryPath, jobFile));
+            if (typeof job?.name !== 'string' || typeof job.run !== 'function') {
+                log.warn('Invalid job structure', { file: jobFile });
+                continue;
+            }
+            jobs.push(job);
+        } catch (error) {
+            log.error('Error loading job', { file: jobFile, error });
+        }
+    }
+    return jobs;
+}
+
+/**
+ * Defines a job with Agenda, recording each run and scheduling retries.
+ * Failed runs are retried with a doubling delay, before the job falls back to its interval.
+ *
+ * @param client the client instance
+ * @param job the job to define
+ */
+function defineJob(client: CustomClient, job: ScheduledJob) {
+    agenda!.define(job.name, { lockLifetime: job.lockLifetime, concurrency: 1 }, async (agendaJob: AgendaJob) => {
+        const config = getConfig();
+        const attempt = (agendaJob.attrs.data?.attempt || 0) + 1;
+        const startedAt = new Date();
+        let error: unknown = null;
+
+        try {
+            await job.run(client, config, agendaJob.attrs.data || {});
+        } catch (thrown) {
+            // Jobs run on behalf of a guild or user, such as reminders, carry them with the error
+            const { guildId, userId } = agendaJob.attrs.data || {};
+            error = withErrorContext(thrown, { job: job.name, attempt, ...(guildId ? { guildId } : {}), ...(userId ? { userId } : {}) });
+        }
+
+        const finishedAt = new Date();
+        const run: JobRun = {
+            job: job.name,
+            startedAt,
+            finishedAt,
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            success: error === null,
+            attempt,
+            manual: agendaJob.attrs.data?.manual === true,
+            error: error === null ? null : error instanceof Error ? error.message : String(error),
+        };
+        await runCollection(config.db).insertOne(run)
+            .catch((storeError) => log.warn('Failed to record job run', { job: job.name, error: storeError }));
+
+        if (error === null) {
+            agendaJob.attrs.data = { ...agendaJob.attrs.data, attempt: 0 };
+            return;
+        }
+
+        // Agenda saves the job after a failure, so the retry is persisted with it
+        const retries = job.retries ?? 0;
+        if (attempt <= retries) {
+            const delay = (job.retryDelay ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1);
+            agendaJob.attrs.nextRunAt = new Date(Date.now() + delay);
+            agendaJob.attrs.data = { ...agendaJob.attrs.data, attempt };
+            log.warn(`Job ${job.name} failed, retrying in ${Math.round(delay / 1000)}s [${attempt}/${retries}]`, { error });
+        } else {
+            agendaJob.attrs.data = { ...agendaJob.attrs.data, attempt: 0 };
+            log.error(`Job ${job.name} failed`, { attempt, error });
+        }
+        throw error;
+    });
+}
+
+/**
+ * @param name the name of a job
+ * @returns the job, if it is loaded and runs on an interval
+ */
+function recurringJob(name: string): ScheduledJob | null {
+    const job = scheduledJobs.get(name);
+    return job && jobInterval(job, getConfig()) ? job : null;
+}
+
+/**
+ * Fetches the state of every loaded job that runs on an interval
+ * @returns the jobs, with when they next run and how their last run went
+ */
+export async function listJobs(): Promise<JobStatus[]> {
+    if (!agenda) return [];
+    const config = getConfig();
+    const jobs = Array.from(scheduledJobs.values()).filter((job) => jobInterval(job, config));
+
+    const agendaJobs = await agenda.jobs({ name: { $in: jobs.map((job) => job.name) }, type: 'single' });
+    return Promise.all(jobs.map(async (job) => {
+        const attrs = agendaJobs.find((agendaJob) => agendaJob.attrs.name === job.name)?.attrs;
+        const [lastRun] = await jobHistory(config.db, job.name, 1);
+        return {
+            name: job.name,
+            description: job.description,
+            interval: jobInterval(job, config)!,
+            disabled: attrs?.disabled === true,
+            nextRunAt: attrs?.nextRunAt || null,
+            lastRun: lastRun || null,
+        };
+    }));
+}
+
+/**
+ * Fetches the most recent runs
+ * @param db the database connection
+ * @param name only runs of this job are fetched [optional]
+ * @param limit the most runs to fetch
+ * @returns the runs, newest first
+ */
+export async function jobHistory(db: DbConnection, name?: string, limit: number = 20): Promise<JobRun[]> {
+    return runCollection(db).find(name ? { job: name } : {}, { projection: { _id: 0 } }).sort({ startedAt: -1 }).limit(limit).toArray();
+}
+
+/**
+ * Runs a job now, outside of its schedule
+ * @param name the name of the job
+ * @returns whether the job exists
+ */
+export async function triggerJob(name: string): Promise<boolean> {
+    if (!agenda || !recurringJob(name)) return false;
+    await agenda.now(name, { manual: true });
+    return true;
+}
+
+/**
+ * Pauses or resumes a job, across every instance of the bot
+ * @param name the name of the job
+ * @param paused whether the job should be paused
+ * @returns whether the job exists
+ */
+export async function setJobPaused(name: string, paused: boolean): Promise<boolean> {
+    if (!agenda || !recurringJob(name)) return false;
+    await (paused ? agenda.disable({ name }) : agenda.enable({ name }));
+    return true;
+}
+
+/**
+ * Simple function to build a query matching a job's data
+ * @param name the name of the job
+ * @param filter the data to match
+ * @returns the query
+ */
+function dataQuery(name: string, filter: { [key: string]: unknown }) {
+    return { name, ...Object.fromEntries(Object.entries(filter).map(([key, value]) => [`data.${key}`, value])) };
+}
+
+/**
+ * Schedules a job to run once at a given time
+ * @param name the name of the job
+ * @param when when the job should run
+ * @param data the data the job runs with
+ * @returns whether the job was scheduled
+ */
+export async function scheduleJob(name: string, when: Date, data: JobAttributesData): Promise<boolean> {
+    if (!agenda || !scheduledJobs.has(name)) return false;
+    await agenda.schedule(when, name, data);
+    return true;
+}
+
+/**
+ * Schedules a job to repeat on an interval, alongside any others of the same name
+ * @param name the name of the job
+ * @param interval a cron expression or a human interval
+ * @param data the data the job runs with
+ * @returns whether the job was scheduled
+ */
+export async function scheduleRecurringJob(name: string, interval: string, data: JobAttributesData): Promise<boolean> {
+    if (!agenda || !scheduledJobs.has(name)) return false;
+    await agenda.create(name, data).repeatEvery(interval, { skipImmediate: true }).save();
+    return true;
+}
+
+/**
+ * Works out when an interval would next run, without scheduling anything
+ * @param interval a cron expression or a human interval
+ * @param count how many runs to work out
+ * @returns the upcoming runs, or null if the interval is not valid
+ */
+export function previewInterval(interval: string, count: number = 2): Date[] | null {
+    if (!agenda) return null;
+
+    const probe = agenda.create('preview', {}).repeatEvery(interval, { skipImmediate: true });
+    const runs: Date[] = [];
+    while (probe.attrs.nextRunAt && runs.length < count) {
+        runs.push(probe.attrs.nextRunAt);
+        probe.attrs.lastRunAt = probe.attrs.nextRunAt;
+        probe.computeNextRunAt();
+    }
+    return runs.length === count ? runs : null;
+}
+
+/**
+ * Fetches the pending runs of a job scheduled with data
+ * @param name the name of the job
+ * @param filter only runs whose data matches are fetched
+ * @returns the runs, soonest first
+ */
+export async function findPendingJobs(name: string, filter: { [key: string]: unknown } = {}): Promise<PendingJob[]> {
+    if (!agenda) return [];
+    const agendaJobs = await agenda.jobs({ ...dataQuery(name, filter), nextRunAt: { $ne: null } }, { nextRunAt: 1 });
+    return agendaJobs.map(({ attrs }) => ({
+        nextRunAt: attrs.nextRunAt || null,
+        interval: attrs.repeatInterval || null,
+        disabled: attrs.disabled === true,
+        data: attrs.data,
+    }));
+}
+
+/**
+ * Cancels the runs of a job scheduled with data
+ * @param name the name of the job
+ * @param filter only runs whose data matches are cancelled
+ * @returns the number of runs cancelled
+ */
+export async function cancelJobs(name: string, filter: { [key: string]: unknown }): Promise<number> {
+    if (!agenda) return 0;
+    return await agenda.cancel(dataQuery(name, filter)) || 0;
+}
+
+/**
+ * Removes one-off runs that have finished, their outcome is kept in the run history
+ * @returns the number of runs removed
+ */
+export async function purgeFinishedJobs(): Promise<number> {
+    if (!agenda) return 0;
+    return await agenda.cancel({
+        type: 'normal',
+        nextRunAt: null,
+        lockedAt: null,
+        $or: [{ lastFinishedAt: { $exists: true } }, { failedAt: { $exists: true } }],
+    }) || 0;
+}
+
+/**
+ * Key logic to load the jobs and start processing them.
+ * Jobs are stored in Mongo, so runs missed while the bot was offline are caught up
+ * on start, and locked so that only one shard or instance of the bot runs each.
+ *
+ * @param client the client instance
+ */
+export default async function loadJobs(client: CustomClient) {
+    const config = getConfig();
+
+    try {
+        agenda = new Agenda({
+            name: `${hostname()}-${process.pid}`,
+            db: { address: jobsDatabaseAddress(config), collection: config.collectionNames.JOBS },
+            processEvery: '30 seconds',
+        });
+        agenda.on('error', (error) => log.error('Job scheduler error', { error }));
+
+        for (const job of await loadJobFiles()) {
+            if (job.enabled && !job.enabled(config)) continue;
+            scheduledJobs.set(job.name, job);
+            defineJob(client, job);
+        }
+
+        // Every shard processes jobs, and jobs bound to a guild send through the shard holding it.
+        // Only the first writes the schedules, as shards saving the same repeating job at once could duplicate it.
+        // The schedules are written before processing starts, so a missed run is only caught up once
+        for (const job of isPrimaryShard(client) ? scheduledJobs.values() : []) {
+            const interval = jobInterval(job, config);
+            if (!interval) continue;
+
+            // Saving a repeating job moves its next run into the future, replacing one that
+            // came due while the bot was offline, so that run is caught up separately
+            const [stored] = await agenda.jobs({ name: job.name, type: 'single' });
+            const nextRunAt = stored?.attrs.nextRunAt;
+            const missedRun = !stored?.attrs.disabled && nextRunAt && nextRunAt.getTime() <= Date.now();
+
+            await agenda.every(interval, job.name);
+            if (missedRun) {
+                log.info(`Catching up on a run of ${job.name} missed while offline`, { dueAt: nextRunAt });
+                await agenda.now(job.name, {});
+            }
+        }
+
+        await agenda.start();
+
+        await runCollection(config.db).createIndex({ startedAt: 1 }, { expireAfterSeconds: JOB_HISTORY_RETENTION_DAYS * 24 * 60 * 60 });
+        await runCollection(config.db).createIndex({ job: 1, startedAt: -1 });
+
+        log.info(`Scheduled ${scheduledJobs.size} jobs.`);
+    } catch (error) {
+        log.error('Error starting jobs', { error });
+    }
+}
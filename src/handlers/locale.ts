@@ -0,0 +1,57 @@
+import { BaseInteraction, Message } from 'discord.js';
+import { Db as DbConnection } from 'mongodb';
+import { GuildSettings } from './guildSettings';
+import { LRUCache } from '../helpers/cache';
+import { defaultLocale } from '../helpers/i18n';
+import { UserRepository } from '../repositories/users';
+
+// Users' chosen locales are looked up on every command, so they are cached for a while.
+// A change made through another shard is picked up once the entry expires.
+const userLocales: LRUCache<string, string> = new LRUCache({
+    maxSize: 10000,
+    ttlMs: 10 * 60 * 1000,
+});
+
+/**
+ * @param userId the user to fetch the locale of
+ * @param db the database connection
+ * @returns the locale the user chose, or null if they have not
+ */
+export async function getUserLocale(userId: string, db: DbConnection): Promise<string | null> {
+    const cached = userLocales.get(userId);
+    if (cached) return cached.value;
+
+    const locale = await new UserRepository(db).findLocale(userId);
+    userLocales.set(userId, locale);
+    return locale;
+}
+
+/**
+ * @param userId the user to set the locale of
+ * @param locale the locale to use, or null to clear it
+ * @param db the database connection
+ */
+export async function setUserLocale(userId: string, locale: string | null, db: DbConnection) {
+    await new UserRepository(db).setLocale(userId, locale);
+    userLocales.set(userId, locale);
+}
+
+/**
+ * Function to resolve the locale to respond to an interaction in.
+ * A locale the user chose comes first, then the one their guild chose,
+ * then the language of the user's Discord client for interactions,
+ * or the guild's preferred locale for text commands.
+ *
+ * @param interaction the message or interaction to respond to
+ * @param guildSettings the settings of the guild it was sent in
+ * @param db the database connection
+ * @returns the locale to respond in
+ */
+export async function resolveLocale(interaction: Message | BaseInteraction, guildSettings: GuildSettings, db: DbConnection): Promise<string> {
+    const userId = interaction instanceof Message ? interaction.author.id : interaction.user.id;
+    const userLocale = await getUserLocale(userId, db);
+    if (userLocale) return userLocale;
+    if (guildSettings.locale) return guildSettings.locale;
+    if (!(interaction instanceof Message)) return interaction.locale;
+    return interaction.guild?.preferredLocale || defaultLocale;
+}
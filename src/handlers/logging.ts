@@ -0,0 +1,168 @@
+import { AttachmentBuilder } from 'discord.js';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { addLogSink, LogLevel, logLevels, LogRecord } from '../helpers/logger';
+
+// A record waiting to be sent, with how many times it repeated.
+interface QueuedRecord {
+    record: LogRecord;
+    fingerprint: string;
+    repeats: number;
+}
+
+// Limits keeping the log channel readable and within Discord's rate limits.
+const FLUSH_INTERVAL_MS = 5000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_MESSAGES_PER_WINDOW = 6;
+const DEDUPE_WINDOW_MS = 10 * 60 * 1000;
+const MAX_QUEUED_RECORDS = 50;
+const MESSAGE_LIMIT = 1900;
+
+let queue: QueuedRecord[] = [];
+let droppedRecords = 0;
+let sentTimes: number[] = [];
+
+// When each error was last reported, and how many repeats were held back since, with the latest of them.
+const recentFingerprints: Map<string, { lastSent: number, suppressed: number, latest: LogRecord }> = new Map();
+
+/**
+ * Simple function to identify repeats of the same record
+ * @param record the record to identify
+ * @returns the fingerprint, made of where and why the record was logged
+ */
+function fingerprint(record: LogRecord): string {
+    const origin = record.error?.stack?.split('\n')[1]?.trim() || '';
+    return [record.level, record.logger, record.message, record.error?.message || '', origin].join('|');
+}
+
+/**
+ * Queues a record to be sent, folding repeats into the record already reported
+ * @param record the record to queue
+ */
+function enqueue(record: LogRecord) {
+    const recordFingerprint = fingerprint(record);
+
+    const queued = queue.find((queuedRecord) => queuedRecord.fingerprint === recordFingerprint);
+    if (queued) {
+        queued.repeats++;
+        return;
+    }
+
+    const recent = recentFingerprints.get(recordFingerprint);
+    if (recent && Date.now() - recent.lastSent < DEDUPE_WINDOW_MS) {
+        recent.suppressed++;
+        recent.latest = record;
+        return;
+    }
+
+    queue.push({ record, fingerprint: recordFingerprint, repeats: recent?.suppressed || 0 });
+    recentFingerprints.set(recordFingerprint, { lastSent: Date.now(), suppressed: 0, latest: record });
+
+    // Keep the newest records if the channel cannot keep up
+    if (queue.length > MAX_QUEUED_RECORDS) {
+        queue.shift();
+        droppedRecords++;
+    }
+}
+
+/**
+ * Forgets fingerprints that have left the window, queueing a summary of any repeats held back
+ * @param now the current time
+ */
+function expireFingerprints(now: number) {
+    for (const [recordFingerprint, recent] of recentFingerprints) {
+        if (now - recent.lastSent < DEDUPE_WINDOW_MS) continue;
+        recentFingerprints.delete(recordFingerprint);
+
+        if (recent.suppressed === 0) continue;
+        const queued = queue.find((queuedRecord) => queuedRecord.fingerprint === recordFingerprint);
+        if (queued) {
+            queued.repeats += recent.suppressed;
+        } else {
+            queue.push({ record: recent.latest, fingerprint: recordFingerprint, repeats: recent.suppressed });
+        }
+    }
+
+    while (queue.length > MAX_QUEUED_RECORDS) {
+        queue.shift();
+        droppedRecords++;
+    }
+}
+
+/**
+ * Simple function to describe a record in plain text
+ * @param queuedRecord the record to describe
+ * @param includeTrace whether to include the error's stack trace
+ * @returns the description
+ */
+function describeRecord(queuedRecord: QueuedRecord, includeTrace: boolean): string {
+    const { record, repeats } = queuedRecord;
+    const context = Object.entries(record.context).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+
+    const lines = [`[${record.level.toUpperCase()}] ${record.logger}: ${record.message}${repeats > 0 ? ` (repeated ${repeats} times)` : ''}`];
+    if (context.length > 0) lines.push(context.join(' '));
+    if (record.error) lines.push(includeTrace ? record.error.stack || record.error.message : `${record.error.name}: ${record.error.message}`);
+    return lines.join('\n');
+}
+
+/**
+ * Sends every queued record as a single message, attaching the full
+ * records as a file when they do not fit in the message.
+ *
+ * @param client the bot client
+ */
+async function flush(client: CustomClient) {
+    expireFingerprints(Date.now());
+    if (queue.length === 0) return;
+
+    const channel = client.channels.cache.get(getConfig().botErrorLogs);
+    if (!channel || !channel.isSendable()) return;
+
+    const now = Date.now();
+    sentTimes = sentTimes.filter((time) => now - time < RATE_LIMIT_WINDOW_MS);
+    if (sentTimes.length >= MAX_MESSAGES_PER_WINDOW) return;
+
+    const batch = queue;
+    const dropped = droppedRecords;
+    queue = [];
+    droppedRecords = 0;
+    sentTimes.push(now);
+
+    const droppedNote = dropped > 0 ? `\n${dropped} older records were dropped.` : '';
+    const fullText = batch.map((queuedRecord) => describeRecord(queuedRecord, true)).join('\n\n');
+
+    try {
+        if (fullText.length + droppedNote.length <= MESSAGE_LIMIT) {
+            await channel.send({ content: `\`\`\`\n${fullText}\n\`\`\`${droppedNote}`, allowedMentions: { parse: [] } });
+            return;
+        }
+
+        let summary = batch.map((queuedRecord) => describeRecord(queuedRecord, false)).join('\n\n');
+        if (summary.length > MESSAGE_LIMIT) summary = `${summary.slice(0, MESSAGE_LIMIT - 3)}...`;
+
+        await channel.send({
+            content: `\`\`\`\n${summary}\n\`\`\`${droppedNote}`,
+            files: [new AttachmentBuilder(Buffer.from(fullText), { name: `logs-${now}.txt` })],
+            allowedMentions: { parse: [] },
+        });
+    } catch (error) {
+        // Never log through the logger here, or a broken channel would feed itself
+        console.error(`Failed to send logs to the log channel: ${error}`);
+    }
+}
+
+/**
+ * Sends error records to the configured log channel in rate-limited,
+ * deduplicated batches.
+ *
+ * @param client the bot client
+ */
+export default function loadLogging(client: CustomClient) {
+    const minimumLevel: LogLevel = getConfig().discordLogLevel || 'error';
+
+    addLogSink((record) => {
+        if (logLevels.indexOf(record.level) >= logLevels.indexOf(minimumLevel)) enqueue(record);
+    });
+
+    setInterval(() => flush(client), FLUSH_INTERVAL_MS).unref();
+}
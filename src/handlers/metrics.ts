@@ -0,0 +1,127 @@
+import http from 'http';
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { CustomClient } from '../index';
+import { cacheStats } from './botCache';
+import { getConfig } from '../config';
+import { logger } from '../helpers/logger';
+import { shardIds } from '../helpers/shards';
+import { cacheRequests, CollectedCounter, Gauge, readinessState, renderMetrics } from '../helpers/metrics';
+
+// Components that must report themselves ready, on top of Discord and Mongo.
+const requiredComponents = ['commandSync'];
+
+// How long Mongo may take to answer a ping before it is considered unavailable.
+const MONGO_PING_TIMEOUT_MS = 2000;
+
+const log = logger.child('metrics');
+
+/**
+ * Pings Mongo, timing how long it takes to answer
+ * @returns the round trip in seconds, or null if Mongo did not answer in time
+ */
+async function pingMongo(): Promise<number | null> {
+    const startedAt = process.hrtime.bigint();
+    try {
+        await getConfig().db.command({ ping: 1 }, { timeoutMS: MONGO_PING_TIMEOUT_MS });
+        return Number(process.hrtime.bigint() - startedAt) / 1e9;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks everything the bot needs to serve traffic
+ * @param client the bot client
+ * @returns whether the bot is ready, and the state of each component
+ */
+async function checkReadiness(client: CustomClient): Promise<{ ready: boolean, components: { [component: string]: boolean } }> {
+    const reported = readinessState();
+    const components: { [component: string]: boolean } = {
+        discord: client.isReady(),
+        mongo: (await pingMongo()) !== null,
+        ...Object.fromEntries(requiredComponents.map((component) => [component, reported[component] === true])),
+        ...reported,
+    };
+    return { ready: Object.values(components).every(Boolean), components };
+}
+
+/**
+ * Registers the metrics read from the client and process when scraped
+ * @param client the bot client
+ */
+function registerCollectedMetrics(client: CustomClient) {
+    const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    eventLoopDelay.enable();
+
+    new Gauge('majestic_gateway_ping_seconds', 'Discord gateway heartbeat latency.', () => Math.max(client.ws.ping, 0) / 1000);
+    new Gauge('majestic_guilds', 'Guilds the bot is in.', () => client.guilds.cache.size);
+    new Gauge('majestic_mongo_ping_seconds', 'Round trip of a Mongo ping, -1 if it did not answer.', async () => (await pingMongo()) ?? -1);
+    new Gauge('majestic_guild_cache_entries', 'Guilds held in the cache, including guilds cached as having no settings.', () => cacheStats().size);
+    new CollectedCounter('majestic_guild_cache_evictions_total', 'Guilds evicted from the full cache since the bot started.', () => cacheStats().evictions);
+    new Gauge('majestic_guild_cache_hit_ratio', 'Share of guild cache lookups served from memory.', () => {
+        const total = cacheRequests.total();
+        return total > 0 ? cacheRequests.total({ result: 'hit' }) / total : 0;
+    });
+    new Gauge('majestic_event_loop_lag_seconds', 'Event loop delay since the last scrape.', () => {
+        const samples = [
+            { labels: { quantile: '0.5' }, value: eventLoopDelay.percentile(50) / 1e9 },
+            { labels: { quantile: '0.99' }, value: eventLoopDelay.percentile(99) / 1e9 },
+            { labels: { quantile: '1' }, value: eventLoopDelay.max / 1e9 },
+        ];
+        eventLoopDelay.reset();
+        return samples;
+    });
+    new Gauge('process_resident_memory_bytes', 'Resident memory size in bytes.', () => process.memoryUsage().rss);
+    new CollectedCounter('process_cpu_seconds_total', 'Total user and system CPU time spent in seconds.', () => {
+        const usage = process.cpuUsage();
+        return (usage.user + usage.system) / 1e6;
+    });
+    new Gauge('process_uptime_seconds', 'Time since the process started.', () => process.uptime());
+}
+
+/**
+ * Serves /metrics in the Prometheus text format, with /healthz and /readyz
+ * for container health checks, when a metrics port is configured.
+ * Each shard serves its own metrics, on the metrics port plus its shard id.
+ *
+ * @param client the bot client
+ */
+export default function loadMetrics(client: CustomClient) {
+    const basePort = getConfig().metricsPort;
+    if (!basePort) return;
+    const port = basePort + shardIds(client)[0];
+
+    registerCollectedMetrics(client);
+
+    const server = http.createServer(async (request, response) => {
+        try {
+            switch (request.url?.split('?')[0]) {
+                case '/metrics':
+                    response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+                    response.end(await renderMetrics());
+                    return;
+                case '/healthz':
+                    // Answering at all shows the process and its event loop are alive
+                    response.writeHead(200, { 'Content-Type': 'application/json' });
+                    response.end(JSON.stringify({ status: 'ok', uptime: process.uptime() }));
+                    return;
+                case '/readyz': {
+                    const readiness = await checkReadiness(client);
+                    response.writeHead(readiness.ready ? 200 : 503, { 'Content-Type': 'application/json' });
+                    response.end(JSON.stringify({ status: readiness.ready ? 'ready' : 'not ready', components: readiness.components }));
+                    return;
+                }
+                default:
+                    response.writeHead(404, { 'Content-Type': 'text/plain' });
+                    response.end('Not found\n');
+            }
+        } catch (error) {
+            log.error('Error serving metrics request', { url: request.url, error });
+            response.writeHead(500, { 'Content-Type': 'text/plain' });
+            response.end('Internal error\n');
+        }
+    });
+
+    server.on('error', (error) => log.error('Metrics server error', { port, error }));
+    server.listen(port, () => log.info(`Serving metrics and health checks on port ${port}.`));
+}
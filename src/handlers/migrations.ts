@@ -0,0 +1,143 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { Db as DbConnection } from 'mongodb';
+import { logger } from '../helpers/logger';
+import { MigrationRepository } from '../repositories/migrations';
+
+// The structure of a migration module, its id is its file name such as "001-remove-empty-guild-documents".
+export interface Migration {
+    id: string;
+    description: string;
+    up: (db: DbConnection) => Promise<void>;
+    // Migrations without a down step cannot be reverted
+    down?: (db: DbConnection) => Promise<void>;
+}
+
+// A migration, and when it was applied if it has been.
+export interface MigrationStatus {
+    id: string;
+    description: string;
+    appliedAt: Date | null;
+    reversible: boolean;
+}
+
+const migrationsDirectoryPath = path.resolve(__dirname, '../migrations');
+const log = logger.child('migrations');
+
+/**
+ * Function to load every migration module, in the order they apply.
+ * Unlike commands and jobs, a broken migration stops the load, as skipping it could
+ * leave the database between versions.
+ *
+ * @param directory the directory to load from, defaults to src/migrations
+ * @returns the migrations, ordered by id
+ */
+export async function loadMigrations(directory: string = migrationsDirectoryPath): Promise<Migration[]> {
+    const migrationFiles = (await fsPromises.readdir(directory))
+        .filter((fileName) => (fileName.endsWith('.js') || fileName.endsWith('.ts')) && !fileName.endsWith('.d.ts'))
+        .sort();
+
+    const migrations: Migration[] = [];
+    for (const migrationFile of migrationFiles) {
+        const { default: migration } = await import(path.join(directory, migrationFile));
+        if (typeof migration?.description !== 'string' || typeof migration.up !== 'function') {
+            throw new Error(`Invalid migration structure in ${migrationFile}`);
+        }
+        migrations.push({ ...migration, id: path.parse(migrationFile).name });
+    }
+    return migrations;
+}
+
+/**
+ * @param db the database connection
+ * @param migrations every migration
+ * @param repository where applied migrations are recorded, defaults to the configured collection
+ * @returns each migration, and when it was applied
+ */
+export async function migrationStatus(db: DbConnection, migrations: Migration[], repository: MigrationRepository = new MigrationRepository(db)): Promise<MigrationStatus[]> {
+    const applied = await repository.findApplied();
+    return migrations.map((migration) => ({
+        id: migration.id,
+        description: migration.description,
+        appliedAt: applied.get(migration.id) || null,
+        reversible: typeof migration.down === 'function',
+    }));
+}
+
+/**
+ * Runs work while holding the migration lock
+ * @param repository where applied migrations are recorded
+ * @param work the work to run
+ * @returns what the work returned
+ */
+async function withMigrationLock<T>(repository: MigrationRepository, work: () => Promise<T>): Promise<T> {
+    if (!await repository.acquireLock()) {
+        throw new Error('Migrations are already running in another process');
+    }
+
+    try {
+        return await work();
+    } finally {
+        await repository.releaseLock();
+    }
+}
+
+/**
+ * Applies pending migrations in order, stopping at the first failure
+ * @param db the database connection
+ * @param migrations every migration
+ * @param target the last migration to apply, or every pending migration if omitted
+ * @param repository where applied migrations are recorded, defaults to the configured collection
+ * @returns the ids of the migrations applied
+ */
+export async function migrateUp(db: DbConnection, migrations: Migration[], target?: string, repository: MigrationRepository = new MigrationRepository(db)): Promise<string[]> {
+    if (target && !migrations.some((migration) => migration.id === target)) {
+        throw new Error(`There is no migration ${target}`);
+    }
+
+    return withMigrationLock(repository, async () => {
+        const applied = await repository.findApplied();
+        const targetIndex = target ? migrations.findIndex((migration) => migration.id === target) : migrations.length - 1;
+        const pending = migrations.slice(0, targetIndex + 1).filter((migration) => !applied.has(migration.id));
+
+        const appliedIds: string[] = [];
+        for (const migration of pending) {
+            const startedAt = Date.now();
+            await migration.up(db);
+            await repository.markApplied(migration.id, migration.description, Date.now() - startedAt);
+            log.info(`Applied migration ${migration.id}.`, { durationMs: Date.now() - startedAt });
+            appliedIds.push(migration.id);
+        }
+        return appliedIds;
+    });
+}
+
+/**
+ * Reverts the most recently applied migrations, newest first
+ * @param db the database connection
+ * @param migrations every migration
+ * @param steps how many migrations to revert
+ * @param repository where applied migrations are recorded, defaults to the configured collection
+ * @returns the ids of the migrations reverted
+ */
+export async function migrateDown(db: DbConnection, migrations: Migration[], steps: number = 1, repository: MigrationRepository = new MigrationRepository(db)): Promise<string[]> {
+    return withMigrationLock(repository, async () => {
+        const applied = await repository.findApplied();
+        const toRevert = migrations.filter((migration) => applied.has(migration.id)).reverse().slice(0, steps);
+
+        // Check everything can be reverted before touching anything
+        const irreversible = toRevert.find((migration) => typeof migration.down !== 'function');
+        if (irreversible) {
+            throw new Error(`Migration ${irreversible.id} cannot be reverted`);
+        }
+
+        const revertedIds: string[] = [];
+        for (const migration of toRevert) {
+            await migration.down!(db);
+            await repository.markReverted(migration.id);
+            log.info(`Reverted migration ${migration.id}.`);
+            revertedIds.push(migration.id);
+        }
+        return revertedIds;
+    });
+}
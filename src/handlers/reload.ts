@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { applicationCommandKey } from '../helpers/command';
+import {
+    buildCategoryCommands,
+    Command,
+    commandFilePaths,
+    loadCommandFile,
+    rebuildAliases
+} from './command';
+import { syncApplicationCommands } from './sync';
+import { reloadEvents } from './events';
+import { logger } from '../helpers/logger';
+
+// The outcome of a reload, by command or event name.
+export interface ReloadResult {
+    reloaded: string[];
+    failed: string[];
+}
+
+// How long to wait for a burst of file changes to settle before reloading.
+const WATCH_DEBOUNCE_MS = 500;
+
+const log = logger.child('reload');
+
+/**
+ * Swaps a category's commands for new definitions, then rebuilds the aliases
+ * and syncs only the application commands the category registers.
+ *
+ * @param client the bot client
+ * @param categoryName the category being changed
+ * @param previousCommands the commands being replaced
+ * @param nextCommands the commands replacing them
+ */
+async function replaceCommands(client: CustomClient, categoryName: string, previousCommands: Command[], nextCommands: Command[]) {
+    const categoryCommands = () => Array.from(client.commands.filter((command) => command.category === categoryName).values());
+    const previousKeys = buildCategoryCommands(categoryCommands(), categoryName).map((builder) => applicationCommandKey(builder));
+
+    previousCommands.forEach((command) => client.commands.delete(command.name));
+    nextCommands.forEach((command) => client.commands.set(command.name, command));
+    rebuildAliases(client);
+
+    const slashCommands = buildCategoryCommands(categoryCommands(), categoryName);
+    const nextKeys = slashCommands.map((builder) => applicationCommandKey(builder));
+
+    previousKeys.forEach((key) => client.slashCommands.delete(key));
+    slashCommands.forEach((builder, index) => client.slashCommands.set(nextKeys[index], builder));
+
+    if (client.isReady()) {
+        await syncApplicationCommands(client, slashCommands, Array.from(new Set([...previousKeys, ...nextKeys])));
+    }
+}
+
+/**
+ * Reloads a single command from its file, keeping the old definition if the new one fails to load
+ * @param client the bot client
+ * @param name the name or alias of the command
+ * @returns the commands that were reloaded and those that failed
+ */
+export async function reloadCommand(client: CustomClient, name: string): Promise<ReloadResult> {
+    const lowered = name.toLowerCase();
+    const command = client.commands.get(lowered) || client.commands.get(client.aliases.get(lowered) || '');
+    if (!command?.filePath) return { reloaded: [], failed: [lowered] };
+
+    const reloadedCommand = await loadCommandFile(command.filePath, command.category);
+    if (!reloadedCommand) return { reloaded: [], failed: [command.name] };
+
+    await replaceCommands(client, command.category, [command], [reloadedCommand]);
+    return { reloaded: [reloadedCommand.name], failed: [] };
+}
+
+/**
+ * Reloads every command in a category, picking up added and removed files.
+ * Files that fail to load keep their previous definition.
+ *
+ * @param client the bot client
+ * @param categoryName the name of the category
+ * @returns the commands that were reloaded and those that failed
+ */
+export async function reloadCategory(client: CustomClient, categoryName: string): Promise<ReloadResult> {
+    const lowered = categoryName.toLowerCase();
+    const previousCommands = Array.from(client.commands.filter((command) => command.category === lowered).values());
+    const nextCommands: Command[] = [];
+    const result: ReloadResult = { reloaded: [], failed: [] };
+
+    for (const commandFilePath of await commandFilePaths(lowered)) {
+        const reloadedCommand = await loadCommandFile(commandFilePath, lowered);
+        if (reloadedCommand) {
+            nextCommands.push(reloadedCommand);
+            result.reloaded.push(reloadedCommand.name);
+            continue;
+        }
+
+        const previousCommand = previousCommands.find((command) => command.filePath === require.resolve(commandFilePath));
+        if (previousCommand) nextCommands.push(previousCommand);
+        result.failed.push(previousCommand?.name || path.basename(commandFilePath));
+    }
+
+    await replaceCommands(client, lowered, previousCommands, nextCommands);
+    return result;
+}
+
+/**
+ * Simple function to log the outcome of a reload triggered by a file change
+ * @param target what was reloaded
+ * @param result the outcome of the reload
+ */
+function logReload(target: string, result: ReloadResult) {
+    if (result.failed.length > 0) {
+        log.warn(`Reloaded ${target}: ${result.reloaded.length} succeeded, failed: ${result.failed.join(', ')}.`);
+    } else {
+        log.info(`Reloaded ${target}: ${result.reloaded.length} succeeded.`);
+    }
+}
+
+/**
+ * Watches a directory, calling back once per changed file after changes settle
+ * @param directoryPath the directory to watch
+ * @param onChange called with the path of the changed file, relative to the directory
+ */
+function watchDirectory(directoryPath: string, onChange: (fileName: string) => Promise<void>) {
+    const pending: Map<string, NodeJS.Timeout> = new Map();
+
+    fs.watch(directoryPath, { recursive: true }, (_eventType, fileName) => {
+        if (!fileName || !/\.(js|ts)$/.test(fileName) || fileName.endsWith('.d.ts')) return;
+
+        clearTimeout(pending.get(fileName));
+        pending.set(fileName, setTimeout(() => {
+            pending.delete(fileName);
+            onChange(fileName).catch((error) => log.error('Error reloading file', { file: fileName, error }));
+        }, WATCH_DEBOUNCE_MS));
+    });
+}
+
+/**
+ * Starts watching the command and event files when hot reload is enabled
+ * @param client the bot client
+ */
+export default function watchForChanges(client: CustomClient) {
+    if (!getConfig().hotReload) return;
+
+    const commandsDirectoryPath = path.resolve(__dirname, '../commands');
+    const eventsDirectoryPath = path.resolve(__dirname, '../events');
+
+    // A changed file reloads its command, new files reload their whole category
+    watchDirectory(commandsDirectoryPath, async (fileName) => {
+        const commandFilePath = path.resolve(commandsDirectoryPath, fileName);
+        const command = client.commands.find((command) => command.filePath === commandFilePath);
+
+        if (command && fs.existsSync(commandFilePath)) {
+            logReload(`command ${command.name}`, await reloadCommand(client, command.name));
+        } else {
+            const categoryName = fileName.split(path.sep)[0];
+            logReload(`category ${categoryName}`, await reloadCategory(client, categoryName));
+        }
+    });
+
+    watchDirectory(eventsDirectoryPath, async () => {
+        logReload('events', reloadEvents(client));
+    });
+
+    log.info('Watching command and event files for changes.');
+}
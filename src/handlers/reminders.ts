@@ -0,0 +1,211 @@
+import { EmbedBuilder } from 'discord.js';
+import { CustomClient } from '../index';
+import { applyEmbedStructure, formatDuration, generateShortId, parseDuration } from '../helpers/functions';
+import { defaultLocale, t } from '../helpers/i18n';
+import { logger } from '../helpers/logger';
+import { sendToChannel } from '../helpers/shards';
+import { cancelJobs, findPendingJobs, previewInterval, scheduleJob, scheduleRecurringJob } from './jobs';
+
+// Where a reminder is delivered.
+export type ReminderDelivery = 'dm' | 'channel';
+
+// A reminder, stored as the data of its job.
+export interface Reminder {
+    id: string;
+    userId: string;
+    guildId: string;
+    channelId: string;
+    message: string;
+    delivery: ReminderDelivery;
+    createdAt: Date;
+    // The locale the reminder was set in, reminders set before it was stored have none [optional]
+    locale?: string;
+}
+
+// A recurring message posted to a channel, stored as the data of its job.
+export interface ScheduledMessage {
+    id: string;
+    guildId: string;
+    channelId: string;
+    createdBy: string;
+    content: string;
+    embed: boolean;
+    interval: string;
+}
+
+// The outcome of creating a reminder or scheduled message.
+export interface CreateResult<T> {
+    created: T | null;
+    nextRunAt: Date | null;
+    error: string | null;
+}
+
+export const REMINDER_JOB = 'reminder';
+export const SCHEDULED_MESSAGE_JOB = 'scheduledMessage';
+
+// Limits keeping reminders and scheduled messages from being abused.
+export const MAX_REMINDERS_PER_USER = 25;
+export const MAX_SCHEDULED_MESSAGES_PER_GUILD = 10;
+const MIN_REMINDER_MS = 60 * 1000;
+const MAX_REMINDER_MS = 365 * 24 * 60 * 60 * 1000;
+const MIN_SCHEDULE_INTERVAL_MS = 15 * 60 * 1000;
+const MAX_REMINDER_LENGTH = 1000;
+const MAX_SCHEDULED_MESSAGE_LENGTH = 2000;
+const ID_LENGTH = 6;
+
+const log = logger.child('reminders');
+
+/**
+ * Function to create a reminder, enforcing the per-user limits
+ * @param details who the reminder is for, where it was set and what it says, and the locale it is in
+ * @param delay how long until the reminder is delivered, in milliseconds
+ * @returns the reminder, or why it could not be created
+ */
+export async function createReminder(details: Omit<Reminder, 'id' | 'createdAt'>, delay: number): Promise<CreateResult<Reminder>> {
+    const locale = details.locale || defaultLocale;
+    const fail = (error: string) => ({ created: null, nextRunAt: null, error });
+
+    if (delay < MIN_REMINDER_MS || delay > MAX_REMINDER_MS) {
+        return fail(t(locale, 'remind.errors.range', { min: formatDuration(MIN_REMINDER_MS), max: formatDuration(MAX_REMINDER_MS) }));
+    }
+    if (!details.message || details.message.length > MAX_REMINDER_LENGTH) {
+        return fail(t(locale, 'remind.errors.length', { max: MAX_REMINDER_LENGTH }));
+    }
+    if ((await listReminders(details.userId)).length >= MAX_REMINDERS_PER_USER) {
+        return fail(t(locale, 'remind.errors.limit', { max: MAX_REMINDERS_PER_USER }));
+    }
+
+    const reminder: Reminder = { ...details, id: generateShortId(ID_LENGTH), createdAt: new Date() };
+    const nextRunAt = new Date(Date.now() + delay);
+    if (!await scheduleJob(REMINDER_JOB, nextRunAt, reminder)) {
+        return fail(t(locale, 'remind.errors.unavailable'));
+    }
+    return { created: reminder, nextRunAt, error: null };
+}
+
+/**
+ * @param userId the user to list the reminders of
+ * @returns the user's pending reminders, soonest first
+ */
+export async function listReminders(userId: string): Promise<Array<{ reminder: Reminder, nextRunAt: Date | null }>> {
+    return (await findPendingJobs(REMINDER_JOB, { userId }))
+        .map((pending) => ({ reminder: pending.data as Reminder, nextRunAt: pending.nextRunAt }));
+}
+
+/**
+ * @param userId the user the reminder belongs to
+ * @param id the id of the reminder
+ * @returns whether the reminder existed
+ */
+export async function deleteReminder(userId: string, id: string): Promise<boolean> {
+    return await cancelJobs(REMINDER_JOB, { userId, id: id.toUpperCase() }) > 0;
+}
+
+/**
+ * Function to create a recurring message, enforcing the per-guild limits
+ * @param details where the message is posted, how often and what it says
+ * @param locale the locale to give the reason it could not be created in [optional]
+ * @returns the scheduled message, or why it could not be created
+ */
+export async function createScheduledMessage(details: Omit<ScheduledMessage, 'id'>, locale: string = defaultLocale): Promise<CreateResult<ScheduledMessage>> {
+    const fail = (error: string) => ({ created: null, nextRunAt: null, error });
+
+    // Short durations such as "1d" are spelled out, as Agenda only reads the long form
+    const duration = parseDuration(details.interval);
+    const repeatInterval = duration !== null ? `${Math.round(duration / 1000)} seconds` : details.interval;
+
+    const runs = previewInterval(repeatInterval);
+    if (!runs) {
+        return fail(t(locale, 'schedule.errors.interval', { interval: details.interval }));
+    }
+    if (runs[1].getTime() - runs[0].getTime() < MIN_SCHEDULE_INTERVAL_MS) {
+        return fail(t(locale, 'schedule.errors.frequency', { min: formatDuration(MIN_SCHEDULE_INTERVAL_MS) }));
+    }
+    if (!details.content || details.content.length > MAX_SCHEDULED_MESSAGE_LENGTH) {
+        return fail(t(locale, 'schedule.errors.length', { max: MAX_SCHEDULED_MESSAGE_LENGTH }));
+    }
+    if ((await listScheduledMessages(details.guildId)).length >= MAX_SCHEDULED_MESSAGES_PER_GUILD) {
+        return fail(t(locale, 'schedule.errors.limit', { max: MAX_SCHEDULED_MESSAGES_PER_GUILD }));
+    }
+
+    const scheduledMessage: ScheduledMessage = { ...details, id: generateShortId(ID_LENGTH) };
+    if (!await scheduleRecurringJob(SCHEDULED_MESSAGE_JOB, repeatInterval, scheduledMessage)) {
+        return fail(t(locale, 'schedule.errors.unavailable'));
+    }
+    return { created: scheduledMessage, nextRunAt: runs[0], error: null };
+}
+
+/**
+ * @param guildId the guild to list the scheduled messages of
+ * @returns the guild's scheduled messages, soonest first
+ */
+export async function listScheduledMessages(guildId: string): Promise<Array<{ scheduledMessage: ScheduledMessage, nextRunAt: Date | null }>> {
+    return (await findPendingJobs(SCHEDULED_MESSAGE_JOB, { guildId }))
+        .map((pending) => ({ scheduledMessage: pending.data as ScheduledMessage, nextRunAt: pending.nextRunAt }));
+}
+
+/**
+ * @param guildId the guild the scheduled message belongs to
+ * @param id the id of the scheduled message
+ * @returns whether the scheduled message existed
+ */
+export async function deleteScheduledMessage(guildId: string, id: string): Promise<boolean> {
+    return await cancelJobs(SCHEDULED_MESSAGE_JOB, { guildId, id: id.toUpperCase() }) > 0;
+}
+
+/**
+ * Delivers a reminder, falling back to the channel it was set in when DMs are closed
+ * @param client the client instance
+ * @param reminder the reminder to deliver
+ */
+export async function deliverReminder(client: CustomClient, reminder: Reminder) {
+    const locale = reminder.locale || defaultLocale;
+    const setAt = t(locale, 'remind.setAtValue', { time: `<t:${Math.floor(new Date(reminder.createdAt).getTime() / 1000)}:R>`, channel: reminder.channelId });
+    const embed = applyEmbedStructure(new EmbedBuilder()
+        .setAuthor({ name: t(locale, 'remind.delivered') })
+        .setDescription(reminder.message)
+        .addFields({ name: t(locale, 'remind.setAt'), value: setAt }), "", false, locale);
+
+    if (reminder.delivery === 'dm') {
+        try {
+            const user = await client.users.fetch(reminder.userId);
+            await user.send({ embeds: [embed] });
+            return;
+        } catch (error) {
+            log.debug('Could not DM reminder, falling back to its channel', { reminderId: reminder.id, error });
+        }
+    }
+
+    // Sent from the shard holding the guild, as this one may not be able to fetch the channel
+    const result = await sendToChannel(client, reminder.channelId, {
+        content: `<@${reminder.userId}>`,
+        embeds: [embed.toJSON()],
+        allowedMentions: { users: [reminder.userId] },
+    }, reminder.guildId);
+    if (!result.sent) {
+        throw new Error(`Reminder ${reminder.id} could not be delivered to its channel: ${result.error}`);
+    }
+}
+
+/**
+ * Posts a scheduled message from the shard holding its guild,
+ * cancelling it only once Discord reports its channel as deleted
+ *
+ * @param client the client instance
+ * @param scheduledMessage the scheduled message to post
+ */
+export async function deliverScheduledMessage(client: CustomClient, scheduledMessage: ScheduledMessage) {
+    const message = scheduledMessage.embed
+        ? { embeds: [applyEmbedStructure(new EmbedBuilder().setDescription(scheduledMessage.content), "", false).toJSON()] }
+        : { content: scheduledMessage.content };
+
+    const result = await sendToChannel(client, scheduledMessage.channelId, message, scheduledMessage.guildId);
+    if (result.unknownChannel) {
+        log.warn('Cancelling scheduled message, its channel was deleted', { scheduledMessageId: scheduledMessage.id, guildId: scheduledMessage.guildId });
+        await deleteScheduledMessage(scheduledMessage.guildId, scheduledMessage.id);
+        return;
+    }
+    if (!result.sent) {
+        throw new Error(`Scheduled message ${scheduledMessage.id} could not be posted: ${result.error}`);
+    }
+}
@@ -0,0 +1,114 @@
+import { APIApplicationCommand, REST, Routes } from 'discord.js';
+import {
+    CommandBody,
+    describeSyncPlan,
+    planSync,
+    RemoteCommands,
+    ScopePlan,
+    scopeHasChanges,
+    SyncPlan
+} from '../helpers/sync';
+import { ApplicationCommandBuilder } from '../helpers/command';
+import { CustomClient } from '../index';
+import { getConfig } from '../config';
+import { logger } from '../helpers/logger';
+import { setReady } from '../helpers/metrics';
+import { isPrimaryShard } from '../helpers/shards';
+
+const log = logger.child('commandSync');
+
+/**
+ * Fetches the commands registered globally and in each guild.
+ * Guilds whose commands cannot be fetched are left out, so they are never planned against.
+ *
+ * @param rest the REST manager to make requests with
+ * @param applicationId the id of the application
+ * @param guildIds the guilds to fetch commands for
+ * @returns the registered commands
+ */
+export async function fetchRemoteCommands(rest: REST, applicationId: string, guildIds: string[]): Promise<RemoteCommands> {
+    const global = await rest.get(Routes.applicationCommands(applicationId)) as APIApplicationCommand[];
+    const guilds: RemoteCommands['guilds'] = {};
+
+    const guildResults = await Promise.allSettled(guildIds.map(async (guildId) => {
+        guilds[guildId] = await rest.get(Routes.applicationGuildCommands(applicationId, guildId)) as APIApplicationCommand[];
+    }));
+    guildResults.forEach((result, index) => {
+        if (result.status === 'rejected') {
+            log.warn('Failed to fetch commands for guild', { guildId: guildIds[index], error: result.reason });
+        }
+    });
+
+    return { global, guilds };
+}
+
+/**
+ * Applies a sync plan, overwriting each scope that has changes with a single bulk request
+ * @param rest the REST manager to make requests with
+ * @param applicationId the id of the application
+ * @param plan the plan to apply
+ * @returns the scopes that were updated and those that failed
+ */
+export async function applySyncPlan(rest: REST, applicationId: string, plan: SyncPlan): Promise<{ updated: ScopePlan[], failed: ScopePlan[] }> {
+    const updated: ScopePlan[] = [];
+    const failed: ScopePlan[] = [];
+
+    const scopePlans = [plan.global, ...plan.guilds].filter(scopeHasChanges);
+    await Promise.all(scopePlans.map(async (scopePlan) => {
+        const route = scopePlan.guildId
+            ? Routes.applicationGuildCommands(applicationId, scopePlan.guildId)
+            : Routes.applicationCommands(applicationId);
+
+        try {
+            await rest.put(route, { body: scopePlan.commands });
+            updated.push(scopePlan);
+        } catch (error) {
+            log.error(`Failed to update ${scopePlan.guildId ? 'guild' : 'global'} commands`, { guildId: scopePlan.guildId, error });
+            failed.push(scopePlan);
+        }
+    }));
+
+    return { updated, failed };
+}
+
+/**
+ * Key logic to sync application commands with Discord [only where they need to be updated].
+ * @param clientInstance the client instance
+ * @param slashCommands the builders of the commands to sync
+ * @param scope the keys of the commands to sync, or every command if omitted
+ */
+export async function syncApplicationCommands(clientInstance: CustomClient, slashCommands: ApplicationCommandBuilder[], scope?: string[]) {
+    if (!clientInstance.application) {
+        log.error('Client application is unavailable.');
+        return;
+    }
+
+    try {
+        const applicationId = clientInstance.application.id;
+        const remote = await fetchRemoteCommands(clientInstance.rest, applicationId, Array.from(clientInstance.guilds.cache.keys()));
+
+        const local: CommandBody[] = slashCommands.map((slashCommand) => slashCommand.toJSON());
+        const plan = planSync(local, remote, { global: getConfig().slashGlobal || false, scope });
+
+        // Each shard syncs the guilds it holds, while the global commands are left to the first
+        if (!isPrimaryShard(clientInstance)) {
+            plan.global = { ...plan.global, add: [], edit: [], delete: [] };
+        }
+        const { updated, failed } = await applySyncPlan(clientInstance.rest, applicationId, plan);
+        // Commands are only in sync once every scope updated, and only a full sync can confirm that
+        if (!scope || failed.length > 0) setReady('commandSync', failed.length === 0);
+
+        if (updated.length === 0 && failed.length === 0) {
+            log.info('No changes detected in application commands.');
+            return;
+        }
+
+        log.info(`Updated ${updated.length} scopes:\n${describeSyncPlan(plan, false)}`);
+        if (failed.length > 0) {
+            log.warn(`Failed to update ${failed.length} scopes. Check logs for details.`);
+        }
+    } catch (error) {
+        setReady('commandSync', false);
+        log.error('Error syncing application commands', { error });
+    }
+}
@@ -0,0 +1,105 @@
+import { CommandInteraction, Message } from 'discord.js';
+import { AccessRules, GuildSettings } from '../handlers/guildSettings';
+import { Command } from '../handlers/command';
+import { defaultLocale, t } from './i18n';
+
+// Commands in this category can never be disabled, so admins cannot lock themselves out.
+export const PROTECTED_CATEGORY = 'settings';
+
+// Where a command is being invoked from.
+export interface AccessContext {
+    channelId: string | null;
+    roleIds: string[];
+}
+
+// The outcome of checking one dimension [channels or roles] of a set of rules.
+type RuleResult = 'allowed' | 'denied' | 'unset';
+
+/**
+ * Simple function to build the access context of an interaction
+ * @param interaction the message or interaction to build the context for
+ * @returns the channel and roles of the invoker
+ */
+export function accessContext(interaction: Message | CommandInteraction): AccessContext {
+    const member = interaction.member;
+
+    // Slash interactions may only carry the raw API member, which lists role ids directly
+    let roleIds: string[] = [];
+    if (member) {
+        roleIds = Array.isArray(member.roles) ? member.roles : Array.from(member.roles.cache.keys());
+    }
+
+    return { channelId: interaction.channelId, roleIds };
+}
+
+/**
+ * Function to check one dimension of a set of access rules.
+ * An explicit deny wins over an explicit allow, and a non-empty allow list
+ * denies anything it does not contain.
+ *
+ * @param allowed the allowed ids
+ * @param denied the denied ids
+ * @param held the ids held by the invoker
+ * @returns whether the rules allow, deny or say nothing about the invoker
+ */
+function checkRule(allowed: string[], denied: string[], held: string[]): RuleResult {
+    if (held.some(id => denied.includes(id))) return 'denied';
+    if (held.some(id => allowed.includes(id))) return 'allowed';
+    return allowed.length > 0 ? 'denied' : 'unset';
+}
+
+/**
+ * Function to check a dimension against command rules, then category rules.
+ * Command rules are more specific, so they are only deferred when they are unset.
+ *
+ * @param commandRules the rules set for the command
+ * @param categoryRules the rules set for the command's category
+ * @param dimension the dimension to check
+ * @param held the ids held by the invoker in that dimension
+ * @returns whether the invoker is allowed
+ */
+function checkDimension(
+    commandRules: AccessRules | undefined,
+    categoryRules: AccessRules | undefined,
+    dimension: 'Channels' | 'Roles',
+    held: string[]
+): boolean {
+    for (const rules of [commandRules, categoryRules]) {
+        if (!rules) continue;
+
+        const result = checkRule(rules[`allowed${dimension}`], rules[`denied${dimension}`], held);
+        if (result !== 'unset') return result === 'allowed';
+    }
+    return true;
+}
+
+/**
+ * Function to check whether a command can be used in the given context.
+ * @param command the command being invoked
+ * @param settings the guild's settings
+ * @param context where the command is being invoked from
+ * @param locale the locale to give the reason in [optional]
+ * @returns the reason the command cannot be used, or null if it can
+ */
+export function checkCommandAccess(command: Command, settings: GuildSettings, context: AccessContext, locale: string = defaultLocale): string | null {
+    if (command.category === PROTECTED_CATEGORY) return null;
+
+    if (settings.disabledCommands.includes(command.name)) {
+        return t(locale, 'access.commandDisabled', { command: command.name });
+    }
+    if (settings.disabledCategories.includes(command.category)) {
+        return t(locale, 'access.categoryDisabled', { category: command.category });
+    }
+
+    const commandRules = settings.commandOverrides[command.name];
+    const categoryRules = settings.categoryOverrides[command.category];
+
+    if (!checkDimension(commandRules, categoryRules, 'Channels', context.channelId ? [context.channelId] : [])) {
+        return t(locale, 'access.channelDenied', { command: command.name });
+    }
+    if (!checkDimension(commandRules, categoryRules, 'Roles', context.roleIds)) {
+        return t(locale, 'access.roleDenied', { command: command.name });
+    }
+
+    return null;
+}
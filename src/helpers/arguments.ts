@@ -0,0 +1,288 @@
+import {
+    Attachment,
+    ChannelType,
+    ChatInputCommandInteraction,
+    CommandInteractionOption,
+    ContextMenuCommandInteraction,
+    EmbedBuilder,
+    GuildBasedChannel,
+    Message,
+    Role,
+    User
+} from 'discord.js';
+
+import { Command } from '../handlers/command';
+import { OptionObject } from './command';
+import { errorEmbed, findUser } from './functions';
+import { defaultLocale, t } from './i18n';
+import { CustomClient } from '../index';
+
+// The values an option can resolve to, for both text and slash commands.
+export type OptionValue =
+    | string
+    | number
+    | boolean
+    | User
+    | Role
+    | Attachment
+    | Message
+    | GuildBasedChannel
+    | NonNullable<CommandInteractionOption['channel']>
+    | NonNullable<CommandInteractionOption['role']>;
+
+// The typed data passed to a command, keyed by option name.
+export type OptionData = { [optionName: string]: OptionValue | null };
+
+// The result of parsing a message's arguments.
+export interface ParseResult {
+    data: OptionData;
+    error: string | null;
+}
+
+const booleanValues: { [value: string]: boolean } = {
+    true: true, yes: true, y: true, on: true, enable: true, enabled: true, '1': true,
+    false: false, no: false, n: false, off: false, disable: false, disabled: false, '0': false,
+};
+
+/**
+ * Function to split text into arguments, keeping quoted sections together.
+ * Both single and double quotes are supported, and quotes can be escaped.
+ *
+ * @param text the text to split
+ * @returns the arguments
+ */
+export function tokenise(text: string): string[] {
+    const tokens: string[] = [];
+    const tokenRegex = /"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|(\S+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(text)) !== null) {
+        const quoted = match[1] ?? match[2];
+        tokens.push(quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : match[3]);
+    }
+
+    return tokens;
+}
+
+/**
+ * Function to flatten a command's declared options into their type and details
+ * @param command the command to read the options of
+ * @returns the options, in declaration order
+ */
+export function commandOptions(command: Command): Array<{ type: string, details: OptionObject }> {
+    return (command.options || []).map(option => {
+        const [type, details] = Object.entries(option)[0];
+        return { type: type.toLowerCase(), details };
+    });
+}
+
+/**
+ * Function to resolve a single text argument into the value of an option.
+ * @param type the option type
+ * @param token the argument to resolve
+ * @param message the message the argument came from
+ * @param client the bot client
+ * @returns the resolved value, or null if the argument does not fit the type
+ */
+async function resolveArgument(type: string, token: string, message: Message, client: CustomClient): Promise<OptionValue | null> {
+    const guild = message.guild;
+    const lowered = token.toLowerCase();
+
+    switch (type) {
+        case 'string':
+            return token;
+        case 'integer':
+            return /^[-+]?\d+$/.test(token) ? parseInt(token, 10) : null;
+        case 'number': {
+            const value = Number(token);
+            return token.trim() !== '' && Number.isFinite(value) ? value : null;
+        }
+        case 'boolean':
+            return lowered in booleanValues ? booleanValues[lowered] : null;
+        case 'user':
+            return (await findUser(message, client, token)) || null;
+        case 'channel': {
+            const id = /^<#(\d+)>$/.exec(token)?.[1] || token;
+            const name = lowered.replace(/^#/, '');
+            return guild?.channels.cache.get(id)
+                || guild?.channels.cache.find(channel => channel.name.toLowerCase() === name)
+                || null;
+        }
+        case 'role': {
+            const id = /^<@&(\d+)>$/.exec(token)?.[1] || token;
+            const name = lowered.replace(/^@/, '');
+            return guild?.roles.cache.get(id)
+                || guild?.roles.cache.find(role => role.name.toLowerCase() === name)
+                || null;
+        }
+        case 'mentionable':
+            return (await resolveArgument('user', token, message, client))
+                || (await resolveArgument('role', token, message, client));
+        default:
+            return null;
+    }
+}
+
+/**
+ * Function to apply an option's declared constraints to a resolved text argument,
+ * matching Discord's own enforcement of them for slash commands.
+ * Choices may be given by either their name or their value.
+ *
+ * @param details the details of the option
+ * @param value the resolved value
+ * @param locale the locale to describe a rejection in
+ * @returns the constrained value, and the reason it was rejected if it was
+ */
+function applyConstraints(details: OptionObject, value: OptionValue, locale: string): { value: OptionValue, error: string | null } {
+    const option = details.name;
+
+    if (details.choices) {
+        const lowered = String(value).toLowerCase();
+        const choice = details.choices.find(choice =>
+            String(choice.value).toLowerCase() === lowered || choice.name.toLowerCase() === lowered
+        );
+        if (!choice) {
+            const choices = details.choices.map(choice => `\`${choice.value}\``).join(', ');
+            return { value, error: t(locale, 'arguments.invalidChoice', { value: String(value), option, choices }) };
+        }
+        value = choice.value;
+    }
+
+    if (typeof value === 'number') {
+        if (details.minValue !== undefined && value < details.minValue) return { value, error: t(locale, 'arguments.minValue', { option, min: details.minValue }) };
+        if (details.maxValue !== undefined && value > details.maxValue) return { value, error: t(locale, 'arguments.maxValue', { option, max: details.maxValue }) };
+    }
+
+    if (typeof value === 'string') {
+        if (details.minLength !== undefined && value.length < details.minLength) return { value, error: t(locale, 'arguments.minLength', { option, count: details.minLength }) };
+        if (details.maxLength !== undefined && value.length > details.maxLength) return { value, error: t(locale, 'arguments.maxLength', { option, count: details.maxLength }) };
+    }
+
+    if (details.channelTypes && typeof value === 'object' && 'type' in value && !details.channelTypes.includes(value.type as number)) {
+        const types = details.channelTypes.map(type => ChannelType[type]).join(t(locale, 'arguments.or'));
+        return { value, error: t(locale, 'arguments.channelType', { option, types }) };
+    }
+
+    return { value, error: null };
+}
+
+/**
+ * Function to parse a text command's arguments using its declared options.
+ * Arguments are matched to options in order; the last string option takes
+ * the remaining text, optional options are skipped when an argument does
+ * not fit them, and attachments are taken from the message itself.
+ * Declared constraints such as choices and ranges are then enforced.
+ *
+ * @param message the message invoking the command
+ * @param command the command being invoked
+ * @param client the bot client
+ * @param locale the locale to describe a failure in [optional]
+ * @returns the parsed option data, and the reason parsing failed if it did
+ */
+export async function parseTextOptions(message: Message, command: Command, client: CustomClient, locale: string = defaultLocale): Promise<ParseResult> {
+    const options = commandOptions(command);
+    const tokens = tokenise(message.content).slice(1);
+    const attachments = Array.from(message.attachments.values());
+    const data: OptionData = {};
+
+    // The final positional option takes the remaining text if it is a string
+    const positional = options.filter(option => option.type !== 'attachment');
+    const greedyOption = positional[positional.length - 1]?.type === 'string' ? positional[positional.length - 1] : null;
+
+    for (const option of options) {
+        const { type, details } = option;
+        data[details.name] = null;
+
+        if (type === 'attachment') {
+            data[details.name] = attachments.shift() || null;
+        } else if (tokens.length > 0) {
+            const greedy = option === greedyOption;
+            const value = greedy ? tokens.join(' ') : await resolveArgument(type, tokens[0], message, client);
+
+            if (value !== null) {
+                const constrained = applyConstraints(details, value, locale);
+                if (constrained.error) return { data, error: constrained.error };
+
+                tokens.splice(0, greedy ? tokens.length : 1);
+                data[details.name] = constrained.value;
+            } else if (details.required) {
+                const typeName = t(locale, `arguments.types.${type}`);
+                return { data, error: t(locale, 'arguments.invalidValue', { value: tokens[0], type: typeName, option: details.name }) };
+            }
+        }
+
+        if (data[details.name] === null && details.required) {
+            return { data, error: t(locale, 'arguments.missing', { option: details.name }) };
+        }
+    }
+
+    return { data, error: null };
+}
+
+/**
+ * Function to read a slash command's declared options into the same
+ * structure produced for text commands by parseTextOptions.
+ *
+ * @param interaction the interaction invoking the command
+ * @param command the command being invoked
+ * @returns the option data
+ */
+export function parseSlashOptions(interaction: ChatInputCommandInteraction, command: Command): OptionData {
+    const data: OptionData = {};
+
+    for (const { type, details } of commandOptions(command)) {
+        const option = interaction.options.get(details.name);
+
+        const valueMapping: { [type: string]: OptionValue | null | undefined } = {
+            user: option?.user,
+            channel: option?.channel,
+            role: option?.role,
+            mentionable: option?.user || option?.role,
+            attachment: option?.attachment,
+        };
+        data[details.name] = (type in valueMapping ? valueMapping[type] : option?.value) ?? null;
+    }
+
+    return data;
+}
+
+/**
+ * Function to build the option data for a context menu invocation.
+ * The target is exposed as targetUser or targetMessage, and a target user
+ * also fills the command's first user or mentionable option, so commands
+ * can treat a right-click like the user being given as an argument.
+ *
+ * @param interaction the interaction invoking the command
+ * @param command the command being invoked
+ * @returns the option data
+ */
+export function parseContextMenuOptions(interaction: ContextMenuCommandInteraction, command: Command): OptionData {
+    const options = commandOptions(command);
+    const data: OptionData = Object.fromEntries(options.map(({ details }) => [details.name, null]));
+
+    if (interaction.isUserContextMenuCommand()) {
+        const userOption = options.find(({ type }) => type === 'user' || type === 'mentionable');
+        if (userOption) data[userOption.details.name] = interaction.targetUser;
+        data.targetUser = interaction.targetUser;
+    } else if (interaction.isMessageContextMenuCommand()) {
+        data.targetMessage = interaction.targetMessage;
+    }
+
+    return data;
+}
+
+/**
+ * A function to generate an error embed describing
+ * how a command should be used
+ *
+ * @param command the command that was misused
+ * @param prefix the prefix of the bot
+ * @param reason why the command's input was rejected
+ * @param locale the locale to respond in [optional]
+ * @returns an embed with the reason and the command's usage
+ */
+export function usageEmbed(command: Command, prefix: string, reason: string, locale: string = defaultLocale): EmbedBuilder {
+    const usage = t(locale, 'embeds.usage', { usage: `${prefix}${command.usage || command.name}` });
+    return errorEmbed(`${reason}\n${usage}`, prefix, { locale })
+        .setFields({ name: t(locale, 'embeds.syntaxName'), value: t(locale, 'embeds.syntax') });
+}
@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { BSON, Db as DbConnection, Document } from 'mongodb';
+
+// A collection stored in a backup, with what is needed to verify it.
+export interface BackupEntry {
+    name: string;
+    file: string;
+    documents: number;
+    bytes: number;
+    sha256: string;
+}
+
+// Describes a backup, stored alongside its collections.
+export interface BackupManifest {
+    id: string;
+    createdAt: string;
+    database: string;
+    collections: BackupEntry[];
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+// Documents are inserted in batches of this size when restoring.
+const RESTORE_BATCH_SIZE = 1000;
+
+/**
+ * @param date when the backup was taken
+ * @returns a backup id, which sorts in the order backups were taken
+ */
+export function generateBackupId(date: Date = new Date()): string {
+    return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Simple function to check an id is safe to use as a file or object name
+ * @param id the id to check
+ * @returns whether the id could belong to a backup
+ */
+export function isBackupId(id: string): boolean {
+    return /^[\w-]+$/.test(id);
+}
+
+/**
+ * @param filePath the file to hash
+ * @returns the sha256 of the file, in hex
+ */
+export async function hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Exports a collection as gzipped EJSON, one document per line.
+ * Documents are streamed from the cursor, so the collection is never held in memory.
+ *
+ * @param db the database to export from
+ * @param name the collection to export
+ * @param directory the directory to write the export to
+ * @returns the entry describing the export
+ */
+export async function exportCollection(db: DbConnection, name: string, directory: string): Promise<BackupEntry> {
+    const file = `${name}.ejson.gz`;
+    const filePath = path.join(directory, file);
+    const cursor = db.collection(name).find({});
+    let documents = 0;
+
+    await pipeline(
+        async function* () {
+            for await (const document of cursor) {
+                documents++;
+                yield BSON.EJSON.stringify(document, { relaxed: false }) + '\n';
+            }
+        },
+        createGzip(),
+        createWriteStream(filePath),
+    );
+
+    const { size } = await fs.stat(filePath);
+    return { name, file, documents, bytes: size, sha256: await hashFile(filePath) };
+}
+
+/**
+ * Imports an export made by exportCollection, in batches
+ * @param db the database to import into
+ * @param name the collection to import into
+ * @param filePath the export to import
+ * @returns the number of documents imported
+ */
+export async function importCollection(db: DbConnection, name: string, filePath: string): Promise<number> {
+    const collection = db.collection(name);
+    const lines = readline.createInterface({ input: createReadStream(filePath).pipe(createGunzip()), crlfDelay: Infinity });
+
+    let batch: Document[] = [];
+    let imported = 0;
+    const insertBatch = async () => {
+        if (batch.length === 0) return;
+        await collection.insertMany(batch, { ordered: false });
+        imported += batch.length;
+        batch = [];
+    };
+
+    for await (const line of lines) {
+        if (!line) continue;
+        batch.push(BSON.EJSON.parse(line, { relaxed: false }));
+        if (batch.length >= RESTORE_BATCH_SIZE) await insertBatch();
+    }
+    await insertBatch();
+
+    return imported;
+}
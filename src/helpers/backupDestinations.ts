@@ -0,0 +1,260 @@
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { APIMessage, REST, Routes } from 'discord.js';
+import { MANIFEST_FILE } from './backup';
+
+// Where backups are sent, as configured.
+export type BackupDestinationConfig =
+    | { type: 'local', directory: string, keep?: number }
+    | { type: 's3', endpoint: string, region: string, bucket: string, prefix?: string, accessKeyId: string, secretAccessKey: string, keep?: number }
+    | { type: 'discord', channelId: string };
+
+// The backup section of the config.
+export interface BackupConfig {
+    schedule?: string;
+    collections?: string[];
+    destinations?: BackupDestinationConfig[];
+}
+
+// A file belonging to a backup.
+export interface BackupFile {
+    name: string;
+    path: string;
+}
+
+// Somewhere backups can be stored and fetched back from.
+export interface BackupDestination {
+    readonly name: string;
+    // Files are uploaded in order, so the manifest should come last
+    upload(backupId: string, files: BackupFile[]): Promise<void>;
+    // Ids of the stored backups, newest first
+    list(): Promise<string[]>;
+    download(backupId: string, fileName: string, targetPath: string): Promise<void>;
+    // Removes backups beyond the destination's retention, returning their ids
+    prune(): Promise<string[]>;
+}
+
+// Backups kept by destinations with retention, unless configured otherwise.
+const DEFAULT_KEEP = 14;
+
+/**
+ * Stores backups in a directory on disk, one subdirectory per backup.
+ */
+class LocalDestination implements BackupDestination {
+    readonly name = 'local';
+
+    constructor(private readonly directory: string, private readonly keep: number) { }
+
+    async upload(backupId: string, files: BackupFile[]) {
+        const target = path.join(this.directory, backupId);
+        await fs.mkdir(target, { recursive: true });
+        for (const file of files) {
+            await fs.copyFile(file.path, path.join(target, file.name));
+        }
+    }
+
+    async list(): Promise<string[]> {
+        const entries = await fs.readdir(this.directory, { withFileTypes: true }).catch(() => []);
+        const ids: string[] = [];
+        for (const entry of entries) {
+            // Backups interrupted before their manifest was copied are incomplete
+            const complete = await fs.access(path.join(this.directory, entry.name, MANIFEST_FILE)).then(() => true, () => false);
+            if (entry.isDirectory() && complete) ids.push(entry.name);
+        }
+        return ids.sort().reverse();
+    }
+
+    async download(backupId: string, fileName: string, targetPath: string) {
+        await fs.copyFile(path.join(this.directory, backupId, fileName), targetPath);
+    }
+
+    async prune(): Promise<string[]> {
+        const expired = (await this.list()).slice(this.keep);
+        for (const id of expired) {
+            await fs.rm(path.join(this.directory, id), { recursive: true, force: true });
+        }
+        return expired;
+    }
+}
+
+/**
+ * Simple function to percent-encode a value as AWS signatures expect
+ * @param value the value to encode
+ * @returns the encoded value
+ */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Stores backups in an S3 compatible bucket, one prefix per backup.
+ * Requests use path-style addressing and are signed with AWS Signature Version 4.
+ */
+class S3Destination implements BackupDestination {
+    readonly name = 's3';
+
+    constructor(private readonly options: Extract<BackupDestinationConfig, { type: 's3' }>) { }
+
+    private key(...parts: string[]): string {
+        return [this.options.prefix, ...parts].filter(Boolean).join('/');
+    }
+
+    private async request(method: string, key: string, query: { [name: string]: string } = {}, body?: Buffer): Promise<Response> {
+        const url = new URL(this.options.endpoint);
+        url.pathname = '/' + [this.options.bucket, ...(key ? key.split('/') : [])].map(encodeRfc3986).join('/');
+
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const date = amzDate.slice(0, 8);
+        const scope = `${date}/${this.options.region}/s3/aws4_request`;
+        const payloadHash = createHash('sha256').update(body || '').digest('hex');
+
+        const canonicalQuery = Object.keys(query).sort()
+            .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&');
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            canonicalQuery,
+            `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+            'host;x-amz-content-sha256;x-amz-date',
+            payloadHash,
+        ].join('\n');
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+
+        let signingKey: Buffer = Buffer.from(`AWS4${this.options.secretAccessKey}`);
+        for (const part of [date, this.options.region, 's3', 'aws4_request']) {
+            signingKey = createHmac('sha256', signingKey).update(part).digest();
+        }
+        const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        const response = await fetch(`${url.origin}${url.pathname}${canonicalQuery ? `?${canonicalQuery}` : ''}`, {
+            method,
+            body: body ? new Uint8Array(body) : undefined,
+            headers: {
+                'x-amz-content-sha256': payloadHash,
+                'x-amz-date': amzDate,
+                'Authorization': `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=${signature}`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`S3 ${method} ${key || this.options.bucket} failed with status ${response.status}: ${(await response.text()).slice(0, 200)}`);
+        }
+        return response;
+    }
+
+    private async listObjects(prefix: string, delimiter?: string): Promise<{ keys: string[], prefixes: string[] }> {
+        const keys: string[] = [];
+        const prefixes: string[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const query: { [name: string]: string } = { 'list-type': '2', prefix, ...(delimiter ? { delimiter } : {}) };
+            if (continuationToken) query['continuation-token'] = continuationToken;
+
+            const xml = await (await this.request('GET', '', query)).text();
+            keys.push(...Array.from(xml.matchAll(/<Key>([^<]+)<\/Key>/g), (match) => match[1]));
+            prefixes.push(...Array.from(xml.matchAll(/<CommonPrefixes>\s*<Prefix>([^<]+)<\/Prefix>/g), (match) => match[1]));
+            continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml) ? xml.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)?.[1] : undefined;
+        } while (continuationToken);
+
+        return { keys, prefixes };
+    }
+
+    async upload(backupId: string, files: BackupFile[]) {
+        for (const file of files) {
+            await this.request('PUT', this.key(backupId, file.name), {}, await fs.readFile(file.path));
+        }
+    }
+
+    async list(): Promise<string[]> {
+        const { prefixes } = await this.listObjects(this.options.prefix ? `${this.options.prefix}/` : '', '/');
+        return prefixes.map((prefix) => prefix.split('/').filter(Boolean).pop()!).sort().reverse();
+    }
+
+    async download(backupId: string, fileName: string, targetPath: string) {
+        const response = await this.request('GET', this.key(backupId, fileName));
+        await fs.writeFile(targetPath, Buffer.from(await response.arrayBuffer()));
+    }
+
+    async prune(): Promise<string[]> {
+        const expired = (await this.list()).slice(this.options.keep ?? DEFAULT_KEEP);
+        for (const id of expired) {
+            const { keys } = await this.listObjects(`${this.key(id)}/`);
+            for (const key of keys) {
+                await this.request('DELETE', key);
+            }
+        }
+        return expired;
+    }
+}
+
+// Discord allows up to ten attachments per message.
+const ATTACHMENTS_PER_MESSAGE = 10;
+
+/**
+ * Sends backups to a Discord channel as attachments.
+ * Only the last hundred messages are searched when listing or downloading,
+ * and old backups are left in the channel's history.
+ */
+class DiscordDestination implements BackupDestination {
+    readonly name = 'discord';
+
+    constructor(private readonly rest: REST, private readonly channelId: string) { }
+
+    private async recentMessages(): Promise<APIMessage[]> {
+        return await this.rest.get(Routes.channelMessages(this.channelId), { query: new URLSearchParams({ limit: '100' }) }) as APIMessage[];
+    }
+
+    async upload(backupId: string, files: BackupFile[]) {
+        const parts = Math.ceil(files.length / ATTACHMENTS_PER_MESSAGE);
+        for (let i = 0; i < parts; i++) {
+            const attachments = files.slice(i * ATTACHMENTS_PER_MESSAGE, (i + 1) * ATTACHMENTS_PER_MESSAGE);
+            await this.rest.post(Routes.channelMessages(this.channelId), {
+                body: { content: `Backup \`${backupId}\`${parts > 1 ? ` [${i + 1}/${parts}]` : ''}` },
+                files: await Promise.all(attachments.map(async (file) => ({ name: file.name, data: await fs.readFile(file.path) }))),
+            });
+        }
+    }
+
+    async list(): Promise<string[]> {
+        const ids = (await this.recentMessages())
+            .map((message) => message.content.match(/^Backup `([\w-]+)`/)?.[1])
+            .filter((id): id is string => Boolean(id));
+        return Array.from(new Set(ids));
+    }
+
+    async download(backupId: string, fileName: string, targetPath: string) {
+        const attachment = (await this.recentMessages())
+            .filter((message) => message.content.startsWith(`Backup \`${backupId}\``))
+            .flatMap((message) => message.attachments)
+            .find((messageAttachment) => messageAttachment.filename === fileName);
+        if (!attachment) {
+            throw new Error(`${fileName} of backup ${backupId} was not found in the last 100 messages of the backup channel`);
+        }
+
+        const response = await fetch(attachment.url);
+        if (!response.ok) throw new Error(`Downloading ${fileName} failed with status ${response.status}`);
+        await fs.writeFile(targetPath, Buffer.from(await response.arrayBuffer()));
+    }
+
+    async prune(): Promise<string[]> {
+        return [];
+    }
+}
+
+/**
+ * @param options the configured destination
+ * @param rest a REST client, used by Discord destinations
+ * @returns the destination
+ */
+export function createDestination(options: BackupDestinationConfig, rest: REST): BackupDestination {
+    switch (options.type) {
+        case 'local':
+            return new LocalDestination(options.directory, options.keep ?? DEFAULT_KEEP);
+        case 's3':
+            return new S3Destination(options);
+        case 'discord':
+            return new DiscordDestination(rest, options.channelId);
+    }
+}
@@ -0,0 +1,99 @@
+// The bot lists stats can be posted to.
+export type BotListName = 'topgg' | 'discordbotlist' | 'discordbotsgg';
+
+// A configured bot list, with the token used to post to it.
+export interface BotListConfig {
+    name: BotListName;
+    token: string;
+    // The secret the list sends with vote webhooks [optional]
+    webhookSecret?: string;
+}
+
+// The bot-list section of the config.
+export interface BotListsConfig {
+    lists: BotListConfig[];
+    interval?: string;
+    webhook?: {
+        port: number;
+        path?: string;
+        thankChannel?: string;
+        dmVoters?: boolean;
+    };
+}
+
+// The stats posted to bot lists.
+export interface BotStats {
+    botId: string;
+    guilds: number;
+    shards: number;
+}
+
+// A vote, as received from a bot list's webhook.
+export interface Vote {
+    list: BotListName;
+    userId: string;
+    test: boolean;
+    weight: number;
+}
+
+// How stats are posted to, and votes read from, each bot list.
+interface BotListProvider {
+    statsUrl: (botId: string) => string;
+    statsBody: (stats: BotStats) => object;
+    parseVote?: (body: any) => Omit<Vote, 'list'> | null;
+}
+
+const providers: { [name in BotListName]: BotListProvider } = {
+    topgg: {
+        statsUrl: (botId) => `https://top.gg/api/bots/${botId}/stats`,
+        statsBody: (stats) => ({ server_count: stats.guilds, shard_count: stats.shards }),
+        parseVote: (body) => typeof body?.user === 'string'
+            ? { userId: body.user, test: body.type === 'test', weight: body.isWeekend ? 2 : 1 }
+            : null,
+    },
+    discordbotlist: {
+        statsUrl: (botId) => `https://discordbotlist.com/api/v1/bots/${botId}/stats`,
+        statsBody: (stats) => ({ guilds: stats.guilds }),
+        parseVote: (body) => typeof body?.id === 'string' ? { userId: body.id, test: false, weight: 1 } : null,
+    },
+    discordbotsgg: {
+        statsUrl: (botId) => `https://discord.bots.gg/api/v1/bots/${botId}/stats`,
+        statsBody: (stats) => ({ guildCount: stats.guilds, shardCount: stats.shards }),
+    },
+};
+
+export const botListNames = Object.keys(providers) as BotListName[];
+
+/**
+ * Posts stats to a bot list
+ * @param list the bot list to post to
+ * @param stats the stats to post
+ * @returns null if the stats were accepted, otherwise why they were not
+ */
+export async function postStats(list: BotListConfig, stats: BotStats): Promise<string | null> {
+    const provider = providers[list.name];
+    if (!provider) return `unknown bot list "${list.name}"`;
+
+    try {
+        const response = await fetch(provider.statsUrl(stats.botId), {
+            method: 'POST',
+            headers: { 'Authorization': list.token, 'Content-Type': 'application/json' },
+            body: JSON.stringify(provider.statsBody(stats)),
+        });
+        if (response.ok) return null;
+        return `status ${response.status}: ${(await response.text()).slice(0, 200)}`;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Reads a vote from the body of a bot list's webhook
+ * @param name the bot list the webhook came from
+ * @param body the parsed body of the webhook
+ * @returns the vote, or null if the list does not send votes or the body is not one
+ */
+export function parseVote(name: BotListName, body: unknown): Vote | null {
+    const vote = providers[name]?.parseVote?.(body);
+    return vote ? { ...vote, list: name } : null;
+}
@@ -0,0 +1,97 @@
+// How large a cache may grow and how long its entries live.
+export interface CacheOptions {
+    maxSize: number;
+    ttlMs: number;
+    // How long a lookup that found nothing is remembered, defaults to the ttl
+    negativeTtlMs?: number;
+}
+
+// What a cache has served since it was created.
+export interface CacheStats {
+    size: number;
+    maxSize: number;
+    hits: number;
+    negativeHits: number;
+    misses: number;
+    evictions: number;
+    expirations: number;
+}
+
+// A cached value, null when the lookup found nothing.
+interface CacheEntry<V> {
+    value: V | null;
+    expiresAt: number;
+}
+
+/**
+ * A size bounded cache, evicting the least recently used entry when full.
+ * Every entry expires after its ttl, and null can be cached to remember that a
+ * lookup found nothing [negative caching] without looking it up again.
+ */
+export class LRUCache<K, V> {
+    // Maps keep insertion order, so entries are re-inserted on use and the first is the least recent
+    private readonly entries: Map<K, CacheEntry<V>> = new Map();
+    private readonly counts = { hits: 0, negativeHits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+    constructor(private readonly options: CacheOptions) { }
+
+    /**
+     * @param key the key to look up
+     * @returns the cached entry, whose value is null for a cached miss, or undefined if nothing is cached
+     */
+    get(key: K): { value: V | null } | undefined {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            this.counts.expirations++;
+        } else if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+            if (entry.value === null) this.counts.negativeHits++;
+            else this.counts.hits++;
+            return { value: entry.value };
+        }
+
+        this.counts.misses++;
+        return undefined;
+    }
+
+    /**
+     * @param key the key to cache under
+     * @param value the value to cache, or null to remember that there is none
+     */
+    set(key: K, value: V | null) {
+        const ttl = value === null ? this.options.negativeTtlMs ?? this.options.ttlMs : this.options.ttlMs;
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+        while (this.entries.size > this.options.maxSize) {
+            this.entries.delete(this.entries.keys().next().value as K);
+            this.counts.evictions++;
+        }
+    }
+
+    /**
+     * @param key the key to remove
+     * @returns whether anything was cached under it
+     */
+    delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    // Removes every entry, keeping the statistics
+    clear() {
+        this.entries.clear();
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * @returns what the cache has served since it was created
+     */
+    stats(): CacheStats {
+        return { size: this.entries.size, maxSize: this.options.maxSize, ...this.counts };
+    }
+}
@@ -1,15 +1,58 @@
 import {
     ApplicationCommand,
+    ApplicationCommandType,
+    AutocompleteInteraction,
+    ChannelType,
+    ChatInputCommandInteraction,
+    ContextMenuCommandBuilder,
+    ContextMenuCommandInteraction,
+    PermissionsBitField,
     SlashCommandBuilder,
-    SlashCommandSubcommandBuilder
+    SlashCommandSubcommandBuilder,
+    SlashCommandSubcommandGroupBuilder
 } from 'discord.js';
 
-import { deepNormalise, findDifferences } from './functions';
+import { commandBodyKey } from './sync';
+import { defaultLocale, localizations, t, translateOptional, TranslationValues } from './i18n';
+import { logger } from './logger';
 import { Command } from '../handlers/command';
+import { cooldownScopes } from '../handlers/cooldowns';
+import { CustomClient } from '../index';
 
 // Define the structure of a mapping object for option types to their respective builder methods.
 export interface OptionBuilderMapping {
-    [optionType: string]: (builder: any, optionDetails: OptionObject) => void;
+    [optionType: string]: (builder: any, optionDetails: OptionObject, commandName: string) => void;
+}
+
+// Builders that options can be added to.
+type OptionHolder = SlashCommandBuilder | SlashCommandSubcommandBuilder;
+
+// Builders whose name and description can be localised.
+interface LocalizableBuilder {
+    setNameLocalizations(localizations: { [locale: string]: string }): unknown;
+    setDescriptionLocalizations(localizations: { [locale: string]: string }): unknown;
+}
+
+// Builders for every kind of application command that can be registered.
+export type ApplicationCommandBuilder = SlashCommandBuilder | ContextMenuCommandBuilder;
+
+// Define the structure of a context menu entry a command can be invoked from.
+export type ContextMenuType = 'user' | 'message';
+export interface ContextMenuObject {
+    type: ContextMenuType;
+    name: string;
+}
+
+// The application command type each context menu is registered as.
+const contextMenuTypes: { [type in ContextMenuType]: ApplicationCommandType.User | ApplicationCommandType.Message } = {
+    user: ApplicationCommandType.User,
+    message: ApplicationCommandType.Message,
+};
+
+// Define the structure of a predefined choice for an option.
+export interface OptionChoice {
+    name: string;
+    value: string | number;
 }
 
 // Define the structure of an option object in a command.
@@ -17,83 +60,266 @@ export interface OptionObject {
     name: string;
     description: string;
     required?: boolean;
+    choices?: OptionChoice[];
+    minValue?: number;
+    maxValue?: number;
+    minLength?: number;
+    maxLength?: number;
+    channelTypes?: ChannelType[];
+    autocomplete?: boolean;
+}
+
+// The option types each constraint applies to.
+const choiceTypes = ['string', 'integer', 'number'];
+const valueTypes = ['integer', 'number'];
+const lengthTypes = ['string'];
+const channelTypes = ['channel'];
+
+// Discord's limits on option constraints and command nesting.
+const MAX_CHOICES = 25;
+const MAX_STRING_LENGTH = 6000;
+const MAX_SUBCOMMANDS = 25;
+const MAX_DESCRIPTION_LENGTH = 100;
+const nameRegex = /^[-_\p{L}\p{N}]{1,32}$/u;
+
+const log = logger.child('commandLoader');
+
+/**
+ * Function to build the key a command's metadata is translated under.
+ * @param commandName the name of the command
+ * @param optionName the name of one of its options [optional]
+ * @returns the key, such as commands.help.options.command
+ */
+function commandTranslationKey(commandName: string, optionName?: string): string {
+    return optionName ? `commands.${commandName}.options.${optionName}` : `commands.${commandName}`;
+}
+
+/**
+ * Function to list the keys a command's slash metadata is translated under.
+ * Translated names are optional, so only descriptions are expected of every catalog.
+ *
+ * @param command the command to list the keys of
+ * @returns the keys of the command's description and those of its options
+ */
+export function commandTranslationKeys(command: Command): string[] {
+    const optionKeys = (command.options || []).map((option) => commandTranslationKey(command.name, Object.values(option)[0].name));
+    return [commandTranslationKey(command.name), ...optionKeys].map((key) => `${key}.description`);
+}
+
+/**
+ * @param command the command to describe
+ * @param locale the locale to describe it in
+ * @returns the command's description, translated if the locale's catalog has it
+ */
+export function commandDescription(command: Command, locale: string): string {
+    return translateOptional(locale, `${commandTranslationKey(command.name)}.description`) || command.description;
 }
 
+/**
+ * Function to find the localisations of a name or description,
+ * leaving out any Discord would reject.
+ *
+ * @param key the dotted key of the translation
+ * @param field whether the translation is a name or a description
+ * @param values the values of its placeholders [optional]
+ * @returns the valid localisations by locale
+ */
+function validLocalizations(key: string, field: 'name' | 'description', values?: TranslationValues): { [locale: string]: string } {
+    const localized = localizations(key, values);
+    for (const [locale, text] of Object.entries(localized)) {
+        const valid = field === 'name'
+            ? nameRegex.test(text) && text === text.toLowerCase()
+            : text.length > 0 && text.length <= MAX_DESCRIPTION_LENGTH;
+        if (!valid) {
+            log.warn(`The ${locale} translation of "${key}" is not a valid ${field}, skipping it`, { locale, text });
+            delete localized[locale];
+        }
+    }
+    return localized;
+}
+
+/**
+ * Function to apply the localisations of a name and description to a builder
+ * @param builder the builder to localise
+ * @param key the key the name and description are translated under
+ * @param values the values of their placeholders [optional]
+ * @returns the builder
+ */
+function localize<T extends LocalizableBuilder>(builder: T, key: string, values?: TranslationValues): T {
+    builder.setNameLocalizations(validLocalizations(`${key}.name`, 'name', values));
+    builder.setDescriptionLocalizations(validLocalizations(`${key}.description`, 'description', values));
+    return builder;
+}
 
 /**
  * Function to add an option to a subcommand builder.
+ * Constraints are only applied where the option declares them.
+ *
  * @param method the method to add the option to
  * @param details the details of the option to add
+ * @param commandName the name of the command the option belongs to
  * @returns the subcommand builder with the added option
  */
 function addOption(
-    method: (callback: (option: any) => any) => SlashCommandSubcommandBuilder,
-    details: OptionObject
-): SlashCommandSubcommandBuilder {
-    return method((option) =>
+    method: (callback: (option: any) => any) => OptionHolder,
+    details: OptionObject,
+    commandName: string
+): OptionHolder {
+    return method((option) => {
         option.setName(details.name)
             .setDescription(details.description)
-            .setRequired(details.required || false)
-    );
+            .setRequired(details.required || false);
+        localize(option, commandTranslationKey(commandName, details.name));
+
+        if (details.choices) option.addChoices(...details.choices);
+        if (details.minValue !== undefined) option.setMinValue(details.minValue);
+        if (details.maxValue !== undefined) option.setMaxValue(details.maxValue);
+        if (details.minLength !== undefined) option.setMinLength(details.minLength);
+        if (details.maxLength !== undefined) option.setMaxLength(details.maxLength);
+        if (details.channelTypes) option.addChannelTypes(...details.channelTypes);
+        if (details.autocomplete) option.setAutocomplete(true);
+        return option;
+    });
 }
 
 /**
- * Function to build an option for a subcommand.
+ * Function to build an option for a command or subcommand.
  * As defined in the command object.
  * 
  * @param optionType the type of the option
  * @param optionDetails the details of the option
- * @param subCommandBuilder the subcommand builder to add the option to
- * @returns the subcommand builder with the added option
+ * @param subCommandBuilder the command or subcommand builder to add the option to
+ * @param commandName the name of the command the option belongs to
+ * @returns the builder with the added option
  */
-function buildOption(optionType: string, optionDetails: any, subCommandBuilder: SlashCommandSubcommandBuilder) {
+function buildOption(optionType: string, optionDetails: any, subCommandBuilder: OptionHolder, commandName: string) {
     const optionBuilderMapping: OptionBuilderMapping = {
-        string: (builder, details) => addOption(builder.addStringOption.bind(builder), details),
-        integer: (builder, details) => addOption(builder.addIntegerOption.bind(builder), details),
-        boolean: (builder, details) => addOption(builder.addBooleanOption.bind(builder), details),
-        user: (builder, details) => addOption(builder.addUserOption.bind(builder), details),
-        channel: (builder, details) => addOption(builder.addChannelOption.bind(builder), details),
-        role: (builder, details) => addOption(builder.addRoleOption.bind(builder), details),
-        attachment: (builder, details) => addOption(builder.addAttachmentOption.bind(builder), details),
-        number: (builder, details) => addOption(builder.addNumberOption.bind(builder), details),
-        mentionable: (builder, details) => addOption(builder.addMentionableOption.bind(builder), details),
+        string: (builder, details) => addOption(builder.addStringOption.bind(builder), details, commandName),
+        integer: (builder, details) => addOption(builder.addIntegerOption.bind(builder), details, commandName),
+        boolean: (builder, details) => addOption(builder.addBooleanOption.bind(builder), details, commandName),
+        user: (builder, details) => addOption(builder.addUserOption.bind(builder), details, commandName),
+        channel: (builder, details) => addOption(builder.addChannelOption.bind(builder), details, commandName),
+        role: (builder, details) => addOption(builder.addRoleOption.bind(builder), details, commandName),
+        attachment: (builder, details) => addOption(builder.addAttachmentOption.bind(builder), details, commandName),
+        number: (builder, details) => addOption(builder.addNumberOption.bind(builder), details, commandName),
+        mentionable: (builder, details) => addOption(builder.addMentionableOption.bind(builder), details, commandName),
     };
 
     const builderFunction = optionBuilderMapping[optionType.toLowerCase()];
     if (!builderFunction) {
-        console.warn(`[CommandLoader] Unknown option type "${optionType}". Skipping...`);
+        log.warn(`Unknown option type "${optionType}". Skipping...`);
         return;
     }
 
-    builderFunction(subCommandBuilder, optionDetails);
+    builderFunction(subCommandBuilder, optionDetails, commandName);
 }
 
 /**
- * Function to build a subcommand for a slash command.
+ * Function to add all of a command's options to a builder.
+ * @param builder the command or subcommand builder to add the options to
  * @param commandDetails the details of the command
- * @returns the subcommand builder
  */
-function buildSubcommand(commandDetails: Command): SlashCommandSubcommandBuilder {
-    const subCommandBuilder = new SlashCommandSubcommandBuilder()
-        .setName(commandDetails.name.toLowerCase())
-        .setDescription(commandDetails.description);
-
+function buildOptions(builder: OptionHolder, commandDetails: Command) {
     if (commandDetails.options && commandDetails.options.length > 0) {
         for (const commandOption of commandDetails.options) {
             if (typeof commandOption === 'object' && Object.keys(commandOption).length === 1) {
                 const [optionType, optionDetails] = Object.entries(commandOption)[0];
-                buildOption(optionType, optionDetails, subCommandBuilder);
+                buildOption(optionType, optionDetails, builder, commandDetails.name);
             } else {
-                console.warn(`[CommandLoader] Invalid command option structure: ${JSON.stringify(commandOption)}`);
+                log.warn(`Invalid command option structure: ${JSON.stringify(commandOption)}`);
             }
         }
     }
+}
 
+/**
+ * Function to build a subcommand for a slash command.
+ * @param commandDetails the details of the command
+ * @returns the subcommand builder
+ */
+function buildSubcommand(commandDetails: Command): SlashCommandSubcommandBuilder {
+    const subCommandBuilder = new SlashCommandSubcommandBuilder()
+        .setName(commandDetails.name.toLowerCase())
+        .setDescription(commandDetails.description);
+    localize(subCommandBuilder, commandTranslationKey(commandDetails.name));
+
+    buildOptions(subCommandBuilder, commandDetails);
     return subCommandBuilder;
 }
 
+/**
+ * Function to build a command that is registered as its own top-level slash command.
+ * @param commandDetails the details of the command
+ * @returns the slash command builder
+ */
+export function buildTopLevelCommand(commandDetails: Command): SlashCommandBuilder {
+    const slashCommandBuilder = new SlashCommandBuilder()
+        .setName(commandDetails.name.toLowerCase())
+        .setDescription(commandDetails.description);
+    localize(slashCommandBuilder, commandTranslationKey(commandDetails.name));
+
+    buildOptions(slashCommandBuilder, commandDetails);
+
+    // Top-level commands can carry their own default permissions
+    const memberPermissions = sharedMemberPermissions([commandDetails]);
+    if (memberPermissions !== null) {
+        slashCommandBuilder.setDefaultMemberPermissions(memberPermissions);
+    }
+
+    return slashCommandBuilder;
+}
+
+/**
+ * Function to build a context menu entry for a command.
+ * @param commandDetails the details of the command
+ * @param contextMenu the context menu entry to build
+ * @returns the context menu command builder
+ */
+export function buildContextMenuCommand(commandDetails: Command, contextMenu: ContextMenuObject): ContextMenuCommandBuilder {
+    const contextMenuBuilder = new ContextMenuCommandBuilder()
+        .setName(contextMenu.name)
+        .setType(contextMenuTypes[contextMenu.type]);
+
+    const memberPermissions = sharedMemberPermissions([commandDetails]);
+    if (memberPermissions !== null) {
+        contextMenuBuilder.setDefaultMemberPermissions(memberPermissions);
+    }
+
+    return contextMenuBuilder;
+}
+
+/**
+ * Function to build the key an application command is tracked by.
+ * Names are only unique per command type, so both are included.
+ *
+ * @param command the builder or existing command to build the key for
+ * @returns the key of the command
+ */
+export function applicationCommandKey(command: ApplicationCommandBuilder | ApplicationCommand): string {
+    return commandBodyKey(command instanceof ApplicationCommand ? command : command.toJSON());
+}
+
+/**
+ * Function to find the member permissions shared by every command in a category.
+ * Subcommands cannot carry their own default permissions, so only those
+ * required by all of them can safely be applied to the category.
+ *
+ * @param commands the commands in the category
+ * @returns the shared permissions bitfield, or null if there are none
+ */
+function sharedMemberPermissions(commands: Command[]): bigint | null {
+    const shared = commands
+        .map(command => PermissionsBitField.resolve(command.memberPermissions || []))
+        .reduce((accumulator, bitfield) => accumulator & bitfield);
+
+    return shared === BigInt(0) ? null : shared;
+}
+
 /**
  * Function to build a slash command for a category.
+ * Commands become subcommands, nested within a subcommand group if they declare one.
+ * Anything beyond Discord's limit of 25 entries per level is skipped with a warning.
+ *
  * @param commands the commands in the category
  * @param categoryName the name of the category
  * @returns the slash command builder
@@ -102,18 +328,95 @@ export function buildSlashCommand(commands: Command[], categoryName: string): Sl
     // Create the SlashCommandBuilder for the category
     const slashCommandBuilder = new SlashCommandBuilder()
         .setName(categoryName.toLowerCase())
-        .setDescription(`${categoryName} commands`);
+        .setDescription(t(defaultLocale, 'slash.categoryDescription', { category: categoryName }))
+        .setDescriptionLocalizations(validLocalizations('slash.categoryDescription', 'description', { category: categoryName }));
 
-    // Iterate over the commands and add each as a subcommand
+    const groupBuilders: Map<string, SlashCommandSubcommandGroupBuilder> = new Map();
+    const hasRoom = (entries: number, location: string, commandDetails: Command) => {
+        if (entries < MAX_SUBCOMMANDS) return true;
+        log.warn(`${location} already has ${MAX_SUBCOMMANDS} entries, skipping "${commandDetails.name}".`);
+        return false;
+    };
+
+    // Iterate over the commands and add each as a subcommand, or to its group
     for (const commandDetails of commands) {
         const subCommand = buildSubcommand(commandDetails);
-        slashCommandBuilder.addSubcommand(subCommand);
+        const groupName = commandDetails.subcommandGroup?.toLowerCase();
+
+        if (!groupName) {
+            if (hasRoom(slashCommandBuilder.options.length, `/${categoryName}`, commandDetails)) {
+                slashCommandBuilder.addSubcommand(subCommand);
+            }
+            continue;
+        }
+
+        let groupBuilder = groupBuilders.get(groupName);
+        if (!groupBuilder) {
+            if (!hasRoom(slashCommandBuilder.options.length, `/${categoryName}`, commandDetails)) continue;
+
+            groupBuilder = new SlashCommandSubcommandGroupBuilder()
+                .setName(groupName)
+                .setDescription(t(defaultLocale, 'slash.groupDescription', { group: groupName }))
+                .setDescriptionLocalizations(validLocalizations('slash.groupDescription', 'description', { group: groupName }));
+            groupBuilders.set(groupName, groupBuilder);
+            slashCommandBuilder.addSubcommandGroup(groupBuilder);
+        }
+
+        if (hasRoom(groupBuilder.options.length, `/${categoryName} ${groupName}`, commandDetails)) {
+            groupBuilder.addSubcommand(subCommand);
+        }
+    }
+
+    // Hide the category from members who could not run any of its commands
+    const memberPermissions = sharedMemberPermissions(commands);
+    if (memberPermissions !== null) {
+        slashCommandBuilder.setDefaultMemberPermissions(memberPermissions);
     }
 
     return slashCommandBuilder;
 }
 
 
+/**
+ * Function to find the path a command is invoked by as a slash command.
+ * @param command the command to find the path of
+ * @returns the command, group and subcommand names, or null if the command is not a slash command
+ */
+export function slashPath(command: Command): string[] | null {
+    if (command.slash === false || command.ownerOnly) return null;
+    if (command.topLevel) return [command.name];
+    if (command.subcommandGroup) return [command.category, command.subcommandGroup.toLowerCase(), command.name];
+    return [command.category, command.name];
+}
+
+/**
+ * Function to find the command a slash or autocomplete interaction was invoked for.
+ * @param client the client holding the commands
+ * @param interaction the interaction to find the command for
+ * @returns the command, or undefined if none matches the invoked path
+ */
+export function findSlashCommand(client: CustomClient, interaction: ChatInputCommandInteraction | AutocompleteInteraction): Command | undefined {
+    const invokedPath = [
+        interaction.commandName,
+        interaction.options.getSubcommandGroup(false),
+        interaction.options.getSubcommand(false),
+    ].filter(Boolean).join(' ');
+
+    return client.commands.find(command => slashPath(command)?.join(' ') === invokedPath);
+}
+
+/**
+ * Function to find the command a context menu interaction was invoked for.
+ * @param client the client holding the commands
+ * @param interaction the interaction to find the command for
+ * @returns the command, or undefined if none declares the context menu entry
+ */
+export function findContextMenuCommand(client: CustomClient, interaction: ContextMenuCommandInteraction): Command | undefined {
+    return client.commands.find(command => !command.ownerOnly && (command.contextMenus || []).some(contextMenu =>
+        contextMenu.name === interaction.commandName && contextMenuTypes[contextMenu.type] === interaction.commandType
+    ));
+}
+
 /**
 * Function to validate the structure of a command object.
 * @param command the command to validate
@@ -128,7 +431,17 @@ export function validateCommandStructure(command: Command): boolean {
         { condition: typeof command.execute !== 'function', message: 'Command is missing a valid execute function' },
         { condition: command.textExtract && typeof command.textExtract !== 'function', message: 'Command textExtract must be a function' },
         { condition: command.slashExtract && typeof command.slashExtract !== 'function', message: 'Command slashExtract must be a function' },
+        { condition: command.autocomplete && typeof command.autocomplete !== 'function', message: 'Command autocomplete must be a function' },
         { condition: command.cooldown && (typeof command.cooldown !== 'number' || command.cooldown < 0), message: 'Command cooldown must be a positive number' },
+        { condition: command.cooldownScope && !cooldownScopes.includes(command.cooldownScope), message: `Command cooldownScope must be one of ${cooldownScopes.join(', ')}` },
+        { condition: command.ownerOnly !== undefined && typeof command.ownerOnly !== 'boolean', message: 'Command ownerOnly must be a boolean' },
+        { condition: command.slash !== undefined && typeof command.slash !== 'boolean', message: 'Command slash must be a boolean' },
+        { condition: command.topLevel !== undefined && typeof command.topLevel !== 'boolean', message: 'Command topLevel must be a boolean' },
+        { condition: command.subcommandGroup !== undefined && (typeof command.subcommandGroup !== 'string' || !nameRegex.test(command.subcommandGroup)), message: 'Command subcommandGroup must be a valid slash command name' },
+        { condition: command.topLevel && command.subcommandGroup !== undefined, message: 'Top-level commands cannot belong to a subcommand group' },
+        { condition: command.contextMenus && !Array.isArray(command.contextMenus), message: 'Command contextMenus must be an array' },
+        { condition: command.contextMenus?.some(contextMenu => !(contextMenu.type in contextMenuTypes)), message: `Command context menu types must be one of ${Object.keys(contextMenuTypes).join(', ')}` },
+        { condition: command.contextMenus?.some(contextMenu => typeof contextMenu.name !== 'string' || contextMenu.name.length < 1 || contextMenu.name.length > 32), message: 'Command context menu names must be 1 to 32 characters long' },
         { condition: command.aliases && !Array.isArray(command.aliases), message: 'Command aliases must be an array' },
         { condition: command.aliases && command.aliases.some(alias => typeof alias !== 'string'), message: 'Command aliases must be strings' },
         { condition: command.botPermissions && !Array.isArray(command.botPermissions), message: 'BotPermissions must be an array' },
@@ -139,7 +452,7 @@ export function validateCommandStructure(command: Command): boolean {
     // Ensure all validators conditions are met. If not, log the error and return false.
     for (const { condition, message } of validators) {
         if (condition) {
-            console.error(`[CommandLoader] ${message}: ${JSON.stringify(command)}`);
+            log.error(`${message}: ${JSON.stringify(command)}`);
             return false;
         }
     }
@@ -148,9 +461,22 @@ export function validateCommandStructure(command: Command): boolean {
     // delve deeper into the options array to validate each option.
     if (command.options) {
         for (const optionStruct of command.options) {
-            const option = optionStruct[Object.keys(optionStruct)[0]];
+            const optionType = Object.keys(optionStruct)[0];
+            const option = optionStruct[optionType];
             if (!option.name || !option.description) {
-                console.error(`[CommandLoader] Option is missing required fields: ${JSON.stringify(option)}`);
+                log.error(`Option is missing required fields: ${JSON.stringify(option)}`);
+                return false;
+            }
+
+            const optionError = validateOptionConstraints(optionType.toLowerCase(), option);
+            if (optionError) {
+                log.error(`${optionError}: ${JSON.stringify(option)}`);
+                return false;
+            }
+
+            // Options that autocomplete need somewhere to be routed to
+            if (option.autocomplete && typeof command.autocomplete !== 'function') {
+                log.error(`Option autocompletes without a command autocomplete handler: ${JSON.stringify(option)}`);
                 return false;
             }
         }
@@ -160,18 +486,33 @@ export function validateCommandStructure(command: Command): boolean {
 }
 
 /**
- * Function to check if a slash command has changed 
- * and find those changes if they exist.
- * 
- * @param newCommand the [potentially] new slash command
- * @param existingCommand the existing slash command
- * @returns what changed or null if no changes
- */
-export function findSlashChanges(newCommand: SlashCommandBuilder, existingCommand: ApplicationCommand): object | null {
-    const normalisedNew = deepNormalise(newCommand);
-    // Normalise using newCommand keys to ensure all keys are present [and identical] in the existing command
-    const normalisedExisting = deepNormalise(existingCommand, Object.keys(normalisedNew));
-    const differences = findDifferences(normalisedNew, normalisedExisting);
-
-    return differences;
-}
\ No newline at end of file
+ * Function to validate the constraints declared on an option.
+ * @param optionType the type of the option
+ * @param option the option to validate
+ * @returns the reason the option is invalid, or null if it is valid
+ */
+function validateOptionConstraints(optionType: string, option: OptionObject): string | null {
+    const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+    const isLength = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_STRING_LENGTH;
+    const choiceValueType = optionType === 'string' ? 'string' : 'number';
+    const validChannelTypes = Object.values(ChannelType).filter(isNumber);
+
+    const validators = [
+        { condition: option.choices && !choiceTypes.includes(optionType), message: `Option choices are only supported on ${choiceTypes.join(', ')} options` },
+        { condition: option.choices && (!Array.isArray(option.choices) || option.choices.length === 0 || option.choices.length > MAX_CHOICES), message: `Option choices must be an array of 1 to ${MAX_CHOICES} choices` },
+        { condition: option.choices?.some(choice => !choice.name || typeof choice.value !== choiceValueType), message: `Option choices must have a name and a ${choiceValueType} value` },
+        { condition: option.choices && option.autocomplete, message: 'Option cannot have both choices and autocomplete' },
+        { condition: (option.minValue !== undefined || option.maxValue !== undefined) && !valueTypes.includes(optionType), message: `Option minValue and maxValue are only supported on ${valueTypes.join(', ')} options` },
+        { condition: (option.minValue !== undefined && !isNumber(option.minValue)) || (option.maxValue !== undefined && !isNumber(option.maxValue)), message: 'Option minValue and maxValue must be numbers' },
+        { condition: option.minValue !== undefined && option.maxValue !== undefined && option.minValue > option.maxValue, message: 'Option minValue cannot exceed maxValue' },
+        { condition: (option.minLength !== undefined || option.maxLength !== undefined) && !lengthTypes.includes(optionType), message: `Option minLength and maxLength are only supported on ${lengthTypes.join(', ')} options` },
+        { condition: (option.minLength !== undefined && !isLength(option.minLength)) || (option.maxLength !== undefined && !isLength(option.maxLength)), message: `Option minLength and maxLength must be integers from 0 to ${MAX_STRING_LENGTH}` },
+        { condition: option.minLength !== undefined && option.maxLength !== undefined && option.minLength > option.maxLength, message: 'Option minLength cannot exceed maxLength' },
+        { condition: option.channelTypes && !channelTypes.includes(optionType), message: `Option channelTypes are only supported on ${channelTypes.join(', ')} options` },
+        { condition: option.channelTypes && (!Array.isArray(option.channelTypes) || option.channelTypes.some(type => !validChannelTypes.includes(type))), message: 'Option channelTypes must be an array of channel types' },
+        { condition: option.autocomplete !== undefined && typeof option.autocomplete !== 'boolean', message: 'Option autocomplete must be a boolean' },
+        { condition: option.autocomplete && !choiceTypes.includes(optionType), message: `Option autocomplete is only supported on ${choiceTypes.join(', ')} options` },
+    ];
+
+    return validators.find(({ condition }) => condition)?.message || null;
+}
@@ -0,0 +1,502 @@
+import {
+    ActionRowBuilder,
+    BaseMessageOptions,
+    ButtonBuilder,
+    ButtonStyle,
+    CommandInteraction,
+    EmbedBuilder,
+    Message,
+    MessageActionRowComponentBuilder,
+    MessageComponentInteraction,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    StringSelectMenuBuilder,
+    TextInputBuilder,
+    TextInputStyle
+} from 'discord.js';
+
+import { generateShortId } from './functions';
+import { defaultLocale, t } from './i18n';
+import { logger } from './logger';
+
+// Messages and interactions a response can be sent to.
+export type Replyable = Message | CommandInteraction | MessageComponentInteraction;
+
+// Interactions that can be answered by showing a modal.
+export type ModalCapable = CommandInteraction | MessageComponentInteraction;
+
+// What is sent as a message, as built for each page or prompt.
+export type MessageView = Pick<BaseMessageOptions, 'content' | 'embeds' | 'components'>;
+
+// The controls of a paginator, each encoded in its custom ID with the page it turns to.
+export type PageAction = 'first' | 'previous' | 'jump' | 'next' | 'last' | 'select';
+
+// Builds the custom ID of a paginator control.
+export type PageCustomId = (action: PageAction, target: number) => string;
+
+// How a paginator is shown.
+export interface PaginatorOptions {
+    // Shown for each page in the select menu, defaults to the page number
+    labels?: string[];
+    // The first, previous, next and last buttons
+    emojis?: [string, string, string, string];
+    timeMs?: number;
+    locale?: string;
+}
+
+// How a prompt waiting on its invoker is shown.
+export interface PromptOptions {
+    timeMs?: number;
+    locale?: string;
+}
+
+// A choice offered by a picker.
+export interface PickerChoice {
+    label: string;
+    value: string;
+    description?: string;
+    emoji?: string;
+}
+
+// How a picker is shown, allowing a single choice unless maxValues is raised.
+export interface PickerOptions extends PromptOptions {
+    placeholder?: string;
+    minValues?: number;
+    maxValues?: number;
+}
+
+// A text field of a modal form.
+export interface FormField {
+    id: string;
+    label: string;
+    style?: 'short' | 'paragraph';
+    required?: boolean;
+    placeholder?: string;
+    value?: string;
+    minLength?: number;
+    maxLength?: number;
+}
+
+// A modal form, of up to five fields.
+export interface FormOptions {
+    title: string;
+    fields: FormField[];
+    timeMs?: number;
+}
+
+// The values submitted to a form by field id, and the submission to respond to.
+export interface FormResult {
+    values: { [id: string]: string };
+    interaction: ModalSubmitInteraction;
+}
+
+// Components whose custom IDs start with this are answered by a collector in this process,
+// others are routed by their namespace, see handlers/components.ts.
+export const SESSION_NAMESPACE = 'ui';
+
+const CUSTOM_ID_SEPARATOR = ':';
+const MAX_CUSTOM_ID_LENGTH = 100;
+const MAX_SELECT_OPTIONS = 25;
+const MAX_FORM_FIELDS = 5;
+const MAX_LABEL_LENGTH = 100;
+const DEFAULT_TIMEOUT_MS = 120000;
+const defaultEmojis: [string, string, string, string] = ['⏮️', '⬅️', '➡️', '⏭️'];
+
+const log = logger.child('components');
+
+// Sessions with a collector still listening, so the router knows which have expired.
+const activeSessions: Set<string> = new Set();
+
+/**
+ * Function to build a namespaced custom ID, so components from different
+ * commands and different messages can never collide.
+ *
+ * @param namespace what the component belongs to, such as a session or a routed paginator
+ * @param parts the state the component carries
+ * @returns the custom ID
+ */
+export function buildCustomId(namespace: string, ...parts: Array<string | number>): string {
+    const segments = [namespace, ...parts].map(String);
+    if (segments.some((segment) => segment.includes(CUSTOM_ID_SEPARATOR))) {
+        throw new Error(`Custom ID parts cannot contain "${CUSTOM_ID_SEPARATOR}": ${segments.join(', ')}`);
+    }
+
+    const customId = segments.join(CUSTOM_ID_SEPARATOR);
+    if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+        throw new Error(`Custom ID "${customId}" is longer than ${MAX_CUSTOM_ID_LENGTH} characters`);
+    }
+    return customId;
+}
+
+/**
+ * @param customId the custom ID to parse
+ * @returns the namespace of the custom ID, and the parts that follow it
+ */
+export function parseCustomId(customId: string): { namespace: string, parts: string[] } {
+    const [namespace, ...parts] = customId.split(CUSTOM_ID_SEPARATOR);
+    return { namespace, parts };
+}
+
+/**
+ * @param sessionId the session to check
+ * @returns whether a collector in this process is still answering the session's components
+ */
+export function isActiveSession(sessionId: string): boolean {
+    return activeSessions.has(sessionId);
+}
+
+/**
+ * @returns the id of a new session, active until it is ended
+ */
+function startSession(): string {
+    const sessionId = generateShortId(8);
+    activeSessions.add(sessionId);
+    return sessionId;
+}
+
+/**
+ * Function to send a response, whether the interaction is fresh, deferred or already answered.
+ * @param interaction the message or interaction to respond to
+ * @param view what to send
+ * @param ephemeral whether only the invoker should see it, where possible [optional]
+ * @returns the message that was sent
+ */
+export async function respond(interaction: Replyable, view: MessageView, ephemeral: boolean = false): Promise<Message> {
+    if (interaction instanceof Message) {
+        return interaction.reply({ ...view, allowedMentions: { repliedUser: false } });
+    }
+    if (interaction.deferred && !interaction.replied) return interaction.editReply(view);
+    if (interaction.replied) return interaction.followUp({ ...view, ephemeral });
+
+    await interaction.reply({ ...view, ephemeral });
+    return interaction.fetchReply();
+}
+
+/**
+ * Function to replace the message a component or modal was used on.
+ * Modals not shown from a message have nothing to replace, so are answered with a new one.
+ *
+ * @param interaction the component or modal interaction
+ * @param view what to replace the message with
+ */
+export async function updateView(interaction: MessageComponentInteraction | ModalSubmitInteraction, view: MessageView) {
+    if (interaction.isMessageComponent() || interaction.isFromMessage()) {
+        await interaction.update(view);
+    } else {
+        await interaction.reply({ ...view, ephemeral: true });
+    }
+}
+
+/**
+ * Function to tell someone a component belongs to another user's command
+ * @param interaction the component or modal interaction
+ * @param locale the locale to respond in
+ */
+export async function rejectOtherUser(interaction: MessageComponentInteraction | ModalSubmitInteraction, locale: string) {
+    await interaction.reply({ content: t(locale, 'components.notYours'), ephemeral: true });
+}
+
+/**
+ * @param components the rows of components to disable
+ * @returns the rows with every component disabled, for once they stop being answered
+ */
+function disableComponents(components: ActionRowBuilder<MessageActionRowComponentBuilder>[]): ActionRowBuilder<MessageActionRowComponentBuilder>[] {
+    components.forEach((row) => row.components.forEach((component) => component.setDisabled(true)));
+    return components;
+}
+
+/**
+ * Function to build the controls of a paginator: first, previous, jump, next and last buttons,
+ * and a select menu of the pages around the current one.
+ *
+ * @param page the index of the current page
+ * @param pageCount how many pages there are
+ * @param customId builds the custom ID of each control
+ * @param options the labels and emojis to show [optional]
+ * @returns the rows of controls, or none if there is only one page
+ */
+export function pageControls(page: number, pageCount: number, customId: PageCustomId, options: PaginatorOptions = {}): ActionRowBuilder<MessageActionRowComponentBuilder>[] {
+    if (pageCount <= 1) return [];
+    const locale = options.locale || defaultLocale;
+    const [first, previous, next, last] = options.emojis || defaultEmojis;
+
+    const buttons = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(customId('first', 0)).setStyle(ButtonStyle.Primary).setEmoji(first),
+        new ButtonBuilder().setCustomId(customId('previous', (page - 1 + pageCount) % pageCount)).setStyle(ButtonStyle.Primary).setEmoji(previous),
+        new ButtonBuilder().setCustomId(customId('jump', page)).setStyle(ButtonStyle.Secondary).setLabel(`${page + 1}/${pageCount}`),
+        new ButtonBuilder().setCustomId(customId('next', (page + 1) % pageCount)).setStyle(ButtonStyle.Primary).setEmoji(next),
+        new ButtonBuilder().setCustomId(customId('last', pageCount - 1)).setStyle(ButtonStyle.Primary).setEmoji(last),
+    );
+
+    // Only 25 pages fit in the menu, so it shows those around the current page
+    const start = Math.max(0, Math.min(page - Math.floor(MAX_SELECT_OPTIONS / 2), pageCount - MAX_SELECT_OPTIONS));
+    const pageIndexes = Array.from({ length: Math.min(pageCount, MAX_SELECT_OPTIONS) }, (_, index) => start + index);
+    const menu = new StringSelectMenuBuilder()
+        .setCustomId(customId('select', page))
+        .setPlaceholder(t(locale, 'components.selectPage'))
+        .addOptions(pageIndexes.map((index) => ({
+            label: (options.labels?.[index] || t(locale, 'components.page', { page: index + 1 })).slice(0, MAX_LABEL_LENGTH),
+            value: String(index),
+            default: index === page,
+        })));
+
+    return [buttons, new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(menu)];
+}
+
+/**
+ * Function to build what a paginator shows for a page
+ * @param embed the page's embed
+ * @param page the index of the page
+ * @param pageCount how many pages there are
+ * @param customId builds the custom ID of each control
+ * @param options the labels and emojis to show [optional]
+ * @returns the page with its number in the footer, and the controls to turn it
+ */
+export function pageView(embed: EmbedBuilder, page: number, pageCount: number, customId: PageCustomId, options: PaginatorOptions = {}): MessageView {
+    embed.setFooter({ text: t(options.locale || defaultLocale, 'components.pageFooter', { page: page + 1, pages: pageCount }) });
+    return { embeds: [embed], components: pageControls(page, pageCount, customId, options) };
+}
+
+/**
+ * Function to build the modal asking which page to jump to
+ * @param customId the custom ID of the modal
+ * @param pageCount how many pages there are
+ * @param locale the locale to ask in
+ * @returns the modal
+ */
+export function pageForm(customId: string, pageCount: number, locale: string): ModalBuilder {
+    return buildForm(customId, {
+        title: t(locale, 'components.jumpTitle'),
+        fields: [{ id: 'page', label: t(locale, 'components.jumpLabel', { pages: pageCount }), required: true, maxLength: String(pageCount).length }],
+    });
+}
+
+/**
+ * @param submission the submitted page form
+ * @param pageCount how many pages there are
+ * @returns the index of the page that was asked for, kept within range, or null if it was not a number
+ */
+export function submittedPage(submission: ModalSubmitInteraction, pageCount: number): number | null {
+    const page = parseInt(submission.fields.getTextInputValue('page'), 10);
+    return Number.isNaN(page) ? null : Math.min(Math.max(page, 1), pageCount) - 1;
+}
+
+/**
+ * Function to show pages of embeds, turned with buttons, a jump-to-page form or a select menu.
+ * Only the given user can turn the pages, and the controls are disabled once they go unused
+ * for the timeout. For controls that keep working after a restart, see registerPaginator.
+ *
+ * @param interaction the message or interaction to respond to, which may already be deferred
+ * @param userId the user allowed to turn the pages
+ * @param pages the embeds to show, one per page
+ * @param options the labels, emojis, timeout and locale to use [optional]
+ */
+export async function paginate(interaction: Replyable, userId: string, pages: EmbedBuilder[], options: PaginatorOptions = {}): Promise<void> {
+    if (!interaction || !userId || !pages || pages.length === 0) {
+        log.warn('Invalid arguments for paginate');
+        return;
+    }
+
+    const locale = options.locale || defaultLocale;
+    const timeMs = options.timeMs ?? DEFAULT_TIMEOUT_MS;
+    const sessionId = startSession();
+    const customId: PageCustomId = (action, target) => buildCustomId(SESSION_NAMESPACE, sessionId, action, target);
+
+    let currentPage = 0;
+    const view = () => pageView(pages[currentPage], currentPage, pages.length, customId, options);
+    const message = await respond(interaction, view());
+
+    if (pages.length === 1) {
+        activeSessions.delete(sessionId);
+        return;
+    }
+
+    const collector = message.createMessageComponentCollector({ idle: timeMs });
+
+    collector.on('collect', async (component) => {
+        if (component.user.id !== userId) return rejectOtherUser(component, locale).catch(() => null);
+        const [, action, target] = parseCustomId(component.customId).parts;
+
+        try {
+            if (action === 'jump') {
+                // Each form gets its own ID, so an abandoned one is never answered by a later submission
+                const formId = buildCustomId(SESSION_NAMESPACE, sessionId, 'jumpForm', generateShortId(4));
+                await component.showModal(pageForm(formId, pages.length, locale));
+                const submission = await component.awaitModalSubmit({ time: timeMs, filter: (modal) => modal.customId === formId }).catch(() => null);
+                if (!submission) return;
+
+                currentPage = submittedPage(submission, pages.length) ?? currentPage;
+                await updateView(submission, view());
+            } else {
+                currentPage = component.isStringSelectMenu() ? Number(component.values[0]) : Number(target);
+                await component.update(view());
+            }
+        } catch (error) {
+            log.warn('Failed to turn the page', { error });
+        }
+    });
+
+    collector.on('end', () => {
+        activeSessions.delete(sessionId);
+        message.edit({ embeds: [pages[currentPage]], components: disableComponents(pageControls(currentPage, pages.length, customId, options)) })
+            .catch((error) => log.warn('Failed to disable the paginator', { error }));
+    });
+}
+
+/**
+ * Function to wait for the given user to use one of a message's components.
+ * Anyone else is told the components are not theirs.
+ *
+ * @param message the message holding the components
+ * @param userId the user to wait for
+ * @param sessionId the session the components belong to
+ * @param options the timeout and locale to use
+ * @returns the component interaction, or null if the user did not respond in time
+ */
+function awaitComponent(message: Message, userId: string, sessionId: string, options: PromptOptions): Promise<MessageComponentInteraction | null> {
+    return new Promise((resolve) => {
+        const collector = message.createMessageComponentCollector({ time: options.timeMs ?? DEFAULT_TIMEOUT_MS });
+
+        collector.on('collect', (component) => {
+            if (component.user.id !== userId) {
+                rejectOtherUser(component, options.locale || defaultLocale).catch(() => null);
+                return;
+            }
+            collector.stop('answered');
+            resolve(component);
+        });
+        collector.on('end', (collected, reason) => {
+            activeSessions.delete(sessionId);
+            if (reason !== 'answered') resolve(null);
+        });
+    });
+}
+
+/**
+ * Function to ask the given user a yes or no question.
+ * The buttons are disabled once answered, and the prompt counts as declined if it times out.
+ *
+ * @param interaction the message or interaction to respond to, which may already be deferred
+ * @param userId the user who must answer
+ * @param prompt the embed asking the question
+ * @param options the timeout and locale to use [optional]
+ * @returns whether the user confirmed
+ */
+export async function confirm(interaction: Replyable, userId: string, prompt: EmbedBuilder, options: PromptOptions = {}): Promise<boolean> {
+    const locale = options.locale || defaultLocale;
+    const sessionId = startSession();
+
+    const buttons = (disabled: boolean) => new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(buildCustomId(SESSION_NAMESPACE, sessionId, 'yes')).setStyle(ButtonStyle.Success).setLabel(t(locale, 'components.yes')).setDisabled(disabled),
+        new ButtonBuilder().setCustomId(buildCustomId(SESSION_NAMESPACE, sessionId, 'no')).setStyle(ButtonStyle.Danger).setLabel(t(locale, 'components.no')).setDisabled(disabled),
+    );
+
+    const message = await respond(interaction, { embeds: [prompt], components: [buttons(false)] });
+    const answer = await awaitComponent(message, userId, sessionId, options);
+
+    const closed = { embeds: [prompt], components: [buttons(true)] };
+    await (answer ? answer.update(closed) : message.edit(closed)).catch((error) => log.warn('Failed to close the confirmation', { error }));
+    return answer !== null && parseCustomId(answer.customId).parts[1] === 'yes';
+}
+
+/**
+ * Function to ask the given user to choose from a select menu.
+ * Only the first 25 choices can be offered, as Discord allows no more.
+ *
+ * @param interaction the message or interaction to respond to, which may already be deferred
+ * @param userId the user who must choose
+ * @param prompt the embed asking for the choice
+ * @param choices the choices to offer
+ * @param options the placeholder, number of values, timeout and locale to use [optional]
+ * @returns the values chosen, or null if the user did not choose in time
+ */
+export async function pick(interaction: Replyable, userId: string, prompt: EmbedBuilder, choices: PickerChoice[], options: PickerOptions = {}): Promise<string[] | null> {
+    if (choices.length > MAX_SELECT_OPTIONS) log.warn(`Only the first ${MAX_SELECT_OPTIONS} of ${choices.length} choices can be picked from`);
+    const locale = options.locale || defaultLocale;
+    const sessionId = startSession();
+    const offered = choices.slice(0, MAX_SELECT_OPTIONS);
+
+    const menu = (chosen: string[], disabled: boolean) => new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+            .setCustomId(buildCustomId(SESSION_NAMESPACE, sessionId, 'pick'))
+            .setPlaceholder(options.placeholder || t(locale, 'components.pickPlaceholder'))
+            .setMinValues(Math.min(options.minValues ?? 1, offered.length))
+            .setMaxValues(Math.min(options.maxValues ?? 1, offered.length))
+            .setDisabled(disabled)
+            .addOptions(offered.map((choice) => ({
+                label: choice.label.slice(0, MAX_LABEL_LENGTH),
+                value: choice.value,
+                description: choice.description?.slice(0, MAX_LABEL_LENGTH),
+                emoji: choice.emoji,
+                default: chosen.includes(choice.value),
+            })))
+    );
+
+    const message = await respond(interaction, { embeds: [prompt], components: [menu([], false)] });
+    const answer = await awaitComponent(message, userId, sessionId, options);
+    const chosen = answer?.isStringSelectMenu() ? answer.values : null;
+
+    const closed = { embeds: [prompt], components: [menu(chosen || [], true)] };
+    await (answer ? answer.update(closed) : message.edit(closed)).catch((error) => log.warn('Failed to close the picker', { error }));
+    return chosen;
+}
+
+/**
+ * Function to build a modal form.
+ * Forms with more fields than a modal can show are rejected, rather than
+ * failing once the user has filled them in.
+ *
+ * @param customId the custom ID of the modal
+ * @param form the title and fields of the form
+ * @returns the modal
+ */
+export function buildForm(customId: string, form: FormOptions): ModalBuilder {
+    if (form.fields.length === 0 || form.fields.length > MAX_FORM_FIELDS) {
+        throw new Error(`Forms must have between 1 and ${MAX_FORM_FIELDS} fields, "${form.title}" has ${form.fields.length}`);
+    }
+
+    const rows = form.fields.map((field) => {
+        const input = new TextInputBuilder()
+            .setCustomId(field.id)
+            .setLabel(field.label)
+            .setStyle(field.style === 'paragraph' ? TextInputStyle.Paragraph : TextInputStyle.Short)
+            .setRequired(field.required ?? true);
+
+        if (field.placeholder) input.setPlaceholder(field.placeholder);
+        if (field.value) input.setValue(field.value);
+        if (field.minLength !== undefined) input.setMinLength(field.minLength);
+        if (field.maxLength !== undefined) input.setMaxLength(field.maxLength);
+        return new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input);
+    });
+
+    return new ModalBuilder().setCustomId(customId).setTitle(form.title).addComponents(...rows);
+}
+
+/**
+ * Function to show a modal form and wait for it to be submitted.
+ * Modals can only answer slash commands and components, so text commands
+ * need a button or similar to open one from.
+ *
+ * @param interaction the interaction to show the form for, which must not be answered yet
+ * @param form the title, fields and timeout of the form
+ * @returns the submitted values and the submission to respond to, or null if it was not submitted in time
+ */
+export async function openForm(interaction: ModalCapable, form: FormOptions): Promise<FormResult | null> {
+    const sessionId = startSession();
+    const customId = buildCustomId(SESSION_NAMESPACE, sessionId, 'form');
+
+    try {
+        await interaction.showModal(buildForm(customId, form));
+        const submission = await interaction.awaitModalSubmit({
+            time: form.timeMs ?? DEFAULT_TIMEOUT_MS,
+            filter: (modal) => modal.customId === customId && modal.user.id === interaction.user.id,
+        }).catch(() => null);
+        if (!submission) return null;
+
+        const values = Object.fromEntries(form.fields.map((field) => [field.id, submission.fields.getTextInputValue(field.id)]));
+        return { values, interaction: submission };
+    } finally {
+        activeSessions.delete(sessionId);
+    }
+}
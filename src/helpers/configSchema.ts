@@ -0,0 +1,373 @@
+import { logLevels } from './logger';
+
+// A field of the config schema, describing what values it accepts.
+export type FieldSchema =
+    | { type: 'string', required?: boolean, default?: string, env?: string, secret?: boolean, pattern?: RegExp, choices?: readonly string[], hint?: string }
+    | { type: 'number', required?: boolean, default?: number, env?: string, integer?: boolean, min?: number, max?: number }
+    | { type: 'boolean', required?: boolean, default?: boolean, env?: string }
+    | { type: 'array', required?: boolean, default?: unknown[], items: FieldSchema }
+    | { type: 'object', required?: boolean, fields: { [key: string]: FieldSchema } }
+    // Objects told apart by one of their fields, such as the type of a backup destination
+    | { type: 'variant', required?: boolean, key: string, variants: { [value: string]: { [key: string]: FieldSchema } } }
+    // Values that fit none of the above, checked by a function returning why they are invalid
+    | { type: 'custom', required?: boolean, default?: unknown, env?: string, check: (value: unknown) => string | null, parseEnv?: (value: string) => unknown };
+
+// The outcome of validating a config.
+export interface ValidationResult {
+    problems: string[];
+    warnings: string[];
+}
+
+const snowflake = { pattern: /^\d{17,20}$/, hint: 'a Discord id' };
+const url = { pattern: /^https?:\/\/\S+$/, hint: 'an http(s) URL' };
+const hexColour = /^#[0-9a-f]{6}$/i;
+
+const colour: FieldSchema = {
+    type: 'custom',
+    check: (value) => (typeof value === 'string' && hexColour.test(value)) || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffff)
+        ? null
+        : 'must be a hex colour such as "#5865F2"',
+};
+
+const accessToken: FieldSchema = { type: 'string', required: true, secret: true };
+
+/**
+ * The committed schema of the config, see config.example.yaml for a filled in copy.
+ * Values come from these defaults, then the config file, then the environment variables named here.
+ */
+export const configSchema: { [key: string]: FieldSchema } = {
+    token: { type: 'string', required: true, secret: true, env: 'DISCORD_TOKEN' },
+    mongoURI: { type: 'string', required: true, secret: true, env: 'MONGO_URI', pattern: /^mongodb(\+srv)?:\/\//, hint: 'a mongodb:// or mongodb+srv:// connection string' },
+    dbName: { type: 'string', default: 'majestic', env: 'MONGO_DB' },
+    ownerId: { type: 'string', required: true, env: 'OWNER_ID', ...snowflake },
+    defaultPrefix: { type: 'string', default: '!', env: 'DEFAULT_PREFIX', pattern: /^\S{1,5}$/, hint: 'between 1 and 5 characters without spaces' },
+    slashGlobal: { type: 'boolean', default: false, env: 'SLASH_GLOBAL' },
+    hotReload: { type: 'boolean', default: false, env: 'HOT_RELOAD' },
+    migrateOnStart: { type: 'boolean', default: false, env: 'MIGRATE_ON_START' },
+    metricsPort: { type: 'number', env: 'METRICS_PORT', integer: true, min: 1, max: 65535 },
+    shards: {
+        type: 'custom',
+        env: 'SHARDS',
+        check: (value) => value === 'auto' || (Number.isInteger(value) && (value as number) > 0) ? null : 'must be "auto" or a whole number of shards',
+        parseEnv: (value) => /^\d+$/.test(value) ? Number(value) : value,
+    },
+    logLevel: { type: 'string', default: 'info', env: 'LOG_LEVEL', choices: logLevels },
+    logFormat: { type: 'string', default: 'pretty', env: 'LOG_FORMAT', choices: ['pretty', 'json'] },
+    discordLogLevel: { type: 'string', default: 'error', env: 'DISCORD_LOG_LEVEL', choices: logLevels },
+    botErrorLogs: { type: 'string', required: true, env: 'BOT_ERROR_LOGS', ...snowflake },
+    backupChannel: { type: 'string', required: true, env: 'BACKUP_CHANNEL', ...snowflake },
+    backup: {
+        type: 'object',
+        fields: {
+            schedule: { type: 'string', env: 'BACKUP_SCHEDULE' },
+            collections: { type: 'array', items: { type: 'string', required: true } },
+            destinations: {
+                type: 'array',
+                items: {
+                    type: 'variant',
+                    required: true,
+                    key: 'type',
+                    variants: {
+                        local: {
+                            directory: { type: 'string', required: true },
+                            keep: { type: 'number', integer: true, min: 1 },
+                        },
+                        s3: {
+                            endpoint: { type: 'string', required: true, ...url },
+                            region: { type: 'string', required: true },
+                            bucket: { type: 'string', required: true },
+                            prefix: { type: 'string' },
+                            accessKeyId: accessToken,
+                            secretAccessKey: accessToken,
+                            keep: { type: 'number', integer: true, min: 1 },
+                        },
+                        discord: {
+                            channelId: { type: 'string', required: true, ...snowflake },
+                        },
+                    },
+                },
+            },
+        },
+    },
+    guildCache: {
+        type: 'object',
+        fields: {
+            maxSize: { type: 'number', env: 'GUILD_CACHE_SIZE', integer: true, min: 1 },
+            ttlSeconds: { type: 'number', integer: true, min: 1 },
+            negativeTtlSeconds: { type: 'number', integer: true, min: 1 },
+        },
+    },
+    botLists: {
+        type: 'object',
+        fields: {
+            lists: {
+                type: 'array',
+                required: true,
+                items: {
+                    type: 'object',
+                    required: true,
+                    fields: {
+                        name: { type: 'string', required: true, choices: ['topgg', 'discordbotlist', 'discordbotsgg'] },
+                        token: accessToken,
+                        webhookSecret: { type: 'string', secret: true },
+                    },
+                },
+            },
+            interval: { type: 'string' },
+            webhook: {
+                type: 'object',
+                fields: {
+                    port: { type: 'number', required: true, integer: true, min: 1, max: 65535 },
+                    path: { type: 'string', pattern: /^\//, hint: 'a path starting with /' },
+                    thankChannel: { type: 'string', ...snowflake },
+                    dmVoters: { type: 'boolean' },
+                },
+            },
+        },
+    },
+    topGG: { type: 'string', default: '', secret: true, env: 'TOPGG_TOKEN' },
+    topGGVote: { type: 'string', required: true, ...url },
+    supportInvite: { type: 'string', required: true, ...url },
+    donation: { type: 'string', required: true, ...url },
+    ToS: { type: 'string', required: true, ...url },
+    privacyPolicy: { type: 'string', required: true, ...url },
+    helpIcon: { type: 'string', required: true, ...url },
+    invitePermissionsID: { type: 'string', required: true, pattern: /^\d+$/, hint: 'a permissions integer' },
+    collectionNames: {
+        type: 'object',
+        fields: {
+            BOT_GUILDS: { type: 'string', default: 'botGuilds' },
+            BOT_USERS: { type: 'string', default: 'botUsers' },
+            BLACKLIST: { type: 'string', default: 'blacklist' },
+            INCIDENTS: { type: 'string', default: 'incidents' },
+            ANALYTICS: { type: 'string', default: 'analytics' },
+            JOBS: { type: 'string', default: 'jobs' },
+            JOB_RUNS: { type: 'string', default: 'jobRuns' },
+            MIGRATIONS: { type: 'string', default: 'migrations' },
+        },
+    },
+    embedStructure: {
+        type: 'object',
+        required: true,
+        fields: {
+            colour: { ...colour, default: '#5865F2' },
+            errorColour: { ...colour, default: '#ED4245' },
+            footerIcon: { type: 'string', required: true, ...url },
+        },
+    },
+    categoryDefinitions: {
+        type: 'array',
+        required: true,
+        items: {
+            type: 'object',
+            required: true,
+            fields: {
+                // Category names match the command directories, such as "misc"
+                name: { type: 'string', required: true, pattern: /^[a-z0-9_-]+$/, hint: 'the lowercase name of a command directory' },
+                description: { type: 'string' },
+                icon: { type: 'string', required: true, ...url },
+                aliases: { type: 'array', items: { type: 'string', required: true } },
+                hidden: { type: 'boolean' },
+            },
+        },
+    },
+};
+
+/**
+ * @param value the value to check
+ * @returns whether the value is a plain object, rather than an array or null
+ */
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds the config every layer is applied on top of
+ * @param fields the fields to build defaults for
+ * @returns the defaults, leaving out fields without one
+ */
+export function schemaDefaults(fields: { [key: string]: FieldSchema } = configSchema): { [key: string]: unknown } {
+    const defaults: { [key: string]: unknown } = {};
+    for (const [key, field] of Object.entries(fields)) {
+        if (field.type === 'object') {
+            const nested = schemaDefaults(field.fields);
+            if (Object.keys(nested).length > 0) defaults[key] = nested;
+        } else if ('default' in field && field.default !== undefined) {
+            defaults[key] = field.default;
+        }
+    }
+    return defaults;
+}
+
+/**
+ * Reads the config values set through environment variables
+ * @param env the environment to read
+ * @param fields the fields to read [optional]
+ * @returns the values set, nested as in the config
+ */
+export function environmentLayer(env: NodeJS.ProcessEnv, fields: { [key: string]: FieldSchema } = configSchema): { [key: string]: unknown } {
+    const layer: { [key: string]: unknown } = {};
+    for (const [key, field] of Object.entries(fields)) {
+        if (field.type === 'object') {
+            const nested = environmentLayer(env, field.fields);
+            if (Object.keys(nested).length > 0) layer[key] = nested;
+            continue;
+        }
+
+        const raw = 'env' in field && field.env ? env[field.env] : undefined;
+        if (raw === undefined || raw === '') continue;
+
+        switch (field.type) {
+            case 'number':
+                layer[key] = Number(raw);
+                break;
+            case 'boolean':
+                layer[key] = ['true', '1', 'yes', 'on'].includes(raw.toLowerCase())
+                    ? true
+                    : ['false', '0', 'no', 'off'].includes(raw.toLowerCase()) ? false : raw;
+                break;
+            case 'custom':
+                layer[key] = field.parseEnv ? field.parseEnv(raw) : raw;
+                break;
+            default:
+                layer[key] = raw;
+        }
+    }
+    return layer;
+}
+
+/**
+ * Merges config layers, later layers overriding earlier ones.
+ * Objects are merged key by key, while arrays and other values are replaced whole.
+ *
+ * @param layers the layers to merge, lowest priority first
+ * @returns the merged config
+ */
+export function mergeLayers(...layers: Array<{ [key: string]: unknown }>): { [key: string]: unknown } {
+    const merged: { [key: string]: unknown } = {};
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer)) {
+            merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+                ? mergeLayers(merged[key] as { [key: string]: unknown }, value)
+                : value;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Checks a single value against its field
+ * @param value the value to check
+ * @param field the field it belongs to
+ * @param path where the value is in the config, used in messages
+ * @param result where problems and warnings are collected
+ */
+function validateField(value: unknown, field: FieldSchema, path: string, result: ValidationResult) {
+    const problem = (message: string) => result.problems.push(`${path} ${message}`);
+
+    const envHint = 'env' in field && field.env ? ` [or set ${field.env}]` : '';
+    if (value === undefined || value === null) {
+        if (field.required) problem(`is required${envHint}`);
+        return;
+    }
+
+    switch (field.type) {
+        case 'string':
+            if (typeof value !== 'string') return problem('must be a string');
+            if (field.required && value.trim() === '') return problem(`must not be empty${envHint}`);
+            if (field.choices && !field.choices.includes(value)) return problem(`must be one of ${field.choices.join(', ')}`);
+            // Secret values are never repeated in messages
+            if (field.pattern && value !== '' && !field.pattern.test(value)) {
+                return problem(`must be ${field.hint || `a match for ${field.pattern}`}${field.secret ? '' : `, got "${value}"`}`);
+            }
+            return;
+        case 'number':
+            if (typeof value !== 'number' || Number.isNaN(value)) return problem('must be a number');
+            if (field.integer && !Number.isInteger(value)) return problem('must be a whole number');
+            if (field.min !== undefined && value < field.min) return problem(`must be at least ${field.min}`);
+            if (field.max !== undefined && value > field.max) return problem(`must be at most ${field.max}`);
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') return problem('must be true or false');
+            return;
+        case 'custom': {
+            const reason = field.check(value);
+            if (reason) problem(reason);
+            return;
+        }
+        case 'array':
+            if (!Array.isArray(value)) return problem('must be a list');
+            value.forEach((item, index) => validateField(item, field.items, `${path}[${index}]`, result));
+            return;
+        case 'object':
+            if (!isPlainObject(value)) return problem('must be an object');
+            validateObject(value, field.fields, path, result);
+            return;
+        case 'variant': {
+            if (!isPlainObject(value)) return problem('must be an object');
+            const variant = value[field.key];
+            if (typeof variant !== 'string' || !(variant in field.variants)) {
+                return problem(`must have a ${field.key} of ${Object.keys(field.variants).join(', ')}`);
+            }
+            validateObject(value, { [field.key]: { type: 'string', required: true }, ...field.variants[variant] }, path, result);
+            return;
+        }
+    }
+}
+
+/**
+ * Checks every field of an object, warning about keys the schema does not know
+ * @param value the object to check
+ * @param fields the fields it may have
+ * @param path where the object is in the config, used in messages
+ * @param result where problems and warnings are collected
+ */
+function validateObject(value: { [key: string]: unknown }, fields: { [key: string]: FieldSchema }, path: string, result: ValidationResult) {
+    const prefix = path ? `${path}.` : '';
+    for (const [key, field] of Object.entries(fields)) {
+        validateField(value[key], field, `${prefix}${key}`, result);
+    }
+    for (const key of Object.keys(value).filter((key) => !(key in fields))) {
+        result.warnings.push(`${prefix}${key} is not a known setting and is ignored`);
+    }
+}
+
+/**
+ * Validates a merged config against the schema
+ * @param config the config to validate
+ * @returns every problem found, and warnings about unknown settings
+ */
+export function validateConfig(config: { [key: string]: unknown }): ValidationResult {
+    const result: ValidationResult = { problems: [], warnings: [] };
+    validateObject(config, configSchema, '', result);
+    return result;
+}
+
+/**
+ * Copies a config with every secret replaced, so it can be printed or logged
+ * @param value the config, or part of it, to redact
+ * @param field the field the value belongs to [optional]
+ * @returns the redacted copy
+ */
+export function redactConfig(value: unknown, field: FieldSchema = { type: 'object', fields: configSchema }): unknown {
+    if (value === undefined || value === null) return value;
+
+    switch (field.type) {
+        case 'string':
+            return field.secret && value !== '' ? '[redacted]' : value;
+        case 'array':
+            return Array.isArray(value) ? value.map((item) => redactConfig(item, field.items)) : value;
+        case 'object':
+        case 'variant': {
+            if (!isPlainObject(value)) return value;
+            const fields = field.type === 'object'
+                ? field.fields
+                : field.variants[value[field.key] as string] || {};
+            return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+                [key, fields[key] ? redactConfig(item, fields[key]) : item]
+            ));
+        }
+        default:
+            return value;
+    }
+}
@@ -1,54 +1,32 @@
+import { randomBytes } from 'crypto';
 import { CustomClient } from '../index'
 import { getConfig } from '../config';
+import { slashPath } from './command';
+import { defaultLocale, t } from './i18n';
+import { logger, LogContext } from './logger';
 import {
     CommandInteraction,
     EmbedBuilder,
     Message,
-    ActionRowBuilder,
-    ButtonBuilder,
-    ButtonStyle,
-    ComponentType,
     ChatInputCommandInteraction
 } from 'discord.js';
 
+const errorLogger = logger.child('errors');
+
 /**
  * Synchronous function to handle errors
- * logging globally throughout the bot
- * 
- * @param client the client to log the error through
+ * logging globally throughout the bot.
+ * Errors reach the log channel through the logger's batched channel sink.
+ *
+ * @param client the client the error occurred on
  * @param error the error to log
+ * @param context where the error occurred, such as the guild, user or command [optional]
  */
-export function logError(client: CustomClient, error: String | Error): void {
-    const config = getConfig();
-
-    // Make sure the error becomes a string.
+export function logError(client: CustomClient, error: unknown, context: LogContext = {}): void {
     if (error instanceof Error) {
-        error = error.stack || error.message;
-    }
-    try {
-        // Employ a size restriction to prevent too large of messages
-        const SIZE_RESTRICTION = 1990;
-        const arrayLength = Math.ceil(error.length / SIZE_RESTRICTION);
-
-        const splitMessages = new Array(arrayLength);
-        for (let i = 0; i < arrayLength; i++) {
-            splitMessages[i] = error.substring(i * SIZE_RESTRICTION, (i + 1) * SIZE_RESTRICTION);
-        }
-
-        // Log each part of the error message
-        const channel = client.channels.cache.get(config.botErrorLogs);
-
-        if (channel && channel.isSendable()) {
-            splitMessages.forEach((message) => {
-                channel.send(`\`\`\`\n${message}\n\`\`\``);
-            })
-        } else {
-            throw new Error('Channel not found or not sendable');
-        }
-    } catch (e) {
-        // Worst case scenario, log the error to the console
-        console.error("Error logging error: ", e);
-        console.error("Error being logged: ", error)
+        errorLogger.error(error.message, { ...context, error });
+    } else {
+        errorLogger.error(String(error), context);
     }
 }
 
@@ -58,17 +36,22 @@ export function logError(client: CustomClient, error: String | Error): void {
  * 
  * @param message the message to display
  * @param prefix the prefix of the bot
+ * @param details the locale to respond in, and the incident the error was recorded as [optional]
  * @returns an embed with the error message
  */
-export function errorEmbed(message: string, prefix: string): EmbedBuilder {
+export function errorEmbed(message: string, prefix: string, details: { locale?: string, incidentId?: string } = {}): EmbedBuilder {
     const config = getConfig();
     const options = config.embedStructure;
+    const { locale = defaultLocale, incidentId } = details;
 
     const errorEmbed = new EmbedBuilder()
         .setColor(options.errorColour)
-        .setTitle('Uh oh! :x:')
-        .setDescription(message)
-        .setFooter({ text: `Prefix ${prefix}`, iconURL: options.footerIcon })
+        .setTitle(t(locale, 'embeds.errorTitle'))
+        .setDescription(incidentId ? `${message}\n${t(locale, 'embeds.incidentNotice', { incident: incidentId })}` : message)
+        .setFooter({
+            text: incidentId ? t(locale, 'embeds.incidentFooter', { prefix, incident: incidentId }) : t(locale, 'embeds.footer', { prefix }),
+            iconURL: options.footerIcon
+        })
         .setTimestamp();
     return errorEmbed;
 }
@@ -79,9 +62,11 @@ export function errorEmbed(message: string, prefix: string): EmbedBuilder {
  * 
  * @param embed the embed to apply the structure to
  * @param prefix the prefix of the bot
+ * @param setFooter whether to set the footer
+ * @param locale the locale to respond in [optional]
  * @returns the embed with this structure applied
  */
-export function applyEmbedStructure(embed: EmbedBuilder, prefix: string, setFooter: boolean = true): EmbedBuilder {
+export function applyEmbedStructure(embed: EmbedBuilder, prefix: string, setFooter: boolean = true, locale: string = defaultLocale): EmbedBuilder {
     const config = getConfig();
     const options = config.embedStructure;
 
@@ -89,7 +74,7 @@ export function applyEmbedStructure(embed: EmbedBuilder, prefix: string, setFoot
     const newEmbed = embed.setColor(options.colour).setTimestamp();
 
     // Optionally set the footer
-    if (setFooter) newEmbed.setFooter({ text: `Prefix ${prefix}`, iconURL: options.footerIcon });
+    if (setFooter) newEmbed.setFooter({ text: t(locale, 'embeds.footer', { prefix }), iconURL: options.footerIcon });
     return newEmbed
 }
 
@@ -102,93 +87,71 @@ export function escapeString(text: string) {
     return text.replace(/[.*+?^${}()|[\]\\]/g, `\\$&`);
 }
 
+// Milliseconds in each unit understood by parseDuration and formatDuration, largest first.
+const durationUnits: Array<{ unit: string, aliases: string[], milliseconds: number }> = [
+    { unit: 'w', aliases: ['w', 'wk', 'wks', 'week', 'weeks'], milliseconds: 604800000 },
+    { unit: 'd', aliases: ['d', 'day', 'days'], milliseconds: 86400000 },
+    { unit: 'h', aliases: ['h', 'hr', 'hrs', 'hour', 'hours'], milliseconds: 3600000 },
+    { unit: 'm', aliases: ['m', 'min', 'mins', 'minute', 'minutes'], milliseconds: 60000 },
+    { unit: 's', aliases: ['s', 'sec', 'secs', 'second', 'seconds'], milliseconds: 1000 },
+];
+
 /**
- * Function to normalise an object, removing empty arrays and circular references
- * It also allows for only certain keys to be kept and removes empty arrays
- * 
- * @param object the object to normalise
- * @param keysToKeep the keys to keep in the object [optional]
- * @param seen a set to keep track of seen objects [optional]
- * @returns the normalised object
+ * Function to parse a human duration such as "2h", "1h30m" or "3 days"
+ * @param text the text to parse
+ * @returns the duration in milliseconds, or null if the text is not a duration
  */
-export function deepNormalise(object: any, keysToKeep?: string[], seen = new WeakSet(), isTopLevel = true): any {
-    if (object === null || object === undefined) return null;
-
-    if (typeof object === "object") {
-        // Handle circular references to avoid infinite loops
-        if (seen.has(object)) return null;
-        seen.add(object);
-
-        if (Array.isArray(object)) {
-            // Normalise array elements and remove empty arrays
-            const normalisedArrayUnfiltered = object.map(item => deepNormalise(item, keysToKeep, seen, false));
-            const normalisedArray = normalisedArrayUnfiltered.filter(value => value !== null && value !== undefined);
-
-            // Treat empty arrays as null/undefined
-            return normalisedArray.length > 0 ? normalisedArray : null;
-        }
-
-        // For objects, normalise keys
-        const plainObject = object.toJSON ? object.toJSON() : { ...object };
-        return Object.entries(plainObject).reduce((acc, [key, value]) => {
-            // Apply keysToKeep filter only at the top level
-            if (isTopLevel && keysToKeep && !keysToKeep.includes(key)) {
-                return acc;
-            }
-
-            const normalisedValue = deepNormalise(value, keysToKeep, seen, false);
-            // Explicitly check for null rather than falsy values
-            if (normalisedValue !== null) {
-                acc[key] = normalisedValue;
-            }
-
-            return acc;
-        }, {} as any);
+export function parseDuration(text: string): number | null {
+    const durationRegex = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+    const normalised = text.toLowerCase().replace(/\s*,?\s*and\s+|\s*,\s*/g, ' ').trim();
+    if (!normalised) return null;
+
+    let total = 0;
+    let consumed = '';
+    let match: RegExpExecArray | null;
+    while ((match = durationRegex.exec(normalised)) !== null) {
+        const unit = durationUnits.find(unit => unit.aliases.includes(match![2]));
+        if (!unit) return null;
+
+        total += parseFloat(match[1]) * unit.milliseconds;
+        consumed += match[0];
     }
 
-    // Return primitives as-is, including booleans
-    return object;
+    // Every character other than whitespace must belong to a duration
+    if (consumed.replace(/\s/g, '') !== normalised.replace(/\s/g, '')) return null;
+    return total > 0 ? Math.round(total) : null;
 }
 
-
 /**
- * Function to find differences between two objects.
- * Returns a new object containing only the parts of `newObject` that are different from `existingObject`.
- *
- * @param newObject The new object to compare.
- * @param existingObject The existing object to compare.
- * @returns An object representing the differences, or null if no differences are found.
+ * Function to format a duration into a short human readable string
+ * @param milliseconds the duration to format
+ * @returns the formatted duration, for example "1d 2h 30m"
  */
-export function findDifferences(newObject: any, existingObject: any): any {
-    if (typeof newObject !== "object" || newObject === null) {
-        // Primitive comparison
-        return newObject !== existingObject ? newObject : null;
-    }
-
-    if (Array.isArray(newObject)) {
-        if (!Array.isArray(existingObject) || newObject.length !== existingObject.length) {
-            // If arrays are entirely different, return the new array
-            return newObject;
+export function formatDuration(milliseconds: number): string {
+    const parts: string[] = [];
+    let remaining = Math.max(0, Math.round(milliseconds / 1000) * 1000);
+
+    for (const { unit, milliseconds: unitLength } of durationUnits) {
+        const amount = Math.floor(remaining / unitLength);
+        if (amount > 0) {
+            parts.push(`${amount}${unit}`);
+            remaining -= amount * unitLength;
         }
-        // Compare array elements
-        const differences = newObject.map((item, index) =>
-            findDifferences(item, existingObject[index])
-        );
-        // Return only the changed parts of the array
-        return differences.some(diff => diff !== null) ? differences : null;
     }
 
-    // Object comparison
-    const diffObject: Record<string, any> = {};
-    for (const key of Object.keys(newObject)) {
-        const diff = findDifferences(newObject[key], existingObject?.[key]);
-        if (diff !== null) {
-            diffObject[key] = diff;
-        }
-    }
+    return parts.join(' ') || '0s';
+}
 
-    // If no differences found in the object, return null
-    return Object.keys(diffObject).length > 0 ? diffObject : null;
+// Unambiguous characters, so ids can be read back from a screenshot.
+const idAlphabet = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Simple function to generate a short random id, such as for incidents or reminders
+ * @param length the length of the id
+ * @returns the id
+ */
+export function generateShortId(length: number): string {
+    return Array.from(randomBytes(length), (byte) => idAlphabet[byte % idAlphabet.length]).join('');
 }
 
 /**
@@ -238,6 +201,15 @@ export function interactionUser(interaction: Message | CommandInteraction): any
     return interaction instanceof Message ? interaction.author : interaction.user;
 }
 
+/**
+ * Simple function to check if a user is the bot owner
+ * @param userId the id of the user to check
+ * @returns whether the user is the bot owner
+ */
+export function isOwner(userId: string): boolean {
+    return userId === getConfig().ownerId;
+}
+
 /**
  * Function to generate a bot invite link
  * @param interaction the interaction to generate the invite for
@@ -255,94 +227,6 @@ export function generateBotInvite(interaction: Message | CommandInteraction): st
     return `${start}${botID}${middle}${permissionID}${end}`;
 }
 
-/**
- * Handles pagination for both CommandInteraction and Message interactions.
- * 
- * @param interaction - The interaction (CommandInteraction or Message).
- * @param userId - The ID of the user allowed to interact with the buttons.
- * @param embeds - An array of embeds for pagination.
- * @param emojis - Optional custom emojis for navigation buttons.
- */
-export async function handlePagination(
-    interaction: CommandInteraction | Message,
-    userId: string,
-    embeds: EmbedBuilder[],
-    emojis?: [string, string, string, string]
-): Promise<void> {
-    if (!interaction || !userId || !embeds || embeds.length === 0) {
-        console.error("Invalid arguments for handlePagination");
-        return;
-    }
-
-    const defaultEmojis = ['⏮️', '⬅️', '➡️', '⏭️'];
-    const [skipBack, back, next, skipNext] = emojis || defaultEmojis;
-
-    const buttonsActive = new ActionRowBuilder<ButtonBuilder>().addComponents(
-        new ButtonBuilder().setCustomId('backskip').setStyle(ButtonStyle.Primary).setEmoji(skipBack),
-        new ButtonBuilder().setCustomId('back').setStyle(ButtonStyle.Primary).setEmoji(back),
-        new ButtonBuilder().setCustomId('next').setStyle(ButtonStyle.Primary).setEmoji(next),
-        new ButtonBuilder().setCustomId('nextskip').setStyle(ButtonStyle.Primary).setEmoji(skipNext),
-    );
-
-    const buttonsDisabled = new ActionRowBuilder<ButtonBuilder>().addComponents(
-        new ButtonBuilder().setCustomId('backskip').setStyle(ButtonStyle.Secondary).setEmoji(skipBack).setDisabled(true),
-        new ButtonBuilder().setCustomId('back').setStyle(ButtonStyle.Secondary).setEmoji(back).setDisabled(true),
-        new ButtonBuilder().setCustomId('next').setStyle(ButtonStyle.Secondary).setEmoji(next).setDisabled(true),
-        new ButtonBuilder().setCustomId('nextskip').setStyle(ButtonStyle.Secondary).setEmoji(skipNext).setDisabled(true),
-    );
-
-    let currentPage = 0;
-
-    const updateEmbed = (page: number) => {
-        embeds[page].setFooter({ text: `Page ${page + 1} of ${embeds.length}` });
-        return embeds[page];
-    };
-
-    const sendOptions = {
-        embeds: [updateEmbed(currentPage)],
-        components: [buttonsActive],
-    };
-
-    const message = await interaction.reply({ ...sendOptions, allowedMentions: { repliedUser: false } });
-
-    const collector = message.createMessageComponentCollector({
-        componentType: ComponentType.Button,
-        time: 120000,
-        filter: (i) => i.user.id === userId,
-    });
-
-    collector.on('collect', async (btnInteraction) => {
-        await btnInteraction.deferUpdate();
-
-        switch (btnInteraction.customId) {
-            case 'back':
-                currentPage = (currentPage > 0) ? currentPage - 1 : embeds.length - 1;
-                break;
-            case 'next':
-                currentPage = (currentPage < embeds.length - 1) ? currentPage + 1 : 0;
-                break;
-            case 'backskip':
-                currentPage = 0;
-                break;
-            case 'nextskip':
-                currentPage = embeds.length - 1;
-                break;
-        }
-
-        await message.edit({
-            embeds: [updateEmbed(currentPage)],
-            components: [buttonsActive],
-        });
-    });
-
-    collector.on('end', () => {
-        message.edit({
-            embeds: [updateEmbed(currentPage)],
-            components: [buttonsDisabled],
-        }).catch(console.error);
-    });
-}
-
 export function findCategory(category: string | null): any {
     if (!category) return null;
     const config = getConfig();
@@ -368,13 +252,24 @@ export function findCommand(command: string | null, client: CustomClient): any {
     return selectedCommand;
 }
 
+/**
+ * Function to find what follows the prefix and precedes a command's name when invoking it.
+ * For slash commands this is the category and subcommand group the command is nested in.
+ *
+ * @param client the client holding the commands
+ * @param interaction the interaction the command would be invoked from
+ * @param name the name of the command
+ * @returns the text between the prefix and the command name
+ */
 export function getPostPrefix(client: CustomClient, interaction : ChatInputCommandInteraction | Message, name: string): string {
-    const commandsCategory = client.commands.find(cmd => cmd.name === name)?.category;
-    return (interaction instanceof ChatInputCommandInteraction) ? commandsCategory + ' ' : '';
+    const command = client.commands.find(cmd => cmd.name === name);
+    const path = command ? slashPath(command) : null;
+    if (!(interaction instanceof ChatInputCommandInteraction) || !path || path.length === 1) return '';
+    return path.slice(0, -1).join(' ') + ' ';
 }
 
-export function findAliases(command: any, interaction: Message | ChatInputCommandInteraction, prefix: string): string {
+export function findAliases(command: any, interaction: Message | ChatInputCommandInteraction, prefix: string, locale: string = defaultLocale): string {
     return interaction instanceof ChatInputCommandInteraction 
-        ? "None for slash commands"
-        : command.aliases?.map((alias: any) => `\`${prefix}${alias}\``).join(", ") || "None";
+        ? t(locale, 'help.noSlashAliases')
+        : command.aliases?.map((alias: any) => `\`${prefix}${alias}\``).join(", ") || t(locale, 'help.noAliases');
 };
\ No newline at end of file
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import { Locale } from 'discord.js';
+import { logger } from './logger';
+
+// The forms of a translation that depends on a count, by plural category.
+export type PluralForms = { [category in Intl.LDMLPluralRule]?: string } & { other: string };
+
+// A single translation, plural when it depends on a count.
+export type Translation = string | PluralForms;
+
+// A catalog of translations, nested by namespace, as exported by each file in src/locales.
+export interface Catalog {
+    [key: string]: Translation | Catalog;
+}
+
+// Values substituted into a translation's {placeholders}. A count also selects the plural form.
+export interface TranslationValues {
+    count?: number;
+    [name: string]: string | number | undefined;
+}
+
+// The locale used when no other is chosen, and the catalog every other falls back to.
+export const defaultLocale: string = Locale.EnglishUS;
+
+const localesDirectoryPath = path.resolve(__dirname, '../locales');
+const pluralCategories: string[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+const log = logger.child('i18n');
+
+// Translations of each locale, flattened to dotted keys.
+let catalogs: Map<string, Map<string, Translation>> | null = null;
+
+/**
+ * @param value the value to check
+ * @returns whether the value holds the forms of a plural translation, rather than a namespace
+ */
+function isPluralForms(value: object): value is PluralForms {
+    const entries = Object.entries(value);
+    return 'other' in value && entries.every(([category, form]) => pluralCategories.includes(category) && typeof form === 'string');
+}
+
+/**
+ * Function to flatten a catalog into its translations by dotted key
+ * @param catalog the catalog to flatten
+ * @param prefix the key of the namespace being flattened
+ * @param translations the map to add the translations to
+ * @returns the keys that hold neither a translation nor a namespace
+ */
+function flattenCatalog(catalog: Catalog, prefix: string, translations: Map<string, Translation>): string[] {
+    const invalid: string[] = [];
+
+    for (const [name, value] of Object.entries(catalog)) {
+        const key = prefix ? `${prefix}.${name}` : name;
+        if (typeof value === 'string' || (typeof value === 'object' && value !== null && isPluralForms(value))) {
+            translations.set(key, value);
+        } else if (typeof value === 'object' && value !== null) {
+            invalid.push(...flattenCatalog(value as Catalog, key, translations));
+        } else {
+            invalid.push(key);
+        }
+    }
+
+    return invalid;
+}
+
+/**
+ * Function to load every catalog in the locales directory, named by its locale such as es-ES.
+ * Catalogs are read synchronously, so translations are available to the slash command builders.
+ *
+ * @returns the translations of each locale
+ */
+function loadCatalogs(): Map<string, Map<string, Translation>> {
+    const loaded: Map<string, Map<string, Translation>> = new Map();
+
+    const catalogFiles = fs.readdirSync(localesDirectoryPath)
+        .filter((fileName) => (fileName.endsWith('.js') || fileName.endsWith('.ts')) && !fileName.endsWith('.d.ts'));
+
+    for (const fileName of catalogFiles) {
+        const locale = path.basename(fileName, path.extname(fileName));
+        try {
+            const catalog: Catalog = require(path.join(localesDirectoryPath, fileName));
+            const translations: Map<string, Translation> = new Map();
+            const invalid = flattenCatalog(catalog, '', translations);
+
+            if (invalid.length > 0) log.warn(`Catalog ${locale} has entries that are not translations, skipping them`, { keys: invalid });
+            loaded.set(locale, translations);
+        } catch (error) {
+            log.error('Error loading catalog', { file: fileName, error });
+        }
+    }
+
+    if (!loaded.has(defaultLocale)) log.error(`No catalog was found for the default locale ${defaultLocale}`);
+    return loaded;
+}
+
+/**
+ * @returns the translations of each locale, loaded on first use
+ */
+function getCatalogs(): Map<string, Map<string, Translation>> {
+    if (!catalogs) catalogs = loadCatalogs();
+    return catalogs;
+}
+
+/**
+ * @returns the locales that have a catalog
+ */
+export function availableLocales(): string[] {
+    return Array.from(getCatalogs().keys());
+}
+
+/**
+ * Function to find the catalogs a locale is translated from, in order of preference.
+ * A locale without its own catalog uses one for the same language, so es-419 uses es-ES,
+ * and anything still missing comes from the default locale.
+ *
+ * @param locale the locale to translate into
+ * @returns the locales of the catalogs to look in
+ */
+function fallbackChain(locale: string): string[] {
+    const language = locale.split('-')[0].toLowerCase();
+    const sameLanguage = availableLocales().filter((available) => available.split('-')[0].toLowerCase() === language);
+    return Array.from(new Set([locale, ...sameLanguage, defaultLocale]));
+}
+
+/**
+ * @param locale the locale to translate into
+ * @param key the dotted key of the translation
+ * @returns the translation and the locale it was found in, or null if no catalog in the chain has it
+ */
+function findTranslation(locale: string, key: string): { locale: string, translation: Translation } | null {
+    for (const candidate of fallbackChain(locale)) {
+        const translation = getCatalogs().get(candidate)?.get(key);
+        if (translation !== undefined) return { locale: candidate, translation };
+    }
+    return null;
+}
+
+/**
+ * Function to fill in a translation, choosing its plural form by the count and
+ * replacing each {placeholder} with its value. Numbers are formatted for the locale.
+ *
+ * @param locale the locale the translation is in
+ * @param translation the translation to fill in
+ * @param values the values of its placeholders
+ * @returns the text
+ */
+function formatTranslation(locale: string, translation: Translation, values: TranslationValues): string {
+    let text: string;
+    if (typeof translation === 'string') {
+        text = translation;
+    } else {
+        const category = new Intl.PluralRules(locale).select(values.count ?? 0);
+        text = translation[category] ?? translation.other;
+    }
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = values[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+    });
+}
+
+/**
+ * Function to translate a key into a locale, falling back through the catalogs
+ * for the same language and then the default locale.
+ *
+ * @param locale the locale to translate into
+ * @param key the dotted key of the translation, such as help.fields.usage
+ * @param values the values of its placeholders, and the count choosing its plural form [optional]
+ * @returns the translated text, or the key itself if no catalog has it
+ */
+export function t(locale: string, key: string, values: TranslationValues = {}): string {
+    const found = findTranslation(locale, key);
+    if (!found) {
+        log.warn(`Missing translation "${key}"`, { locale });
+        return key;
+    }
+    return formatTranslation(found.locale, found.translation, values);
+}
+
+/**
+ * Function to translate a key that not every catalog is expected to have,
+ * such as command metadata that is written in the command itself.
+ *
+ * @param locale the locale to translate into
+ * @param key the dotted key of the translation
+ * @param values the values of its placeholders [optional]
+ * @returns the translated text, or null if no catalog has it
+ */
+export function translateOptional(locale: string, key: string, values: TranslationValues = {}): string | null {
+    const found = findTranslation(locale, key);
+    return found ? formatTranslation(found.locale, found.translation, values) : null;
+}
+
+/**
+ * Function to build the localisations of a key for every locale Discord supports,
+ * as given to setNameLocalizations and setDescriptionLocalizations.
+ * Locales that would only fall back to the default locale are left out,
+ * so Discord shows them the default instead.
+ *
+ * @param key the dotted key of the translation
+ * @param values the values of its placeholders [optional]
+ * @returns the localised text by Discord locale
+ */
+export function localizations(key: string, values: TranslationValues = {}): { [locale: string]: string } {
+    const localized: { [locale: string]: string } = {};
+
+    for (const locale of Object.values(Locale)) {
+        if (locale === defaultLocale) continue;
+        const found = findTranslation(locale, key);
+        if (found && found.locale !== defaultLocale) localized[locale] = formatTranslation(found.locale, found.translation, values);
+    }
+
+    return localized;
+}
+
+/**
+ * Function to find the translations each catalog is missing.
+ * Every key in the default catalog is expected, along with any given,
+ * such as those for command metadata that is written in the command itself.
+ *
+ * @param expectedKeys keys expected beyond those in the default catalog [optional]
+ * @returns the missing keys of each locale that is missing any
+ */
+export function missingTranslations(expectedKeys: string[] = []): Map<string, string[]> {
+    const defaultCatalog = getCatalogs().get(defaultLocale) || new Map();
+    const expected = new Set([...defaultCatalog.keys(), ...expectedKeys]);
+    const missing: Map<string, string[]> = new Map();
+
+    for (const [locale, translations] of getCatalogs()) {
+        if (locale === defaultLocale) continue;
+        const missingKeys = Array.from(expected).filter((key) => !translations.has(key));
+        if (missingKeys.length > 0) missing.set(locale, missingKeys);
+    }
+
+    return missing;
+}
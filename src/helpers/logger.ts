@@ -0,0 +1,177 @@
+import colors from 'colors';
+
+// The levels a record can be logged at, from least to most severe.
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+export const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
+
+// How records are written to the console.
+export type LogFormat = 'pretty' | 'json';
+
+// Structured details attached to a record, such as the guild, user or command involved.
+// An error given under the `error` key is kept separately so its stack can be shown.
+export interface LogContext {
+    error?: unknown;
+    [key: string]: unknown;
+}
+
+// A single log record, as passed to every sink.
+export interface LogRecord {
+    time: Date;
+    level: LogLevel;
+    logger: string;
+    message: string;
+    context: { [key: string]: unknown };
+    error: Error | null;
+}
+
+// Something that records are written to, such as the console or a Discord channel.
+export type LogSink = (record: LogRecord) => void;
+
+const levelColours: { [level in LogLevel]: (text: string) => string } = {
+    debug: colors.gray,
+    info: colors.green,
+    warn: colors.yellow,
+    error: colors.red,
+    fatal: (text: string) => colors.bgRed(colors.white(text)),
+};
+
+// Settings shared by every logger, set once the config is available.
+const settings: { level: LogLevel, format: LogFormat } = { level: 'info', format: 'pretty' };
+const sinks: Set<LogSink> = new Set();
+
+// Context attached to errors as they pass through, so whoever finally logs them can include it.
+const errorContexts: WeakMap<object, { [key: string]: unknown }> = new WeakMap();
+
+/**
+ * Sets the minimum level and console format used by every logger
+ * @param options the level and format to use
+ */
+export function configureLogger(options: { level?: LogLevel, format?: LogFormat }) {
+    if (options.level && logLevels.includes(options.level)) settings.level = options.level;
+    if (options.format === 'pretty' || options.format === 'json') settings.format = options.format;
+}
+
+/**
+ * Adds a sink every record is written to, alongside the console
+ * @param sink the sink to add
+ * @returns a function removing the sink again
+ */
+export function addLogSink(sink: LogSink): () => void {
+    sinks.add(sink);
+    return () => sinks.delete(sink);
+}
+
+/**
+ * Attaches context to an error, merged over anything already attached
+ * @param error the error to attach context to
+ * @param context the context to attach
+ * @returns the same error, so it can be rethrown
+ */
+export function withErrorContext<T>(error: T, context: { [key: string]: unknown }): T {
+    if (typeof error === 'object' && error !== null) {
+        errorContexts.set(error, { ...errorContexts.get(error), ...context });
+    }
+    return error;
+}
+
+/**
+ * @param error the error to read the context of
+ * @returns the context attached to the error, if any
+ */
+export function errorContext(error: unknown): { [key: string]: unknown } {
+    return (typeof error === 'object' && error !== null && errorContexts.get(error)) || {};
+}
+
+/**
+ * Simple function to turn anything thrown into an error
+ * @param error the thrown value
+ * @returns the value as an error
+ */
+export function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Function to format a record for the console
+ * @param record the record to format
+ * @returns the formatted record
+ */
+function formatRecord(record: LogRecord): string {
+    if (settings.format === 'json') {
+        return JSON.stringify({
+            time: record.time.toISOString(),
+            level: record.level,
+            logger: record.logger,
+            message: record.message,
+            ...record.context,
+            ...(record.error ? { error: { name: record.error.name, message: record.error.message, stack: record.error.stack } } : {}),
+        });
+    }
+
+    const context = Object.entries(record.context).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    const line = [
+        colors.gray(record.time.toISOString()),
+        levelColours[record.level](record.level.toUpperCase().padEnd(5)),
+        colors.cyan(`[${record.logger}]`),
+        record.message,
+        context.length > 0 ? colors.gray(context.join(' ')) : '',
+    ].filter(Boolean).join(' ');
+
+    return record.error ? `${line}\n${record.error.stack || record.error.message}` : line;
+}
+
+/**
+ * A named, leveled logger writing structured records to the console and any added sinks.
+ * Child loggers share the same settings and sinks, and carry their parent's context.
+ */
+export class Logger {
+    constructor(readonly name: string, private readonly context: { [key: string]: unknown } = {}) {}
+
+    /**
+     * @param name the name of the child logger
+     * @param context context attached to every record the child logs
+     * @returns a logger named after this one and the given name
+     */
+    child(name: string, context: { [key: string]: unknown } = {}): Logger {
+        return new Logger(this.name ? `${this.name}.${name}` : name, { ...this.context, ...context });
+    }
+
+    log(level: LogLevel, message: string, details: LogContext = {}) {
+        if (logLevels.indexOf(level) < logLevels.indexOf(settings.level)) return;
+
+        const { error, ...context } = details;
+        const record: LogRecord = {
+            time: new Date(),
+            level,
+            logger: this.name || 'bot',
+            message,
+            context: { ...this.context, ...(error !== undefined ? errorContext(error) : {}), ...context },
+            error: error !== undefined ? toError(error) : null,
+        };
+
+        const output = formatRecord(record);
+        if (logLevels.indexOf(level) >= logLevels.indexOf('warn')) {
+            console.error(output);
+        } else {
+            console.log(output);
+        }
+
+        // A failing sink must never stop the others, or the console, from receiving records
+        for (const sink of sinks) {
+            try {
+                sink(record);
+            } catch (sinkError) {
+                console.error(`Log sink failed: ${sinkError}`);
+            }
+        }
+    }
+
+    debug(message: string, details?: LogContext) { this.log('debug', message, details); }
+    info(message: string, details?: LogContext) { this.log('info', message, details); }
+    warn(message: string, details?: LogContext) { this.log('warn', message, details); }
+    error(message: string, details?: LogContext) { this.log('error', message, details); }
+    fatal(message: string, details?: LogContext) { this.log('fatal', message, details); }
+}
+
+// The root logger, name children after the part of the bot they log for.
+export const logger = new Logger('');
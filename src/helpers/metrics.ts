@@ -0,0 +1,180 @@
+// Label names and values attached to a metric sample.
+export type MetricLabels = { [label: string]: string };
+
+// A single value of a metric, as collected at scrape time.
+export interface MetricSample {
+    labels?: MetricLabels;
+    value: number;
+}
+
+// Anything that can be rendered in the Prometheus text format.
+interface Metric {
+    render(): Promise<string[]>;
+}
+
+const registry: Metric[] = [];
+
+/**
+ * Simple function to render labels in the Prometheus text format
+ * @param labels the labels to render
+ * @returns the rendered labels, or nothing if there are none
+ */
+function renderLabels(labels: MetricLabels = {}): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+}
+
+/**
+ * Simple function to render a number in the Prometheus text format
+ * @param value the number to render
+ * @returns the rendered number
+ */
+function renderValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/**
+ * @param labels the labels to key by
+ * @returns a stable key for the labels
+ */
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * A value that only goes up, such as a number of commands run.
+ */
+export class Counter implements Metric {
+    private readonly values: Map<string, MetricSample> = new Map();
+
+    constructor(readonly name: string, readonly help: string) {
+        registry.push(this);
+    }
+
+    inc(labels: MetricLabels = {}, amount: number = 1) {
+        const key = labelKey(labels);
+        const sample = this.values.get(key) || { labels, value: 0 };
+        sample.value += amount;
+        this.values.set(key, sample);
+    }
+
+    /**
+     * @param labels only samples with these labels are counted [optional]
+     * @returns the summed value of the matching samples
+     */
+    total(labels: MetricLabels = {}): number {
+        return Array.from(this.values.values())
+            .filter((sample) => Object.entries(labels).every(([name, value]) => sample.labels?.[name] === value))
+            .reduce((sum, sample) => sum + sample.value, 0);
+    }
+
+    async render(): Promise<string[]> {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...Array.from(this.values.values(), (sample) => `${this.name}${renderLabels(sample.labels)} ${renderValue(sample.value)}`),
+        ];
+    }
+}
+
+/**
+ * A value read when metrics are scraped, such as the gateway ping.
+ */
+export class Gauge implements Metric {
+    protected readonly type: 'gauge' | 'counter' = 'gauge';
+
+    constructor(readonly name: string, readonly help: string, private readonly collect: () => Promise<MetricSample[] | number> | MetricSample[] | number) {
+        registry.push(this);
+    }
+
+    async render(): Promise<string[]> {
+        const collected = await this.collect();
+        const samples = typeof collected === 'number' ? [{ value: collected }] : collected;
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} ${this.type}`,
+            ...samples.map((sample) => `${this.name}${renderLabels(sample.labels)} ${renderValue(sample.value)}`),
+        ];
+    }
+}
+
+/**
+ * A total kept elsewhere that only goes up, read when metrics are scraped, such as the CPU time used.
+ */
+export class CollectedCounter extends Gauge {
+    protected readonly type = 'counter';
+}
+
+/**
+ * Observed values counted into buckets, such as command latencies.
+ */
+export class Histogram implements Metric {
+    private readonly values: Map<string, { labels: MetricLabels, buckets: number[], sum: number, count: number }> = new Map();
+
+    constructor(readonly name: string, readonly help: string, private readonly boundaries: number[]) {
+        registry.push(this);
+    }
+
+    observe(labels: MetricLabels, value: number) {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) || { labels, buckets: this.boundaries.map(() => 0), sum: 0, count: 0 };
+        this.boundaries.forEach((boundary, index) => {
+            if (value <= boundary) entry.buckets[index]++;
+        });
+        entry.sum += value;
+        entry.count++;
+        this.values.set(key, entry);
+    }
+
+    async render(): Promise<string[]> {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const entry of this.values.values()) {
+            this.boundaries.forEach((boundary, index) => {
+                lines.push(`${this.name}_bucket${renderLabels({ ...entry.labels, le: renderValue(boundary) })} ${entry.buckets[index]}`);
+            });
+            lines.push(`${this.name}_bucket${renderLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+            lines.push(`${this.name}_sum${renderLabels(entry.labels)} ${renderValue(entry.sum)}`);
+            lines.push(`${this.name}_count${renderLabels(entry.labels)} ${entry.count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Renders every registered metric in the Prometheus text format.
+ * A metric that fails to collect is left out rather than failing the scrape.
+ *
+ * @returns the rendered metrics
+ */
+export async function renderMetrics(): Promise<string> {
+    const rendered = await Promise.all(registry.map((metric) => metric.render().catch(() => [])));
+    return rendered.flat().join('\n') + '\n';
+}
+
+// Metrics recorded throughout the bot, the rest are collected when scraped.
+export const commandCounter = new Counter('majestic_commands_total', 'Commands dispatched, by command, source and outcome.');
+export const commandDuration = new Histogram('majestic_command_duration_seconds', 'Time taken to run commands.', [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]);
+export const cacheRequests = new Counter('majestic_guild_cache_requests_total', 'Guild cache lookups, by whether they were served from memory.');
+export const unhandledErrors = new Counter('majestic_unhandled_errors_total', 'Unhandled rejections and uncaught exceptions.');
+
+// The components that must be ready before the bot can serve traffic.
+const readiness: Map<string, boolean> = new Map();
+
+/**
+ * Records whether a component is ready
+ * @param component the name of the component
+ * @param ready whether it is ready
+ */
+export function setReady(component: string, ready: boolean) {
+    readiness.set(component, ready);
+}
+
+/**
+ * @returns the readiness of every component that has reported it
+ */
+export function readinessState(): { [component: string]: boolean } {
+    return Object.fromEntries(readiness);
+}
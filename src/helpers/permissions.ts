@@ -0,0 +1,82 @@
+import {
+    CommandInteraction,
+    Message,
+    PermissionResolvable,
+    PermissionsBitField,
+    PermissionsString
+} from 'discord.js';
+
+import { Command } from '../handlers/command';
+import { defaultLocale, t } from './i18n';
+
+// The permissions missing for a command to run, split by who is missing them.
+export interface MissingPermissions {
+    bot: PermissionsString[];
+    member: PermissionsString[];
+}
+
+/**
+ * Function to resolve the channel-level permissions of both
+ * the bot and the invoking member for an interaction.
+ *
+ * Slash commands receive these resolved from Discord directly,
+ * whereas text commands must compute them from the channel.
+ *
+ * @param interaction the message or interaction to resolve permissions for
+ * @returns the bot and member permissions, or null where they cannot be resolved
+ */
+function resolvePermissions(interaction: Message | CommandInteraction): {
+    bot: Readonly<PermissionsBitField> | null,
+    member: Readonly<PermissionsBitField> | null
+} {
+    if (interaction instanceof CommandInteraction) {
+        return { bot: interaction.appPermissions, member: interaction.memberPermissions };
+    }
+
+    const channel = interaction.channel;
+    const botMember = interaction.guild?.members.me;
+    if (!channel || channel.isDMBased() || !botMember || !interaction.member) {
+        return { bot: null, member: null };
+    }
+
+    return {
+        bot: channel.permissionsFor(botMember),
+        member: channel.permissionsFor(interaction.member),
+    };
+}
+
+/**
+ * Function to find which of a command's required permissions are missing
+ * for both the bot and the invoking member in the current channel.
+ *
+ * @param command the command being invoked
+ * @param interaction the message or interaction invoking it
+ * @returns the missing permissions, empty arrays if none are missing
+ */
+export function findMissingPermissions(command: Command, interaction: Message | CommandInteraction): MissingPermissions {
+    const permissions = resolvePermissions(interaction);
+
+    // Treat unresolvable permissions as missing everything required
+    const findMissing = (held: Readonly<PermissionsBitField> | null, required: PermissionResolvable[] = []) =>
+        held ? held.missing(required) : new PermissionsBitField(required).toArray();
+
+    return {
+        bot: findMissing(permissions.bot, command.botPermissions),
+        member: findMissing(permissions.member, command.memberPermissions),
+    };
+}
+
+/**
+ * Function to format missing permissions into a readable message
+ * @param missing the missing permissions
+ * @param locale the locale to describe them in [optional]
+ * @returns the message describing what is missing
+ */
+export function describeMissingPermissions(missing: MissingPermissions, locale: string = defaultLocale): string {
+    const format = (permissions: PermissionsString[]) => permissions.map(permission => `\`${permission}\``).join(', ');
+    const lines: string[] = [];
+
+    if (missing.bot.length > 0) lines.push(t(locale, 'errors.botPermissions', { permissions: format(missing.bot) }));
+    if (missing.member.length > 0) lines.push(t(locale, 'errors.memberPermissions', { permissions: format(missing.member) }));
+    return lines.join('\n');
+}
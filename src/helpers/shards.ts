@@ -0,0 +1,177 @@
+import { APIEmbed, Awaitable, Client, MessageCreateOptions, RESTJSONErrorCodes, Serialized, ShardClientUtil } from 'discord.js';
+
+// The statistics gathered from each shard.
+export interface ShardStats {
+    id: number;
+    guilds: number;
+    users: number;
+    ping: number;
+    memoryBytes: number;
+}
+
+// A message that can be sent from another shard, with its embeds as JSON.
+export interface ShardMessage {
+    content?: string;
+    embeds?: APIEmbed[];
+    allowedMentions?: MessageCreateOptions['allowedMentions'];
+}
+
+// The outcome of sending a message from the shard holding its channel.
+export interface ChannelSendResult {
+    sent: boolean;
+    // Whether Discord reported the channel as deleted, rather than it being unreachable
+    unknownChannel: boolean;
+    error?: string;
+}
+
+/**
+ * Work that must happen once across every shard, such as the global command
+ * sync or the job schedules, runs on the shard holding shard 0.
+ *
+ * @param client the client instance
+ * @returns whether this client holds the first shard, or the bot is not sharded
+ */
+export function isPrimaryShard(client: Client): boolean {
+    return !client.shard || client.shard.ids.includes(0);
+}
+
+/**
+ * @param client the client instance
+ * @returns the ids of the shards this client holds
+ */
+export function shardIds(client: Client): number[] {
+    return client.shard?.ids ?? [0];
+}
+
+/**
+ * @param client the client instance
+ * @returns the number of shards the bot runs on
+ */
+export function shardCount(client: Client): number {
+    return client.shard?.count ?? 1;
+}
+
+/**
+ * Simple function to pass a value through JSON, as values sent between shards are
+ * @param value the value to serialise
+ * @returns the value as another shard would receive it
+ */
+function serialise<Value>(value: Value): Serialized<Value> {
+    return (value === undefined ? value : JSON.parse(JSON.stringify(value))) as Serialized<Value>;
+}
+
+/**
+ * Runs a function on every shard, or just on this client when the bot is not sharded.
+ * The function is sent to each shard as source code, so it can only use the client and
+ * context it is given. It cannot use imports, closures or async/await [which compile to
+ * a helper outside the function]; return a promise instead. The context and results are
+ * serialised even when the bot is not sharded, so both cases behave the same.
+ *
+ * @param client the client instance
+ * @param fn the function to run on each shard
+ * @param context the values passed to the function
+ * @returns the result from each shard
+ */
+export async function broadcastEval<Result, Context extends object = {}>(
+    client: Client,
+    fn: (client: Client<true>, context: Serialized<Context>) => Awaitable<Result>,
+    context: Context = {} as Context
+): Promise<Array<Serialized<Result>>> {
+    if (!client.shard) return [serialise(await fn(client as Client<true>, serialise(context)))];
+    return await client.shard.broadcastEval(fn, { context });
+}
+
+/**
+ * Runs a function on the shard that holds a guild, or just on this client when the bot
+ * is not sharded. The same limits as broadcastEval apply to the function.
+ *
+ * @param client the client instance
+ * @param guildId the guild whose shard should run the function
+ * @param fn the function to run
+ * @param context the values passed to the function
+ * @returns the result from the guild's shard
+ */
+export async function evalOnGuildShard<Result, Context extends object = {}>(
+    client: Client,
+    guildId: string,
+    fn: (client: Client<true>, context: Serialized<Context>) => Awaitable<Result>,
+    context: Context = {} as Context
+): Promise<Serialized<Result>> {
+    if (!client.shard) return serialise(await fn(client as Client<true>, serialise(context)));
+    return await client.shard.broadcastEval(fn, { context, shard: ShardClientUtil.shardIdForGuildId(guildId, client.shard.count) });
+}
+
+/**
+ * Sends a message from the shard that holds its channel, as other shards cannot fetch
+ * channels of guilds they do not hold. Without a guild, every shard is asked and only
+ * the one with the channel cached sends it.
+ *
+ * @param client the client instance
+ * @param channelId the channel to send to
+ * @param message the message to send
+ * @param guildId the guild the channel belongs to [optional]
+ * @returns whether the message was sent, and why not if it was not
+ */
+export async function sendToChannel(client: Client, channelId: string, message: ShardMessage, guildId?: string): Promise<ChannelSendResult> {
+    const context = {
+        channelId,
+        message,
+        onlyIfCached: Boolean(client.shard && !guildId),
+        unknownChannelCode: RESTJSONErrorCodes.UnknownChannel,
+    };
+
+    const send = (shardClient: Client<true>, { channelId, message, onlyIfCached, unknownChannelCode }: Serialized<typeof context>) => {
+        if (onlyIfCached && !shardClient.channels.cache.has(channelId)) return null;
+        return shardClient.channels.fetch(channelId)
+            .then((channel) => channel && channel.isTextBased() && channel.isSendable()
+                ? channel.send(message).then(() => ({ sent: true, unknownChannel: false }))
+                : { sent: false, unknownChannel: false, error: 'The channel cannot be sent to' })
+            .catch((error) => ({ sent: false, unknownChannel: error.code === unknownChannelCode, error: String(error.message || error) }));
+    };
+
+    const results = guildId ? [await evalOnGuildShard(client, guildId, send, context)] : await broadcastEval(client, send, context);
+    return results.find((result) => result !== null) || { sent: false, unknownChannel: false, error: 'No shard holds the channel' };
+}
+
+/**
+ * Gathers the statistics of every shard
+ * @param client the client instance
+ * @returns the statistics of each shard, by shard id
+ */
+export async function collectShardStats(client: Client): Promise<ShardStats[]> {
+    const stats = await broadcastEval(client, (shardClient) => ({
+        id: shardClient.shard ? shardClient.shard.ids[0] : 0,
+        guilds: shardClient.guilds.cache.size,
+        users: shardClient.guilds.cache.reduce((sum, guild) => sum + (guild.memberCount || 0), 0),
+        ping: Math.round(shardClient.ws.ping),
+        memoryBytes: process.memoryUsage().rss,
+    }));
+    return stats.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Finds the names of guilds on whichever shard holds them
+ * @param client the client instance
+ * @param guildIds the guilds to name
+ * @returns the name of each guild the bot is in, by id
+ */
+export async function fetchGuildNames(client: Client, guildIds: string[]): Promise<Map<string, string>> {
+    const results = await broadcastEval(client, (shardClient, { ids }) =>
+        ids.filter((id) => shardClient.guilds.cache.has(id)).map((id) => ({ id, name: shardClient.guilds.cache.get(id)!.name })),
+        { ids: guildIds });
+    return new Map(results.flat().map(({ id, name }) => [id, name]));
+}
+
+/**
+ * Leaves a guild from whichever shard holds it
+ * @param client the client instance
+ * @param guildId the guild to leave
+ * @returns whether the bot was in the guild
+ */
+export async function leaveGuild(client: Client, guildId: string): Promise<boolean> {
+    const results = await broadcastEval(client, (shardClient, { id }) => {
+        const guild = shardClient.guilds.cache.get(id);
+        return guild ? guild.leave().then(() => true) : false;
+    }, { id: guildId });
+    return results.some(Boolean);
+}
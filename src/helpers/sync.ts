@@ -0,0 +1,257 @@
+import {
+    APIApplicationCommand,
+    APIApplicationCommandOption,
+    APIApplicationCommandOptionChoice,
+    ApplicationCommandType,
+    RESTPostAPIApplicationCommandsJSONBody
+} from 'discord.js';
+
+// The JSON body an application command is registered with.
+export type CommandBody = RESTPostAPIApplicationCommandsJSONBody;
+
+// The commands currently registered with Discord, as returned by the API.
+export interface RemoteCommands {
+    global: APIApplicationCommand[];
+    guilds: { [guildId: string]: APIApplicationCommand[] };
+}
+
+// A registered command that needs editing, and the fields that changed.
+export interface CommandEdit {
+    id: string;
+    name: string;
+    type: ApplicationCommandType;
+    changes: string[];
+}
+
+// The changes needed to bring one scope [global or a single guild] in line.
+export interface ScopePlan {
+    guildId: string | null;
+    add: CommandBody[];
+    edit: CommandEdit[];
+    delete: APIApplicationCommand[];
+    unchanged: number;
+    // Every command the scope should hold afterwards, for a bulk overwrite.
+    commands: CommandBody[];
+}
+
+// The changes needed across every scope.
+export interface SyncPlan {
+    global: ScopePlan;
+    guilds: ScopePlan[];
+}
+
+// How the local commands should be registered.
+export interface SyncOptions {
+    // Register globally, otherwise per guild.
+    global: boolean;
+    // The keys of the commands to sync, anything else registered is left alone.
+    scope?: string[];
+}
+
+// The top-level fields compared between local and registered commands.
+const comparedFields = [
+    'type', 'name', 'name_localizations', 'description', 'description_localizations',
+    'options', 'default_member_permissions', 'nsfw', 'contexts', 'integration_types',
+] as const;
+
+// Fields Discord fills in when they are not given, only compared when set locally.
+const serverDefaultedFields = ['contexts', 'integration_types'];
+
+// Fields of a registered command that cannot be sent back when registering it.
+const readOnlyFields = ['id', 'application_id', 'version', 'guild_id', 'dm_permission', 'default_permission'];
+
+/**
+ * Simple function to build the key a command is tracked by
+ * @param command the command body or registered command
+ * @returns the key, made of the command's type and name
+ */
+export function commandBodyKey(command: { type?: ApplicationCommandType, name: string }): string {
+    return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+/**
+ * Simple function to treat empty localisation maps as unset
+ * @param localizations the localisations to normalise
+ * @returns the localisations, or null if there are none
+ */
+function normaliseLocalizations(localizations: { [locale: string]: string | null } | null | undefined) {
+    if (!localizations) return null;
+    const entries = Object.entries(localizations).filter(([, value]) => value).sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+/**
+ * Function to normalise an option, filling in the defaults Discord applies
+ * @param option the option to normalise
+ * @returns the option with a fixed set of keys in a fixed order
+ */
+function normaliseOption(option: APIApplicationCommandOption): object {
+    const choices: APIApplicationCommandOptionChoice[] = 'choices' in option && option.choices ? option.choices : [];
+    const subOptions: APIApplicationCommandOption[] = 'options' in option && option.options ? option.options : [];
+    return {
+        type: option.type,
+        name: option.name,
+        name_localizations: normaliseLocalizations(option.name_localizations),
+        description: option.description,
+        description_localizations: normaliseLocalizations(option.description_localizations),
+        required: option.required ?? false,
+        choices: choices.length
+            ? choices.map((choice) => ({ name: choice.name, name_localizations: normaliseLocalizations(choice.name_localizations), value: choice.value }))
+            : null,
+        min_value: 'min_value' in option ? option.min_value ?? null : null,
+        max_value: 'max_value' in option ? option.max_value ?? null : null,
+        min_length: 'min_length' in option ? option.min_length ?? null : null,
+        max_length: 'max_length' in option ? option.max_length ?? null : null,
+        channel_types: 'channel_types' in option && option.channel_types?.length ? [...option.channel_types].sort() : null,
+        autocomplete: 'autocomplete' in option ? option.autocomplete ?? false : false,
+        options: subOptions.length ? subOptions.map(normaliseOption) : null,
+    };
+}
+
+/**
+ * Function to normalise a command body or registered command so the two can be compared
+ * @param command the command to normalise
+ * @returns the compared fields, with Discord's defaults filled in
+ */
+export function normaliseCommand(command: CommandBody | APIApplicationCommand): { [field: string]: unknown } {
+    const options: APIApplicationCommandOption[] = 'options' in command && command.options ? command.options : [];
+    return {
+        type: command.type ?? ApplicationCommandType.ChatInput,
+        name: command.name,
+        name_localizations: normaliseLocalizations(command.name_localizations),
+        description: ('description' in command && command.description) || '',
+        description_localizations: normaliseLocalizations('description_localizations' in command ? command.description_localizations : null),
+        options: options.length ? options.map(normaliseOption) : null,
+        default_member_permissions: command.default_member_permissions ?? null,
+        nsfw: command.nsfw ?? false,
+        contexts: command.contexts ? [...command.contexts].sort() : null,
+        integration_types: command.integration_types ? [...command.integration_types].sort() : null,
+    };
+}
+
+/**
+ * Function to find which fields of a registered command differ from its local body
+ * @param local the local command body
+ * @param remote the registered command
+ * @returns the fields that changed, empty if none did
+ */
+export function findCommandChanges(local: CommandBody, remote: APIApplicationCommand): string[] {
+    const normalisedLocal = normaliseCommand(local);
+    const normalisedRemote = normaliseCommand(remote);
+
+    return comparedFields.filter((field) => {
+        if (serverDefaultedFields.includes(field) && normalisedLocal[field] === null) return false;
+        return JSON.stringify(normalisedLocal[field]) !== JSON.stringify(normalisedRemote[field]);
+    });
+}
+
+/**
+ * Simple function to turn a registered command back into a body that can be registered
+ * @param remote the registered command
+ * @returns the command body
+ */
+export function remoteToBody(remote: APIApplicationCommand): CommandBody {
+    return Object.fromEntries(Object.entries(remote).filter(([key]) => !readOnlyFields.includes(key))) as CommandBody;
+}
+
+/**
+ * Function to plan the changes for a single scope.
+ * Registered commands outside the sync scope are kept exactly as they are.
+ *
+ * @param guildId the guild the scope belongs to, or null for global
+ * @param desired the commands the scope should hold
+ * @param remote the commands registered in the scope
+ * @param scope the keys of the commands to sync, or every command if omitted
+ * @returns the plan for the scope
+ */
+function planScope(guildId: string | null, desired: CommandBody[], remote: APIApplicationCommand[], scope?: string[]): ScopePlan {
+    const inScope = (command: { type?: ApplicationCommandType, name: string }) => !scope || scope.includes(commandBodyKey(command));
+    const plan: ScopePlan = { guildId, add: [], edit: [], delete: [], unchanged: 0, commands: [] };
+
+    const remaining = new Map<string, APIApplicationCommand>();
+    for (const command of remote) {
+        if (!inScope(command)) {
+            plan.commands.push(remoteToBody(command));
+        } else if (remaining.has(commandBodyKey(command))) {
+            plan.delete.push(command);
+        } else {
+            remaining.set(commandBodyKey(command), command);
+        }
+    }
+
+    for (const command of desired.filter(inScope)) {
+        const key = commandBodyKey(command);
+        const existing = remaining.get(key);
+        remaining.delete(key);
+        plan.commands.push(command);
+
+        if (!existing) {
+            plan.add.push(command);
+            continue;
+        }
+
+        const changes = findCommandChanges(command, existing);
+        if (changes.length > 0) {
+            plan.edit.push({ id: existing.id, name: existing.name, type: existing.type, changes });
+        } else {
+            plan.unchanged++;
+        }
+    }
+
+    // Anything registered in scope without a local command was removed
+    plan.delete.push(...remaining.values());
+    return plan;
+}
+
+/**
+ * Function to plan the changes needed to register the local commands.
+ * In global mode every guild's commands are removed, otherwise every
+ * guild gets the local commands and the global commands are removed.
+ * This makes no requests, so it can be run against fixture JSON.
+ *
+ * @param local the local command bodies
+ * @param remote the commands currently registered
+ * @param options how the commands should be registered
+ * @returns the plan, split by scope
+ */
+export function planSync(local: CommandBody[], remote: RemoteCommands, options: SyncOptions): SyncPlan {
+    return {
+        global: planScope(null, options.global ? local : [], remote.global, options.scope),
+        guilds: Object.entries(remote.guilds).map(([guildId, commands]) =>
+            planScope(guildId, options.global ? [] : local, commands, options.scope)
+        ),
+    };
+}
+
+/**
+ * @param plan the plan for a scope
+ * @returns whether the scope needs any changes
+ */
+export function scopeHasChanges(plan: ScopePlan): boolean {
+    return plan.add.length > 0 || plan.edit.length > 0 || plan.delete.length > 0;
+}
+
+/**
+ * Function to describe a sync plan in a readable form
+ * @param plan the plan to describe
+ * @param includeUnchanged whether to list scopes that need no changes
+ * @returns a line per scope, followed by its changes
+ */
+export function describeSyncPlan(plan: SyncPlan, includeUnchanged: boolean = true): string {
+    const lines: string[] = [];
+
+    for (const scopePlan of [plan.global, ...plan.guilds]) {
+        const scopeName = scopePlan.guildId ? `Guild ${scopePlan.guildId}` : 'Global';
+        if (!scopeHasChanges(scopePlan)) {
+            if (includeUnchanged) lines.push(`${scopeName}: no changes (${scopePlan.unchanged} unchanged)`);
+            continue;
+        }
+
+        lines.push(`${scopeName}: ${scopePlan.add.length} to add, ${scopePlan.edit.length} to edit, ${scopePlan.delete.length} to delete, ${scopePlan.unchanged} unchanged`);
+        scopePlan.add.forEach((command) => lines.push(`  + ${command.name}`));
+        scopePlan.edit.forEach((command) => lines.push(`  ~ ${command.name} (${command.changes.join(', ')})`));
+        scopePlan.delete.forEach((command) => lines.push(`  - ${command.name}`));
+    }
+
+    return lines.join('\n');
+}
@@ -1,12 +1,8 @@
 import { Client, GatewayIntentBits, Partials, Collection } from 'discord.js';
 import { Command } from './handlers/command'
-import { Db as DbConnection } from 'mongodb';
-import { clearCache } from './handlers/botCache';
-import { logError } from './helpers/functions';
+import { ApplicationCommandBuilder } from './helpers/command';
+import { configureLogger, logger } from './helpers/logger';
 import { Config, initialiseConfig, getConfig } from './config.js';
-import cron from 'node-cron';
-import { promises as fs } from 'fs';
-import { exec } from 'child_process';
 
 // Extend Discord.js Client with Custom Properties
 export class CustomClient extends Client {
@@ -14,6 +10,7 @@ export class CustomClient extends Client {
   aliases: Collection<string, string>;
   categories: string[];
   cooldowns: Collection<string, number>;
+  slashCommands: Map<string, ApplicationCommandBuilder>;
 
   constructor() {
     super({
@@ -34,6 +31,7 @@ export class CustomClient extends Client {
     this.aliases = new Collection();
     this.categories = [];
     this.cooldowns = new Collection();
+    this.slashCommands = new Map();
   }
 }
 
@@ -41,74 +39,19 @@ export class CustomClient extends Client {
 async function main() {
   await initialiseConfig();
   const config: Config = getConfig();
-
-  const cNames = config.collectionNames;
-  const db = config.db;
+  configureLogger({ level: config.logLevel, format: config.logFormat });
 
   const client = new CustomClient();
 
   // Load Handlers
-  ["events", "command", "antiCrash"].forEach(async (handler) => {
+  ["logging", "events", "command", "components", "antiCrash", "database", "botCache", "blacklist", "incidents", "analytics", "metrics", "backup", "jobs", "botLists", "reload"].forEach(async (handler) => {
     const module = await import(`./handlers/${handler}`);
     module.default(client);
   });
 
-  // Schedule cron job
-  // Handles DB backups and sends them to a key channel
-  cron.schedule('59 23 * * *', async () => {
-    clearCache();
-
-    await backupCollections([cNames.BOT_GUILDS, cNames.BOT_USERS, cNames.BLACKLIST], db);
-
-    exec("tar -czvf files.tar.gz ./src", async (error, stdout) => {
-      if (error) {
-        return logError(client, error);
-      }
-
-      const channel = client.channels.cache.get(config.backupChannel);
-      if (channel && channel.isTextBased() && channel.isSendable() && client.user) {
-        await channel.send({
-          content: `${client.user.tag} - Backup`,
-          files: ["./files.tar.gz"],
-        });
-      }
-
-      await removeFiles(['files.tar.gz', `${cNames.BOT_GUILDS}.json`, `${cNames.BOT_USERS}.json`, `${cNames.BLACKLIST}.json`]);
-    });
-  });
-
-  // Post data to topGG [if applicable]
-  if (config.topGG && client.user) {
-    const topGGPost = await fetch(`https://top.gg/api/bots/${client.user.id}/stats`, {
-      method: 'POST',
-      body: JSON.stringify({
-        server_count: client.guilds.cache.size
-      })
-    })
-
-    if (topGGPost.status !== 200) {
-      logError(client, 'Error posting to topGG: \n' + await topGGPost.json());
-    }
-  }
-
   // Log in
   await client.login(config.token);
 }
 
-// Backup collections
-async function backupCollections(collectionNames: string[], db: DbConnection) {
-  for (const name of collectionNames) {
-    const data = JSON.stringify(await db.collection(name).find({}).toArray());
-    await fs.writeFile(`${name}.json`, data);
-  }
-}
-
-// Remove files
-async function removeFiles(fileNames: string[]) {
-  for (const fileName of fileNames) {
-    await fs.unlink(fileName);
-  }
-}
-
 // Run main
-main().catch(console.error);
\ No newline at end of file
+main().catch((error) => logger.fatal('Failed to start', { error }));
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { backupCollectionNames, backupDestinations, runBackup } from '../handlers/backup';
+import { CustomClient } from '../index';
+import { Config } from '../config';
+import { logger } from '../helpers/logger';
+
+const log = logger.child('backup');
+
+module.exports = {
+    name: "backup",
+    description: "Backs up the database to every configured destination",
+    interval: (config: Config) => config.backup?.schedule || "59 23 * * *",
+    retries: 3,
+    retryDelay: 5 * 60 * 1000,
+    lockLifetime: 60 * 60 * 1000,
+    run: async (client: CustomClient, config: Config) => {
+        const { manifest, uploaded, failed } = await runBackup(config.db, backupCollectionNames(), backupDestinations(client.rest));
+        const documents = manifest.collections.reduce((sum, entry) => sum + entry.documents, 0);
+        log.info(`Backup ${manifest.id} of ${documents} documents sent to ${uploaded.join(", ") || "no destinations"}.`, { failed });
+
+        // Retry when nothing received the backup, a partial upload is kept as it is
+        if (uploaded.length === 0 && failed.length > 0) {
+            throw new Error(`Backup ${manifest.id} could not be sent to any destination`);
+        }
+    }
+}
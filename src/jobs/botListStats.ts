@@ -0,0 +1,27 @@
+import { configuredBotLists, DEFAULT_STATS_INTERVAL, postBotListStats } from '../handlers/botLists';
+import { CustomClient } from '../index';
+import { Config } from '../config';
+import { logger } from '../helpers/logger';
+
+const log = logger.child('botLists');
+
+module.exports = {
+    name: "botListStats",
+    description: "Posts the server and shard count to every configured bot list",
+    interval: (config: Config) => config.botLists?.interval || DEFAULT_STATS_INTERVAL,
+    retries: 3,
+    retryDelay: 2 * 60 * 1000,
+    enabled: (config: Config) => configuredBotLists(config).length > 0,
+    run: async (client: CustomClient) => {
+        if (!client.isReady()) return;
+
+        const { posted, failed } = await postBotListStats(client);
+        if (posted.length > 0) log.debug(`Posted stats to ${posted.join(", ")}.`);
+
+        // Retry the whole run with backoff, lists that accepted the stats just receive them again
+        const failures = Object.entries(failed).map(([name, reason]) => `${name} (${reason})`);
+        if (failures.length > 0) {
+            throw new Error(`Posting stats failed for ${failures.join(", ")}`);
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import { purgeFinishedJobs } from '../handlers/jobs';
+import { logger } from '../helpers/logger';
+
+const log = logger.child('jobs');
+
+module.exports = {
+    name: "purgeFinishedJobs",
+    description: "Removes finished one-off runs, such as delivered reminders",
+    interval: "1 hour",
+    run: async () => {
+        const purged = await purgeFinishedJobs();
+        if (purged > 0) log.debug(`Purged ${purged} finished job runs.`);
+    }
+}
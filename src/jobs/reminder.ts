@@ -0,0 +1,12 @@
+import { deliverReminder, Reminder } from '../handlers/reminders';
+import { CustomClient } from '../index';
+import { Config } from '../config';
+
+module.exports = {
+    name: "reminder",
+    description: "Delivers a reminder set with the remind command",
+    retries: 2,
+    run: async (client: CustomClient, config: Config, data: Reminder) => {
+        await deliverReminder(client, data);
+    }
+}
@@ -0,0 +1,12 @@
+import { deliverScheduledMessage, ScheduledMessage } from '../handlers/reminders';
+import { CustomClient } from '../index';
+import { Config } from '../config';
+
+module.exports = {
+    name: "scheduledMessage",
+    description: "Posts a message scheduled with the schedule command",
+    retries: 2,
+    run: async (client: CustomClient, config: Config, data: ScheduledMessage) => {
+        await deliverScheduledMessage(client, data);
+    }
+}
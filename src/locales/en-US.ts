@@ -0,0 +1,384 @@
+// The default catalog, every other locale falls back to these translations.
+// Command metadata is written in English in each command, other catalogs translate it under
+// commands.<command>.description and commands.<command>.options.<option>.description,
+// with an optional .name beside either to localise the name shown in Discord.
+module.exports = {
+    embeds: {
+        errorTitle: "Uh oh! :x:",
+        footer: "Prefix {prefix}",
+        incidentFooter: "Prefix {prefix} • Incident {incident}",
+        incidentNotice: "Please quote incident `{incident}` when reporting this.",
+        unexpectedError: "Unexpected Error",
+        syntaxName: "Syntax",
+        syntax: "<> = required, [] = optional, | = OR",
+        usage: "Usage: `{usage}`"
+    },
+    slash: {
+        categoryDescription: "{category} commands",
+        groupDescription: "{group} commands"
+    },
+    errors: {
+        ownerOnly: "This command is restricted to the bot owner.",
+        blacklisted: "You cannot use this bot here.",
+        cooldown: {
+            one: "This command is on cooldown, try again in {count} second.",
+            other: "This command is on cooldown, try again in {count} seconds."
+        },
+        botPermissions: "I am missing the following permissions in this channel: {permissions}",
+        memberPermissions: "You are missing the following permissions in this channel: {permissions}",
+        unknownTarget: "That command or category does not exist."
+    },
+    arguments: {
+        invalidChoice: "`{value}` is not a valid choice for `{option}`. Choose from {choices}.",
+        minValue: "`{option}` must be at least {min}.",
+        maxValue: "`{option}` must be at most {max}.",
+        minLength: {
+            one: "`{option}` must be at least {count} character long.",
+            other: "`{option}` must be at least {count} characters long."
+        },
+        maxLength: {
+            one: "`{option}` must be at most {count} character long.",
+            other: "`{option}` must be at most {count} characters long."
+        },
+        channelType: "`{option}` must be a {types} channel.",
+        invalidValue: "`{value}` is not a valid {type} for `{option}`.",
+        missing: "Missing required option `{option}`.",
+        or: " or ",
+        types: {
+            string: "text",
+            integer: "whole number",
+            number: "number",
+            boolean: "yes or no",
+            user: "user",
+            channel: "channel",
+            role: "role",
+            mentionable: "user or role",
+            attachment: "attachment"
+        }
+    },
+    access: {
+        commandDisabled: "The `{command}` command has been disabled in this server.",
+        categoryDisabled: "The `{category}` category has been disabled in this server.",
+        channelDenied: "The `{command}` command cannot be used in this channel.",
+        roleDenied: "You do not have a role that can use the `{command}` command."
+    },
+    accessRules: {
+        protected: "Access to settings commands cannot be restricted.",
+        mentionRequired: {
+            allow: "Please mention the channels or roles to allow.",
+            deny: "Please mention the channels or roles to deny."
+        },
+        title: "Access - {name}",
+        updated: "Updated the access rules for `{name}`.",
+        current: "The access rules for `{name}`.",
+        allowedChannels: "Allowed Channels",
+        deniedChannels: "Denied Channels",
+        allowedRoles: "Allowed Roles",
+        deniedRoles: "Denied Roles",
+        any: "Any",
+        none: "None"
+    },
+    help: {
+        moduleTitle: "Help - Module",
+        categoryTitle: "Help - {category} [{count}]",
+        categoryLine: "`{command}` - **{category}** commands",
+        moreHelpName: "Need more help?",
+        moreHelpValue: "`{command}`\nFor detailed information and help on specific commands",
+        linksName: "Links",
+        links: {
+            invite: "Invite",
+            support: "Support",
+            vote: "Vote",
+            donate: "Donate",
+            terms: "ToS",
+            privacy: "Privacy"
+        },
+        categoryUnavailable: "The category \"{category}\" does not exist or is hidden.",
+        commandUnavailable: "The command \"{command}\" does not exist or is unavailable here.",
+        commandTitle: "Command Help - {command}",
+        fields: {
+            category: "Category",
+            usage: "Usage",
+            description: "Description",
+            aliases: "Aliases",
+            cooldown: "Cooldown",
+            permissions: "Required Permissions"
+        },
+        defaultCategory: "Miscellaneous",
+        noDescription: "No description provided.",
+        noAliases: "None",
+        noSlashAliases: "None for slash commands",
+        cooldown: {
+            one: "{count} second",
+            other: "{count} seconds"
+        },
+        cooldownScope: "{cooldown} (per {scope})",
+        botPermissions: "Bot: {permissions}",
+        memberPermissions: "Member: {permissions}",
+        noPermissions: "None"
+    },
+    info: {
+        title: "Bot Statistics",
+        prefix: "Prefix",
+        owner: "Client Owner",
+        guilds: "Guild Count",
+        users: "User Count",
+        apiPing: "API Ping",
+        latency: "Client Latency",
+        memory: "Memory Usage",
+        shards: "Shards",
+        shardsValue: "`{count}` (this is `#{shards}`)",
+        cpu: "CPU Usage",
+        calculating: "Calculating.."
+    },
+    components: {
+        page: "Page {page}",
+        pageFooter: "Page {page} of {pages}",
+        selectPage: "Go to a page",
+        jumpTitle: "Jump to page",
+        jumpLabel: "Page number, from 1 to {pages}",
+        yes: "Yes",
+        no: "No",
+        pickPlaceholder: "Choose an option",
+        notYours: "Only the person who used this command can use these controls.",
+        expired: "These controls have expired, use the command again."
+    },
+    locale: {
+        title: "Locale Updated",
+        invalid: "Please choose one of the supported locales:\n{locales}",
+        guildUpdated: "This server's locale is now `{locale}`",
+        guildReset: "This server no longer has a locale, members will see the bot in their own Discord language",
+        userUpdated: "Your locale is now `{locale}`",
+        userReset: "Your locale has been reset, the bot will use this server's locale or your Discord language"
+    },
+    prefix: {
+        title: "Prefix Updated",
+        updated: "Text commands in this server now use the prefix `{prefix}`",
+        length: "The prefix must be between 1 and {max} characters long.",
+        spaces: "The prefix cannot contain spaces."
+    },
+    settings: {
+        title: "Server Settings",
+        resetTitle: "Server Settings - Reset {setting}",
+        unknown: "Unknown setting `{setting}`. Choose from {settings}.",
+        confirmReset: "This resets the prefix, locale, disabled commands and access rules of this server. Continue?",
+        prefix: "Prefix",
+        locale: "Locale",
+        memberLocale: "Each member's Discord language",
+        disabledCommands: "Disabled Commands",
+        disabledCategories: "Disabled Categories",
+        accessRules: "Access Rules",
+        none: "None"
+    },
+    disable: {
+        protected: "Settings commands cannot be disabled.",
+        already: "`{name}` is already disabled.",
+        commandTitle: "Command Disabled",
+        categoryTitle: "Category Disabled",
+        disabled: "`{name}` can no longer be used in this server."
+    },
+    enable: {
+        notDisabled: "`{name}` is not disabled.",
+        commandTitle: "Command Enabled",
+        categoryTitle: "Category Enabled",
+        enabled: "`{name}` can be used in this server again."
+    },
+    userinfo: {
+        title: "User Info - {tag}",
+        user: "User",
+        bot: "Bot",
+        created: "Account Created",
+        nickname: "Nickname",
+        joined: "Joined Server",
+        roles: "Roles [{count}]",
+        moreRoles: " and {count} more",
+        yes: "Yes",
+        no: "No",
+        none: "None",
+        unknown: "Unknown"
+    },
+    remind: {
+        title: "Reminders",
+        listTitle: "Your Reminders [{count}/{max}]",
+        byDm: "by DM",
+        inChannel: "in <#{channel}>",
+        inThisChannel: "in this channel",
+        soon: "soon",
+        none: "You have no reminders, set one with `{command}`.",
+        pickPrompt: "Which reminder should be deleted?",
+        pickPlaceholder: "Choose a reminder",
+        notFound: "You have no reminder `{id}`, see `{command}`.",
+        deleted: "Reminder `{id}` has been deleted.",
+        durationMissing: "Please give a duration such as `2h` or `1 day`.",
+        setTitle: "Reminder Set",
+        set: "I'll remind you {time} {where}.",
+        reminder: "Reminder",
+        id: "ID",
+        delivered: "Reminder",
+        setAt: "Set",
+        setAtValue: "{time} in <#{channel}>",
+        errors: {
+            range: "Reminders must be between {min} and {max} away.",
+            length: "Reminders must say something, in at most {max} characters.",
+            limit: "You can only have {max} reminders at once, delete one first.",
+            unavailable: "Reminders are unavailable right now, please try again later."
+        }
+    },
+    schedule: {
+        title: "Scheduled Messages",
+        listTitle: "Scheduled Messages [{count}/{max}]",
+        entry: "`{id}` <#{channel}> every `{interval}`, next {time}",
+        embedTag: " [embed]",
+        never: "never",
+        none: "This server has no scheduled messages.",
+        notFound: "There is no scheduled message `{id}`, see `{command}`.",
+        deleted: "Scheduled message `{id}` has been deleted.",
+        cannotPost: "I cannot post messages in {channel}.",
+        createdTitle: "Message Scheduled",
+        created: "Posting in {channel} every `{interval}`, first {time}.",
+        message: "Message",
+        id: "ID",
+        errors: {
+            interval: "`{interval}` is not a valid interval, use a duration such as `1 day` or a cron expression such as `0 9 * * 1`.",
+            frequency: "Scheduled messages can be posted at most every {min}.",
+            length: "Scheduled messages must say something, in at most {max} characters.",
+            limit: "A server can only have {max} scheduled messages, delete one first.",
+            unavailable: "Scheduled messages are unavailable right now, please try again later."
+        }
+    },
+    blacklist: {
+        type: "**Type:** {type}",
+        reason: "**Reason:** {reason}",
+        issuedBy: "**Issued by:** <@{user}> {time}",
+        expires: "**Expires:** {time}",
+        never: "Never",
+        types: {
+            user: "user",
+            guild: "server"
+        },
+        addedTitle: "Blacklist - Added",
+        removedTitle: "Blacklist - Removed",
+        entryTitle: "Blacklist - {id}",
+        listTitle: "Blacklist [{count}]",
+        added: "Blacklisted `{id}` {length}.",
+        forDuration: "for {duration}",
+        permanently: "permanently",
+        removed: "Removed `{id}` from the blacklist.",
+        notBlacklisted: "`{id}` is not blacklisted.",
+        empty: "The blacklist is empty.",
+        noReason: "No reason provided",
+        listEntry: "`{id}` ({type}) - {reason} - expires {time}",
+        expiresNever: "never"
+    },
+    incident: {
+        notFound: "Incident `{id}` does not exist.",
+        none: "No incidents have been recorded.",
+        noneRecent: {
+            one: "No incidents in the last day.",
+            other: "No incidents in the last {count} days."
+        },
+        title: "Incident - {id}",
+        stack: "Stack",
+        noStack: "No stack trace recorded.",
+        stackAttached: "Attached as a file.",
+        listTitle: "Recent Incidents [{count}]",
+        groupsTitle: {
+            one: "Incident Groups - last day [{groups}]",
+            other: "Incident Groups - last {count} days [{groups}]"
+        },
+        groupSummary: {
+            one: "**`{fingerprint}`** - {count} incident, last {last}, first {first}",
+            other: "**`{fingerprint}`** - {count} incidents, last {last}, first {first}"
+        },
+        groupCommands: "Commands: {commands} - Latest: `{id}`",
+        command: "**Command:** `{command}`",
+        options: "**Options:** {options}",
+        where: "**Guild:** {guild} **Channel:** {channel}",
+        user: "**User:** <@{user}> `{user}`",
+        when: "**When:** {time}",
+        fingerprint: "**Fingerprint:** `{fingerprint}`",
+        error: "**Error:** {error}",
+        noValue: "None"
+    },
+    stats: {
+        title: "Command Usage - {period} - {page}",
+        overview: "Overview",
+        timeline: "Timeline",
+        topCommands: "Top Commands",
+        guilds: "Guilds",
+        noUsage: "No usage recorded.",
+        totals: {
+            one: "{count} use, {errorRate}% errors, p95 {p95}, avg {average}ms",
+            other: "{count} uses, {errorRate}% errors, p95 {p95}, avg {average}ms"
+        },
+        notApplicable: "n/a",
+        new: "new",
+        noChange: "no change",
+        invokedVia: "**Invoked via:** {sources}",
+        used: "**Commands used:** {commands} **Guilds:** {guilds}",
+        trends: "**Trends** [against the previous period]",
+        trend: {
+            one: "**{period}:** {count} use ({change})",
+            other: "**{period}:** {count} uses ({change})"
+        },
+        failed: " ({count} failed)",
+        commandEntry: "**{rank}.** `{command}` ({category}) - {totals}",
+        guildEntry: "**{rank}.** {name} `{id}` - {totals}",
+        unknownGuild: "Unknown guild",
+        directMessages: "Direct messages",
+        none: "None"
+    },
+    restore: {
+        noDestination: "No `{name}` backup destination is configured.",
+        noDestinations: "No backup destinations are configured.",
+        listTitle: "Backups - {destination} [{count}]",
+        noBackups: "No backups were found.",
+        readFailed: "Backup `{id}` could not be read from {destination}: {error}",
+        title: "Restore - {id}",
+        restoredInto: "Restored into `{database}` from {destination}.",
+        restored: "Restored [{count}]",
+        skipped: "Skipped [{count}]",
+        documents: {
+            one: "`{name}` - {count} document",
+            other: "`{name}` - {count} documents"
+        },
+        none: "None",
+        replaceHint: "Collections holding documents are only restored with --replace.",
+        confirmReplace: "This replaces collections in the live database `{database}` with the ones in backup `{id}`, which cannot be undone. Continue?"
+    },
+    jobs: {
+        title: "Jobs",
+        never: "never",
+        unknown: "Job `{name}` does not exist, see `{command}`.",
+        none: "No jobs are scheduled.",
+        listTitle: "Scheduled Jobs [{count}]",
+        pausedTag: " [paused]",
+        schedule: "Every `{interval}`, next {next}",
+        paused: "paused",
+        lastRun: "Last run {run}",
+        succeeded: "{time} succeeded",
+        failed: "{time} failed: {error}",
+        noHistory: "No job runs have been recorded.",
+        historyTitle: "Job History [{count}]",
+        jobHistoryTitle: "Job History - {name} [{count}]",
+        attempt: " [attempt {attempt}]",
+        manual: " [manual]",
+        outcomes: {
+            run: "Job `{name}` has been queued to run now.",
+            pause: "Job `{name}` is paused until it is resumed.",
+            resume: "Job `{name}` has been resumed."
+        }
+    },
+    reload: {
+        title: "Reload",
+        events: "all events",
+        category: "the `{name}` category",
+        command: "the `{name}` command",
+        nothing: "Nothing was found to reload for {target}.",
+        reloaded: "Reloaded {target}.",
+        reloadedField: "Reloaded [{count}]",
+        failedField: "Failed [{count}]",
+        none: "None",
+        failedHint: "Failed files kept their previous definition, check the console for details."
+    }
+}
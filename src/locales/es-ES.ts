@@ -0,0 +1,464 @@
+module.exports = {
+    embeds: {
+        errorTitle: "¡Vaya! :x:",
+        footer: "Prefijo {prefix}",
+        incidentFooter: "Prefijo {prefix} • Incidencia {incident}",
+        incidentNotice: "Indica la incidencia `{incident}` al informar de esto.",
+        unexpectedError: "Error inesperado",
+        syntaxName: "Sintaxis",
+        syntax: "<> = obligatorio, [] = opcional, | = O",
+        usage: "Uso: `{usage}`"
+    },
+    slash: {
+        categoryDescription: "Comandos de {category}",
+        groupDescription: "Comandos de {group}"
+    },
+    errors: {
+        ownerOnly: "Este comando está reservado al propietario del bot.",
+        blacklisted: "No puedes usar este bot aquí.",
+        cooldown: {
+            one: "Este comando está en espera, vuelve a intentarlo en {count} segundo.",
+            other: "Este comando está en espera, vuelve a intentarlo en {count} segundos."
+        },
+        botPermissions: "Me faltan los siguientes permisos en este canal: {permissions}",
+        memberPermissions: "Te faltan los siguientes permisos en este canal: {permissions}",
+        unknownTarget: "Ese comando o categoría no existe."
+    },
+    arguments: {
+        invalidChoice: "`{value}` no es una opción válida para `{option}`. Elige entre {choices}.",
+        minValue: "`{option}` debe ser como mínimo {min}.",
+        maxValue: "`{option}` debe ser como máximo {max}.",
+        minLength: {
+            one: "`{option}` debe tener al menos {count} carácter.",
+            other: "`{option}` debe tener al menos {count} caracteres."
+        },
+        maxLength: {
+            one: "`{option}` debe tener como máximo {count} carácter.",
+            other: "`{option}` debe tener como máximo {count} caracteres."
+        },
+        channelType: "`{option}` debe ser un canal de tipo {types}.",
+        invalidValue: "`{value}` no es un valor válido de tipo {type} para `{option}`.",
+        missing: "Falta la opción obligatoria `{option}`.",
+        or: " o ",
+        types: {
+            string: "texto",
+            integer: "número entero",
+            number: "número",
+            boolean: "sí o no",
+            user: "usuario",
+            channel: "canal",
+            role: "rol",
+            mentionable: "usuario o rol",
+            attachment: "archivo adjunto"
+        }
+    },
+    access: {
+        commandDisabled: "El comando `{command}` se ha desactivado en este servidor.",
+        categoryDisabled: "La categoría `{category}` se ha desactivado en este servidor.",
+        channelDenied: "El comando `{command}` no se puede usar en este canal.",
+        roleDenied: "No tienes ningún rol que pueda usar el comando `{command}`."
+    },
+    accessRules: {
+        protected: "El acceso a los comandos de ajustes no se puede restringir.",
+        mentionRequired: {
+            allow: "Menciona los canales o roles que quieres permitir.",
+            deny: "Menciona los canales o roles que quieres denegar."
+        },
+        title: "Acceso - {name}",
+        updated: "Se han actualizado las reglas de acceso de `{name}`.",
+        current: "Las reglas de acceso de `{name}`.",
+        allowedChannels: "Canales permitidos",
+        deniedChannels: "Canales denegados",
+        allowedRoles: "Roles permitidos",
+        deniedRoles: "Roles denegados",
+        any: "Cualquiera",
+        none: "Ninguno"
+    },
+    help: {
+        moduleTitle: "Ayuda - Módulo",
+        categoryTitle: "Ayuda - {category} [{count}]",
+        categoryLine: "`{command}` - Comandos de **{category}**",
+        moreHelpName: "¿Necesitas más ayuda?",
+        moreHelpValue: "`{command}`\nPara obtener información y ayuda detallada sobre comandos concretos",
+        linksName: "Enlaces",
+        links: {
+            invite: "Invitar",
+            support: "Soporte",
+            vote: "Votar",
+            donate: "Donar",
+            terms: "Términos",
+            privacy: "Privacidad"
+        },
+        categoryUnavailable: "La categoría \"{category}\" no existe o está oculta.",
+        commandUnavailable: "El comando \"{command}\" no existe o no está disponible aquí.",
+        commandTitle: "Ayuda del comando - {command}",
+        fields: {
+            category: "Categoría",
+            usage: "Uso",
+            description: "Descripción",
+            aliases: "Alias",
+            cooldown: "Tiempo de espera",
+            permissions: "Permisos necesarios"
+        },
+        defaultCategory: "Varios",
+        noDescription: "Sin descripción.",
+        noAliases: "Ninguno",
+        noSlashAliases: "Ninguno para comandos de barra",
+        cooldown: {
+            one: "{count} segundo",
+            other: "{count} segundos"
+        },
+        cooldownScope: "{cooldown} (por {scope})",
+        botPermissions: "Bot: {permissions}",
+        memberPermissions: "Miembro: {permissions}",
+        noPermissions: "Ninguno"
+    },
+    info: {
+        title: "Estadísticas del bot",
+        prefix: "Prefijo",
+        owner: "Propietario",
+        guilds: "Servidores",
+        users: "Usuarios",
+        apiPing: "Ping de la API",
+        latency: "Latencia del cliente",
+        memory: "Uso de memoria",
+        shards: "Shards",
+        shardsValue: "`{count}` (este es `#{shards}`)",
+        cpu: "Uso de CPU",
+        calculating: "Calculando.."
+    },
+    components: {
+        page: "Página {page}",
+        pageFooter: "Página {page} de {pages}",
+        selectPage: "Ir a una página",
+        jumpTitle: "Saltar a la página",
+        jumpLabel: "Número de página, del 1 al {pages}",
+        yes: "Sí",
+        no: "No",
+        pickPlaceholder: "Elige una opción",
+        notYours: "Solo quien usó este comando puede usar estos controles.",
+        expired: "Estos controles han caducado, vuelve a usar el comando."
+    },
+    locale: {
+        title: "Idioma actualizado",
+        invalid: "Elige uno de los idiomas admitidos:\n{locales}",
+        guildUpdated: "El idioma de este servidor ahora es `{locale}`",
+        guildReset: "Este servidor ya no tiene idioma, los miembros verán el bot en su propio idioma de Discord",
+        userUpdated: "Tu idioma ahora es `{locale}`",
+        userReset: "Se ha restablecido tu idioma, el bot usará el idioma de este servidor o tu idioma de Discord"
+    },
+    prefix: {
+        title: "Prefijo actualizado",
+        updated: "Los comandos de texto de este servidor ahora usan el prefijo `{prefix}`",
+        length: "El prefijo debe tener entre 1 y {max} caracteres.",
+        spaces: "El prefijo no puede contener espacios."
+    },
+    settings: {
+        title: "Ajustes del servidor",
+        resetTitle: "Ajustes del servidor - Restablecer {setting}",
+        unknown: "Ajuste desconocido `{setting}`. Elige entre {settings}.",
+        confirmReset: "Esto restablece el prefijo, el idioma, los comandos desactivados y las reglas de acceso de este servidor. ¿Continuar?",
+        prefix: "Prefijo",
+        locale: "Idioma",
+        memberLocale: "El idioma de Discord de cada miembro",
+        disabledCommands: "Comandos desactivados",
+        disabledCategories: "Categorías desactivadas",
+        accessRules: "Reglas de acceso",
+        none: "Ninguno"
+    },
+    disable: {
+        protected: "Los comandos de ajustes no se pueden desactivar.",
+        already: "`{name}` ya está desactivado.",
+        commandTitle: "Comando desactivado",
+        categoryTitle: "Categoría desactivada",
+        disabled: "`{name}` ya no se puede usar en este servidor."
+    },
+    enable: {
+        notDisabled: "`{name}` no está desactivado.",
+        commandTitle: "Comando activado",
+        categoryTitle: "Categoría activada",
+        enabled: "`{name}` se puede volver a usar en este servidor."
+    },
+    userinfo: {
+        title: "Información de usuario - {tag}",
+        user: "Usuario",
+        bot: "Bot",
+        created: "Cuenta creada",
+        nickname: "Apodo",
+        joined: "Se unió al servidor",
+        roles: "Roles [{count}]",
+        moreRoles: " y {count} más",
+        yes: "Sí",
+        no: "No",
+        none: "Ninguno",
+        unknown: "Desconocido"
+    },
+    remind: {
+        title: "Recordatorios",
+        listTitle: "Tus recordatorios [{count}/{max}]",
+        byDm: "por MD",
+        inChannel: "en <#{channel}>",
+        inThisChannel: "en este canal",
+        soon: "pronto",
+        none: "No tienes recordatorios, crea uno con `{command}`.",
+        pickPrompt: "¿Qué recordatorio quieres eliminar?",
+        pickPlaceholder: "Elige un recordatorio",
+        notFound: "No tienes ningún recordatorio `{id}`, consulta `{command}`.",
+        deleted: "Se ha eliminado el recordatorio `{id}`.",
+        durationMissing: "Indica una duración como `2h` o `1 day`.",
+        setTitle: "Recordatorio creado",
+        set: "Te lo recordaré {time} {where}.",
+        reminder: "Recordatorio",
+        id: "ID",
+        delivered: "Recordatorio",
+        setAt: "Creado",
+        setAtValue: "{time} en <#{channel}>",
+        errors: {
+            range: "Los recordatorios deben estar entre {min} y {max} en el futuro.",
+            length: "Los recordatorios deben decir algo, en {max} caracteres como máximo.",
+            limit: "Solo puedes tener {max} recordatorios a la vez, elimina uno primero.",
+            unavailable: "Los recordatorios no están disponibles ahora mismo, inténtalo de nuevo más tarde."
+        }
+    },
+    schedule: {
+        title: "Mensajes programados",
+        listTitle: "Mensajes programados [{count}/{max}]",
+        entry: "`{id}` <#{channel}> cada `{interval}`, el próximo {time}",
+        embedTag: " [embed]",
+        never: "nunca",
+        none: "Este servidor no tiene mensajes programados.",
+        notFound: "No hay ningún mensaje programado `{id}`, consulta `{command}`.",
+        deleted: "Se ha eliminado el mensaje programado `{id}`.",
+        cannotPost: "No puedo publicar mensajes en {channel}.",
+        createdTitle: "Mensaje programado",
+        created: "Se publicará en {channel} cada `{interval}`, la primera vez {time}.",
+        message: "Mensaje",
+        id: "ID",
+        errors: {
+            interval: "`{interval}` no es un intervalo válido, usa una duración como `1 day` o una expresión cron como `0 9 * * 1`.",
+            frequency: "Los mensajes programados se pueden publicar como mucho cada {min}.",
+            length: "Los mensajes programados deben decir algo, en {max} caracteres como máximo.",
+            limit: "Un servidor solo puede tener {max} mensajes programados, elimina uno primero.",
+            unavailable: "Los mensajes programados no están disponibles ahora mismo, inténtalo de nuevo más tarde."
+        }
+    },
+    blacklist: {
+        type: "**Tipo:** {type}",
+        reason: "**Motivo:** {reason}",
+        issuedBy: "**Emitido por:** <@{user}> {time}",
+        expires: "**Caduca:** {time}",
+        never: "Nunca",
+        types: {
+            user: "usuario",
+            guild: "servidor"
+        },
+        addedTitle: "Lista negra - Añadido",
+        removedTitle: "Lista negra - Eliminado",
+        entryTitle: "Lista negra - {id}",
+        listTitle: "Lista negra [{count}]",
+        added: "`{id}` se ha añadido a la lista negra {length}.",
+        forDuration: "durante {duration}",
+        permanently: "de forma permanente",
+        removed: "`{id}` se ha eliminado de la lista negra.",
+        notBlacklisted: "`{id}` no está en la lista negra.",
+        empty: "La lista negra está vacía.",
+        noReason: "No se ha indicado ningún motivo",
+        listEntry: "`{id}` ({type}) - {reason} - caduca {time}",
+        expiresNever: "nunca"
+    },
+    incident: {
+        notFound: "El incidente `{id}` no existe.",
+        none: "No se ha registrado ningún incidente.",
+        noneRecent: {
+            one: "No hay incidentes en el último día.",
+            other: "No hay incidentes en los últimos {count} días."
+        },
+        title: "Incidente - {id}",
+        stack: "Traza",
+        noStack: "No se registró ninguna traza.",
+        stackAttached: "Adjunta como archivo.",
+        listTitle: "Incidentes recientes [{count}]",
+        groupsTitle: {
+            one: "Grupos de incidentes - último día [{groups}]",
+            other: "Grupos de incidentes - últimos {count} días [{groups}]"
+        },
+        groupSummary: {
+            one: "**`{fingerprint}`** - {count} incidente, el último {last}, el primero {first}",
+            other: "**`{fingerprint}`** - {count} incidentes, el último {last}, el primero {first}"
+        },
+        groupCommands: "Comandos: {commands} - Último: `{id}`",
+        command: "**Comando:** `{command}`",
+        options: "**Opciones:** {options}",
+        where: "**Servidor:** {guild} **Canal:** {channel}",
+        user: "**Usuario:** <@{user}> `{user}`",
+        when: "**Cuándo:** {time}",
+        fingerprint: "**Huella:** `{fingerprint}`",
+        error: "**Error:** {error}",
+        noValue: "Ninguno"
+    },
+    stats: {
+        title: "Uso de comandos - {period} - {page}",
+        overview: "Resumen",
+        timeline: "Cronología",
+        topCommands: "Comandos principales",
+        guilds: "Servidores",
+        noUsage: "No se ha registrado ningún uso.",
+        totals: {
+            one: "{count} uso, {errorRate}% de errores, p95 {p95}, media {average}ms",
+            other: "{count} usos, {errorRate}% de errores, p95 {p95}, media {average}ms"
+        },
+        notApplicable: "n/d",
+        new: "nuevo",
+        noChange: "sin cambios",
+        invokedVia: "**Invocado mediante:** {sources}",
+        used: "**Comandos usados:** {commands} **Servidores:** {guilds}",
+        trends: "**Tendencias** [frente al periodo anterior]",
+        trend: {
+            one: "**{period}:** {count} uso ({change})",
+            other: "**{period}:** {count} usos ({change})"
+        },
+        failed: " ({count} fallidos)",
+        commandEntry: "**{rank}.** `{command}` ({category}) - {totals}",
+        guildEntry: "**{rank}.** {name} `{id}` - {totals}",
+        unknownGuild: "Servidor desconocido",
+        directMessages: "Mensajes directos",
+        none: "Ninguno"
+    },
+    restore: {
+        noDestination: "No hay ningún destino de copias `{name}` configurado.",
+        noDestinations: "No hay destinos de copias configurados.",
+        listTitle: "Copias de seguridad - {destination} [{count}]",
+        noBackups: "No se encontró ninguna copia de seguridad.",
+        readFailed: "No se pudo leer la copia `{id}` desde {destination}: {error}",
+        title: "Restauración - {id}",
+        restoredInto: "Restaurado en `{database}` desde {destination}.",
+        restored: "Restauradas [{count}]",
+        skipped: "Omitidas [{count}]",
+        documents: {
+            one: "`{name}` - {count} documento",
+            other: "`{name}` - {count} documentos"
+        },
+        none: "Ninguna",
+        replaceHint: "Las colecciones con documentos solo se restauran con --replace.",
+        confirmReplace: "Esto sustituye colecciones de la base de datos en uso `{database}` por las de la copia `{id}`, y no se puede deshacer. ¿Continuar?"
+    },
+    jobs: {
+        title: "Tareas",
+        never: "nunca",
+        unknown: "La tarea `{name}` no existe, consulta `{command}`.",
+        none: "No hay tareas programadas.",
+        listTitle: "Tareas programadas [{count}]",
+        pausedTag: " [en pausa]",
+        schedule: "Cada `{interval}`, la próxima {next}",
+        paused: "en pausa",
+        lastRun: "Última ejecución {run}",
+        succeeded: "{time} correcta",
+        failed: "{time} fallida: {error}",
+        noHistory: "No se ha registrado ninguna ejecución.",
+        historyTitle: "Historial de tareas [{count}]",
+        jobHistoryTitle: "Historial de tareas - {name} [{count}]",
+        attempt: " [intento {attempt}]",
+        manual: " [manual]",
+        outcomes: {
+            run: "La tarea `{name}` se ejecutará ahora.",
+            pause: "La tarea `{name}` está en pausa hasta que se reanude.",
+            resume: "La tarea `{name}` se ha reanudado."
+        }
+    },
+    reload: {
+        title: "Recarga",
+        events: "todos los eventos",
+        category: "la categoría `{name}`",
+        command: "el comando `{name}`",
+        nothing: "No se encontró nada que recargar para {target}.",
+        reloaded: "Recarga completada para {target}.",
+        reloadedField: "Recargados [{count}]",
+        failedField: "Fallidos [{count}]",
+        none: "Ninguno",
+        failedHint: "Los archivos fallidos mantienen su definición anterior, revisa la consola para más detalles."
+    },
+    commands: {
+        help: {
+            description: "Ayuda de todos los comandos, o de un comando concreto",
+            options: {
+                category: { description: "La categoría de la que ver los comandos" },
+                command: { description: "El comando del que ver la ayuda" }
+            }
+        },
+        info: {
+            description: "Muestra información y estadísticas del bot"
+        },
+        userinfo: {
+            description: "Muestra información sobre un usuario",
+            options: {
+                user: { description: "El usuario que ver, por defecto tú mismo" }
+            }
+        },
+        mylocale: {
+            description: "Cambia el idioma en el que el bot te responde",
+            options: {
+                locale: { description: "El idioma que usar, por ejemplo es-ES, o \"reset\" para seguir al servidor" }
+            }
+        },
+        access: {
+            description: "Permite o deniega un comando o categoría en canales concretos o para roles concretos",
+            options: {
+                target: { description: "El comando o la categoría cuyo acceso cambiar" },
+                action: { description: "Si permitir, denegar o restablecer el acceso (muestra las reglas si se omite)" },
+                channel: { description: "El canal que permitir o denegar" },
+                role: { description: "El rol que permitir o denegar" }
+            }
+        },
+        disable: {
+            description: "Desactiva un comando o una categoría entera en este servidor",
+            options: {
+                target: { description: "El comando o la categoría que desactivar" }
+            }
+        },
+        enable: {
+            description: "Vuelve a activar un comando o una categoría desactivados en este servidor",
+            options: {
+                target: { description: "El comando o la categoría que activar" }
+            }
+        },
+        locale: {
+            description: "Cambia el idioma en el que el bot responde en este servidor",
+            options: {
+                locale: { description: "El idioma que usar, por ejemplo es-ES, o \"reset\" para seguir el idioma de cada miembro" }
+            }
+        },
+        prefix: {
+            description: "Cambia el prefijo de los comandos de texto en este servidor",
+            options: {
+                prefix: { description: "El nuevo prefijo, o \"reset\" para restablecer el predeterminado" }
+            }
+        },
+        settings: {
+            description: "Muestra los ajustes de este servidor, o restablece sus valores predeterminados",
+            options: {
+                reset: { description: "El ajuste que restablecer" }
+            }
+        },
+        remind: {
+            description: "Crea un recordatorio, enviado por MD o en este canal",
+            options: {
+                action: { description: "Si crear, listar o eliminar recordatorios" },
+                in: { description: "Cuánto falta para el recordatorio, como 2h o 1 day" },
+                message: { description: "Qué quieres que te recuerde" },
+                delivery: { description: "Dónde enviar el recordatorio, por defecto por MD" },
+                id: { description: "El recordatorio que eliminar" }
+            }
+        },
+        schedule: {
+            description: "Publica un mensaje o embed en un canal de forma periódica",
+            options: {
+                action: { description: "Si añadir, listar o eliminar mensajes programados" },
+                channel: { description: "El canal en el que publicar" },
+                interval: { description: "Cada cuánto publicar, como 1 day o una expresión cron como 0 9 * * 1" },
+                message: { description: "Qué publicar" },
+                embed: { description: "Si publicar el mensaje como embed" },
+                id: { description: "El mensaje programado que eliminar" }
+            }
+        }
+    }
+}
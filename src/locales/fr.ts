@@ -0,0 +1,464 @@
+module.exports = {
+    embeds: {
+        errorTitle: "Oups ! :x:",
+        footer: "Préfixe {prefix}",
+        incidentFooter: "Préfixe {prefix} • Incident {incident}",
+        incidentNotice: "Merci d'indiquer l'incident `{incident}` en le signalant.",
+        unexpectedError: "Erreur inattendue",
+        syntaxName: "Syntaxe",
+        syntax: "<> = obligatoire, [] = facultatif, | = OU",
+        usage: "Utilisation : `{usage}`"
+    },
+    slash: {
+        categoryDescription: "Commandes {category}",
+        groupDescription: "Commandes {group}"
+    },
+    errors: {
+        ownerOnly: "Cette commande est réservée au propriétaire du bot.",
+        blacklisted: "Vous ne pouvez pas utiliser ce bot ici.",
+        cooldown: {
+            one: "Cette commande est en recharge, réessayez dans {count} seconde.",
+            other: "Cette commande est en recharge, réessayez dans {count} secondes."
+        },
+        botPermissions: "Il me manque les permissions suivantes dans ce salon : {permissions}",
+        memberPermissions: "Il vous manque les permissions suivantes dans ce salon : {permissions}",
+        unknownTarget: "Cette commande ou catégorie n'existe pas."
+    },
+    arguments: {
+        invalidChoice: "`{value}` n'est pas un choix valide pour `{option}`. Choisissez parmi {choices}.",
+        minValue: "`{option}` doit valoir au moins {min}.",
+        maxValue: "`{option}` doit valoir au plus {max}.",
+        minLength: {
+            one: "`{option}` doit contenir au moins {count} caractère.",
+            other: "`{option}` doit contenir au moins {count} caractères."
+        },
+        maxLength: {
+            one: "`{option}` doit contenir au plus {count} caractère.",
+            other: "`{option}` doit contenir au plus {count} caractères."
+        },
+        channelType: "`{option}` doit être un salon de type {types}.",
+        invalidValue: "`{value}` n'est pas une valeur de type {type} valide pour `{option}`.",
+        missing: "L'option obligatoire `{option}` est manquante.",
+        or: " ou ",
+        types: {
+            string: "texte",
+            integer: "nombre entier",
+            number: "nombre",
+            boolean: "oui ou non",
+            user: "utilisateur",
+            channel: "salon",
+            role: "rôle",
+            mentionable: "utilisateur ou rôle",
+            attachment: "pièce jointe"
+        }
+    },
+    access: {
+        commandDisabled: "La commande `{command}` a été désactivée sur ce serveur.",
+        categoryDisabled: "La catégorie `{category}` a été désactivée sur ce serveur.",
+        channelDenied: "La commande `{command}` ne peut pas être utilisée dans ce salon.",
+        roleDenied: "Vous n'avez aucun rôle permettant d'utiliser la commande `{command}`."
+    },
+    accessRules: {
+        protected: "L'accès aux commandes de paramètres ne peut pas être restreint.",
+        mentionRequired: {
+            allow: "Veuillez mentionner les salons ou rôles à autoriser.",
+            deny: "Veuillez mentionner les salons ou rôles à refuser."
+        },
+        title: "Accès - {name}",
+        updated: "Les règles d'accès de `{name}` ont été mises à jour.",
+        current: "Les règles d'accès de `{name}`.",
+        allowedChannels: "Salons autorisés",
+        deniedChannels: "Salons refusés",
+        allowedRoles: "Rôles autorisés",
+        deniedRoles: "Rôles refusés",
+        any: "Tous",
+        none: "Aucun"
+    },
+    help: {
+        moduleTitle: "Aide - Module",
+        categoryTitle: "Aide - {category} [{count}]",
+        categoryLine: "`{command}` - Commandes **{category}**",
+        moreHelpName: "Besoin de plus d'aide ?",
+        moreHelpValue: "`{command}`\nPour des informations détaillées et de l'aide sur une commande précise",
+        linksName: "Liens",
+        links: {
+            invite: "Inviter",
+            support: "Support",
+            vote: "Voter",
+            donate: "Faire un don",
+            terms: "CGU",
+            privacy: "Confidentialité"
+        },
+        categoryUnavailable: "La catégorie « {category} » n'existe pas ou est masquée.",
+        commandUnavailable: "La commande « {command} » n'existe pas ou n'est pas disponible ici.",
+        commandTitle: "Aide de la commande - {command}",
+        fields: {
+            category: "Catégorie",
+            usage: "Utilisation",
+            description: "Description",
+            aliases: "Alias",
+            cooldown: "Temps de recharge",
+            permissions: "Permissions requises"
+        },
+        defaultCategory: "Divers",
+        noDescription: "Aucune description.",
+        noAliases: "Aucun",
+        noSlashAliases: "Aucun pour les commandes slash",
+        cooldown: {
+            one: "{count} seconde",
+            other: "{count} secondes"
+        },
+        cooldownScope: "{cooldown} (par {scope})",
+        botPermissions: "Bot : {permissions}",
+        memberPermissions: "Membre : {permissions}",
+        noPermissions: "Aucune"
+    },
+    info: {
+        title: "Statistiques du bot",
+        prefix: "Préfixe",
+        owner: "Propriétaire",
+        guilds: "Serveurs",
+        users: "Utilisateurs",
+        apiPing: "Ping de l'API",
+        latency: "Latence du client",
+        memory: "Mémoire utilisée",
+        shards: "Shards",
+        shardsValue: "`{count}` (celui-ci est `#{shards}`)",
+        cpu: "Utilisation du CPU",
+        calculating: "Calcul en cours.."
+    },
+    components: {
+        page: "Page {page}",
+        pageFooter: "Page {page} sur {pages}",
+        selectPage: "Aller à une page",
+        jumpTitle: "Aller à la page",
+        jumpLabel: "Numéro de page, de 1 à {pages}",
+        yes: "Oui",
+        no: "Non",
+        pickPlaceholder: "Choisissez une option",
+        notYours: "Seule la personne ayant utilisé cette commande peut utiliser ces contrôles.",
+        expired: "Ces contrôles ont expiré, utilisez à nouveau la commande."
+    },
+    locale: {
+        title: "Langue mise à jour",
+        invalid: "Veuillez choisir l'une des langues prises en charge :\n{locales}",
+        guildUpdated: "La langue de ce serveur est désormais `{locale}`",
+        guildReset: "Ce serveur n'a plus de langue, les membres verront le bot dans leur propre langue Discord",
+        userUpdated: "Votre langue est désormais `{locale}`",
+        userReset: "Votre langue a été réinitialisée, le bot utilisera la langue de ce serveur ou votre langue Discord"
+    },
+    prefix: {
+        title: "Préfixe mis à jour",
+        updated: "Les commandes textuelles de ce serveur utilisent désormais le préfixe `{prefix}`",
+        length: "Le préfixe doit contenir entre 1 et {max} caractères.",
+        spaces: "Le préfixe ne peut pas contenir d'espaces."
+    },
+    settings: {
+        title: "Paramètres du serveur",
+        resetTitle: "Paramètres du serveur - Réinitialiser {setting}",
+        unknown: "Paramètre inconnu `{setting}`. Choisissez parmi {settings}.",
+        confirmReset: "Cela réinitialise le préfixe, la langue, les commandes désactivées et les règles d'accès de ce serveur. Continuer ?",
+        prefix: "Préfixe",
+        locale: "Langue",
+        memberLocale: "La langue Discord de chaque membre",
+        disabledCommands: "Commandes désactivées",
+        disabledCategories: "Catégories désactivées",
+        accessRules: "Règles d'accès",
+        none: "Aucune"
+    },
+    disable: {
+        protected: "Les commandes de paramètres ne peuvent pas être désactivées.",
+        already: "`{name}` est déjà désactivé.",
+        commandTitle: "Commande désactivée",
+        categoryTitle: "Catégorie désactivée",
+        disabled: "`{name}` ne peut plus être utilisé sur ce serveur."
+    },
+    enable: {
+        notDisabled: "`{name}` n'est pas désactivé.",
+        commandTitle: "Commande activée",
+        categoryTitle: "Catégorie activée",
+        enabled: "`{name}` peut de nouveau être utilisé sur ce serveur."
+    },
+    userinfo: {
+        title: "Informations sur l'utilisateur - {tag}",
+        user: "Utilisateur",
+        bot: "Bot",
+        created: "Compte créé",
+        nickname: "Surnom",
+        joined: "A rejoint le serveur",
+        roles: "Rôles [{count}]",
+        moreRoles: " et {count} de plus",
+        yes: "Oui",
+        no: "Non",
+        none: "Aucun",
+        unknown: "Inconnu"
+    },
+    remind: {
+        title: "Rappels",
+        listTitle: "Vos rappels [{count}/{max}]",
+        byDm: "en MP",
+        inChannel: "dans <#{channel}>",
+        inThisChannel: "dans ce salon",
+        soon: "bientôt",
+        none: "Vous n'avez aucun rappel, créez-en un avec `{command}`.",
+        pickPrompt: "Quel rappel faut-il supprimer ?",
+        pickPlaceholder: "Choisissez un rappel",
+        notFound: "Vous n'avez aucun rappel `{id}`, voir `{command}`.",
+        deleted: "Le rappel `{id}` a été supprimé.",
+        durationMissing: "Veuillez indiquer une durée comme `2h` ou `1 day`.",
+        setTitle: "Rappel créé",
+        set: "Je vous le rappellerai {time} {where}.",
+        reminder: "Rappel",
+        id: "ID",
+        delivered: "Rappel",
+        setAt: "Créé",
+        setAtValue: "{time} dans <#{channel}>",
+        errors: {
+            range: "Les rappels doivent être prévus entre {min} et {max} à l'avance.",
+            length: "Les rappels doivent contenir un message, de {max} caractères au plus.",
+            limit: "Vous ne pouvez avoir que {max} rappels à la fois, supprimez-en un d'abord.",
+            unavailable: "Les rappels sont indisponibles pour le moment, réessayez plus tard."
+        }
+    },
+    schedule: {
+        title: "Messages programmés",
+        listTitle: "Messages programmés [{count}/{max}]",
+        entry: "`{id}` <#{channel}> tous les `{interval}`, prochain {time}",
+        embedTag: " [embed]",
+        never: "jamais",
+        none: "Ce serveur n'a aucun message programmé.",
+        notFound: "Il n'y a aucun message programmé `{id}`, voir `{command}`.",
+        deleted: "Le message programmé `{id}` a été supprimé.",
+        cannotPost: "Je ne peux pas publier de messages dans {channel}.",
+        createdTitle: "Message programmé",
+        created: "Publication dans {channel} tous les `{interval}`, la première {time}.",
+        message: "Message",
+        id: "ID",
+        errors: {
+            interval: "`{interval}` n'est pas un intervalle valide, utilisez une durée comme `1 day` ou une expression cron comme `0 9 * * 1`.",
+            frequency: "Les messages programmés peuvent être publiés au plus toutes les {min}.",
+            length: "Les messages programmés doivent contenir un message, de {max} caractères au plus.",
+            limit: "Un serveur ne peut avoir que {max} messages programmés, supprimez-en un d'abord.",
+            unavailable: "Les messages programmés sont indisponibles pour le moment, réessayez plus tard."
+        }
+    },
+    blacklist: {
+        type: "**Type :** {type}",
+        reason: "**Raison :** {reason}",
+        issuedBy: "**Émis par :** <@{user}> {time}",
+        expires: "**Expire :** {time}",
+        never: "Jamais",
+        types: {
+            user: "utilisateur",
+            guild: "serveur"
+        },
+        addedTitle: "Liste noire - Ajout",
+        removedTitle: "Liste noire - Retrait",
+        entryTitle: "Liste noire - {id}",
+        listTitle: "Liste noire [{count}]",
+        added: "`{id}` a été ajouté à la liste noire {length}.",
+        forDuration: "pour {duration}",
+        permanently: "définitivement",
+        removed: "`{id}` a été retiré de la liste noire.",
+        notBlacklisted: "`{id}` n'est pas sur la liste noire.",
+        empty: "La liste noire est vide.",
+        noReason: "Aucune raison fournie",
+        listEntry: "`{id}` ({type}) - {reason} - expire {time}",
+        expiresNever: "jamais"
+    },
+    incident: {
+        notFound: "L'incident `{id}` n'existe pas.",
+        none: "Aucun incident n'a été enregistré.",
+        noneRecent: {
+            one: "Aucun incident au cours du dernier jour.",
+            other: "Aucun incident au cours des {count} derniers jours."
+        },
+        title: "Incident - {id}",
+        stack: "Trace",
+        noStack: "Aucune trace enregistrée.",
+        stackAttached: "Jointe en tant que fichier.",
+        listTitle: "Incidents récents [{count}]",
+        groupsTitle: {
+            one: "Groupes d'incidents - dernier jour [{groups}]",
+            other: "Groupes d'incidents - {count} derniers jours [{groups}]"
+        },
+        groupSummary: {
+            one: "**`{fingerprint}`** - {count} incident, dernier {last}, premier {first}",
+            other: "**`{fingerprint}`** - {count} incidents, dernier {last}, premier {first}"
+        },
+        groupCommands: "Commandes : {commands} - Dernier : `{id}`",
+        command: "**Commande :** `{command}`",
+        options: "**Options :** {options}",
+        where: "**Serveur :** {guild} **Salon :** {channel}",
+        user: "**Utilisateur :** <@{user}> `{user}`",
+        when: "**Quand :** {time}",
+        fingerprint: "**Empreinte :** `{fingerprint}`",
+        error: "**Erreur :** {error}",
+        noValue: "Aucun"
+    },
+    stats: {
+        title: "Utilisation des commandes - {period} - {page}",
+        overview: "Aperçu",
+        timeline: "Chronologie",
+        topCommands: "Commandes les plus utilisées",
+        guilds: "Serveurs",
+        noUsage: "Aucune utilisation enregistrée.",
+        totals: {
+            one: "{count} utilisation, {errorRate} % d'erreurs, p95 {p95}, moy. {average} ms",
+            other: "{count} utilisations, {errorRate} % d'erreurs, p95 {p95}, moy. {average} ms"
+        },
+        notApplicable: "n/d",
+        new: "nouveau",
+        noChange: "aucun changement",
+        invokedVia: "**Invoquée via :** {sources}",
+        used: "**Commandes utilisées :** {commands} **Serveurs :** {guilds}",
+        trends: "**Tendances** [par rapport à la période précédente]",
+        trend: {
+            one: "**{period} :** {count} utilisation ({change})",
+            other: "**{period} :** {count} utilisations ({change})"
+        },
+        failed: " ({count} en échec)",
+        commandEntry: "**{rank}.** `{command}` ({category}) - {totals}",
+        guildEntry: "**{rank}.** {name} `{id}` - {totals}",
+        unknownGuild: "Serveur inconnu",
+        directMessages: "Messages privés",
+        none: "Aucune"
+    },
+    restore: {
+        noDestination: "Aucune destination de sauvegarde `{name}` n'est configurée.",
+        noDestinations: "Aucune destination de sauvegarde n'est configurée.",
+        listTitle: "Sauvegardes - {destination} [{count}]",
+        noBackups: "Aucune sauvegarde trouvée.",
+        readFailed: "La sauvegarde `{id}` n'a pas pu être lue depuis {destination} : {error}",
+        title: "Restauration - {id}",
+        restoredInto: "Restauré dans `{database}` depuis {destination}.",
+        restored: "Restaurées [{count}]",
+        skipped: "Ignorées [{count}]",
+        documents: {
+            one: "`{name}` - {count} document",
+            other: "`{name}` - {count} documents"
+        },
+        none: "Aucune",
+        replaceHint: "Les collections contenant des documents ne sont restaurées qu'avec --replace.",
+        confirmReplace: "Cela remplace des collections de la base de données en service `{database}` par celles de la sauvegarde `{id}`, sans retour possible. Continuer ?"
+    },
+    jobs: {
+        title: "Tâches",
+        never: "jamais",
+        unknown: "La tâche `{name}` n'existe pas, voir `{command}`.",
+        none: "Aucune tâche n'est planifiée.",
+        listTitle: "Tâches planifiées [{count}]",
+        pausedTag: " [en pause]",
+        schedule: "Tous les `{interval}`, prochaine {next}",
+        paused: "en pause",
+        lastRun: "Dernière exécution {run}",
+        succeeded: "{time} réussie",
+        failed: "{time} en échec : {error}",
+        noHistory: "Aucune exécution n'a été enregistrée.",
+        historyTitle: "Historique des tâches [{count}]",
+        jobHistoryTitle: "Historique des tâches - {name} [{count}]",
+        attempt: " [tentative {attempt}]",
+        manual: " [manuelle]",
+        outcomes: {
+            run: "La tâche `{name}` va être exécutée maintenant.",
+            pause: "La tâche `{name}` est en pause jusqu'à sa reprise.",
+            resume: "La tâche `{name}` a repris."
+        }
+    },
+    reload: {
+        title: "Rechargement",
+        events: "tous les événements",
+        category: "la catégorie `{name}`",
+        command: "la commande `{name}`",
+        nothing: "Rien à recharger pour {target}.",
+        reloaded: "Rechargement terminé pour {target}.",
+        reloadedField: "Rechargés [{count}]",
+        failedField: "En échec [{count}]",
+        none: "Aucun",
+        failedHint: "Les fichiers en échec conservent leur définition précédente, consultez la console pour plus de détails."
+    },
+    commands: {
+        help: {
+            description: "Aide pour toutes les commandes, ou pour une commande précise",
+            options: {
+                category: { description: "La catégorie dont afficher les commandes" },
+                command: { description: "La commande dont afficher l'aide" }
+            }
+        },
+        info: {
+            description: "Affiche les informations et statistiques du bot"
+        },
+        userinfo: {
+            description: "Affiche des informations sur un utilisateur",
+            options: {
+                user: { description: "L'utilisateur à afficher, vous-même par défaut" }
+            }
+        },
+        mylocale: {
+            description: "Change la langue dans laquelle le bot vous répond",
+            options: {
+                locale: { description: "La langue à utiliser, par exemple fr, ou « reset » pour suivre le serveur" }
+            }
+        },
+        access: {
+            description: "Autorise ou refuse une commande ou catégorie dans certains salons ou pour certains rôles",
+            options: {
+                target: { description: "La commande ou la catégorie dont modifier l'accès" },
+                action: { description: "Autoriser, refuser ou réinitialiser l'accès (affiche les règles si omis)" },
+                channel: { description: "Le salon à autoriser ou refuser" },
+                role: { description: "Le rôle à autoriser ou refuser" }
+            }
+        },
+        disable: {
+            description: "Désactive une commande ou une catégorie entière sur ce serveur",
+            options: {
+                target: { description: "La commande ou la catégorie à désactiver" }
+            }
+        },
+        enable: {
+            description: "Réactive une commande ou une catégorie désactivée sur ce serveur",
+            options: {
+                target: { description: "La commande ou la catégorie à activer" }
+            }
+        },
+        locale: {
+            description: "Change la langue dans laquelle le bot répond sur ce serveur",
+            options: {
+                locale: { description: "La langue à utiliser, par exemple fr, ou « reset » pour suivre la langue de chaque membre" }
+            }
+        },
+        prefix: {
+            description: "Change le préfixe des commandes textuelles sur ce serveur",
+            options: {
+                prefix: { description: "Le nouveau préfixe, ou « reset » pour rétablir celui par défaut" }
+            }
+        },
+        settings: {
+            description: "Affiche les paramètres de ce serveur, ou les réinitialise",
+            options: {
+                reset: { description: "Le paramètre à réinitialiser" }
+            }
+        },
+        remind: {
+            description: "Crée un rappel, envoyé en MP ou dans ce salon",
+            options: {
+                action: { description: "Créer, lister ou supprimer des rappels" },
+                in: { description: "Dans combien de temps, par exemple 2h ou 1 day" },
+                message: { description: "Ce dont il faut vous rappeler" },
+                delivery: { description: "Où envoyer le rappel, en MP par défaut" },
+                id: { description: "Le rappel à supprimer" }
+            }
+        },
+        schedule: {
+            description: "Publie un message ou un embed dans un salon de façon récurrente",
+            options: {
+                action: { description: "Ajouter, lister ou supprimer des messages programmés" },
+                channel: { description: "Le salon où publier" },
+                interval: { description: "La fréquence de publication, par exemple 1 day ou une expression cron comme 0 9 * * 1" },
+                message: { description: "Ce qu'il faut publier" },
+                embed: { description: "Publier le message sous forme d'embed" },
+                id: { description: "Le message programmé à supprimer" }
+            }
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import { initialiseConfig, getConfig } from './config.js';
+import { loadMigrations, migrateDown, migrateUp, migrationStatus } from './handlers/migrations';
+
+// Usage: node dist/migrate.js <status|up [migration]|down [steps]>
+// status lists every migration and when it was applied.
+// up applies pending migrations, up to and including the one given.
+// down reverts the most recently applied migrations, one unless a number of steps is given.
+
+// Main Function
+async function main() {
+  const [command, argument] = process.argv.slice(2);
+  if (!['status', 'up', 'down'].includes(command)) {
+    throw new Error('Usage: node dist/migrate.js <status|up [migration]|down [steps]>');
+  }
+
+  await initialiseConfig();
+  const db = getConfig().db;
+  const migrations = await loadMigrations();
+
+  switch (command) {
+    case 'status': {
+      const statuses = await migrationStatus(db, migrations);
+      statuses.forEach((status) => console.log(
+        `${status.appliedAt ? `applied ${status.appliedAt.toISOString()}` : 'pending'.padEnd(32)}  ${status.id}  ${status.description}${status.reversible ? '' : ' [irreversible]'}`
+      ));
+      if (statuses.length === 0) console.log('There are no migrations.');
+      return;
+    }
+    case 'up': {
+      const applied = await migrateUp(db, migrations, argument);
+      console.log(applied.length > 0 ? `Applied ${applied.join(', ')}.` : 'No migrations were pending.');
+      return;
+    }
+    case 'down': {
+      const steps = argument ? Number(argument) : 1;
+      if (!Number.isInteger(steps) || steps < 1) throw new Error('Steps must be a whole number of at least 1.');
+      const reverted = await migrateDown(db, migrations, steps);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.join(', ')}.` : 'No migrations were applied.');
+      return;
+    }
+  }
+}
+
+// Run main
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,15 @@
+import { Db as DbConnection } from 'mongodb';
+import { getConfig } from '../config';
+
+// Resetting every setting used to leave an empty guild document behind. Guilds without
+// a document now read as defaults and are cached as such, so the empty ones are removed.
+module.exports = {
+    description: "Removes guild documents that hold no settings",
+    up: async (db: DbConnection) => {
+        await db.collection(getConfig().collectionNames.BOT_GUILDS).deleteMany({
+            $or: [{ data: { $exists: false } }, { data: null }, { data: {} }],
+        });
+    },
+    // The removed documents held no settings, so there is nothing to put back
+    down: async () => { },
+}
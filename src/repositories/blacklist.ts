@@ -0,0 +1,54 @@
+import { Db as DbConnection } from 'mongodb';
+import { getConfig } from '../config';
+import { Repository } from './repository';
+
+// The kinds of entity that can be blacklisted.
+export type BlacklistType = 'user' | 'guild';
+export const blacklistTypes: BlacklistType[] = ['user', 'guild'];
+
+// The structure of a blacklist entry, keyed by the user or guild id.
+export interface BlacklistEntry {
+    _id: string;
+    type: BlacklistType;
+    reason: string;
+    issuedBy: string;
+    issuedAt: Date;
+    expiresAt: Date | null;
+}
+
+/**
+ * The users and guilds barred from using the bot, keyed by their id.
+ */
+export class BlacklistRepository extends Repository<BlacklistEntry> {
+    constructor(db: DbConnection, collectionName: string = getConfig().collectionNames.BLACKLIST) {
+        super(db, collectionName);
+    }
+
+    async ensureIndexes() {
+        // Mongo removes expired entries itself, permanent entries have no expiry and are kept
+        await this.collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    }
+
+    /**
+     * @returns every stored entry, including any that expired since Mongo last removed them
+     */
+    async findAll(): Promise<BlacklistEntry[]> {
+        return this.collection.find({}).toArray();
+    }
+
+    /**
+     * Adds or replaces an entry
+     * @param entry the entry to store
+     */
+    async upsert(entry: BlacklistEntry) {
+        await this.collection.replaceOne({ _id: entry._id }, entry, { upsert: true });
+    }
+
+    /**
+     * @param id the user or guild id to remove
+     * @returns whether an entry was removed
+     */
+    async delete(id: string): Promise<boolean> {
+        return (await this.collection.deleteOne({ _id: id })).deletedCount > 0;
+    }
+}
@@ -0,0 +1,63 @@
+import { ChangeStream, Db as DbConnection } from 'mongodb';
+import { getConfig } from '../config';
+import { GuildSettings } from '../handlers/guildSettings';
+import { Repository } from './repository';
+
+// A guild's settings as stored, only those changed from the defaults are present.
+export type GuildData = Partial<GuildSettings>;
+
+// The structure of a guild document in the database.
+export interface GuildDocument {
+    _id: string;
+    data?: GuildData | null;
+}
+
+/**
+ * The settings of each guild, keyed by guild id.
+ */
+export class GuildRepository extends Repository<GuildDocument> {
+    constructor(db: DbConnection, collectionName: string = getConfig().collectionNames.BOT_GUILDS) {
+        super(db, collectionName);
+    }
+
+    async ensureIndexes() {
+        // Guilds are only ever looked up by id
+    }
+
+    /**
+     * @param guildId the guild to fetch
+     * @returns the guild's stored settings, or null if it has none
+     */
+    async findData(guildId: string): Promise<GuildData | null> {
+        const document = await this.collection.findOne({ _id: guildId }, { projection: { data: 1 } });
+        return document?.data ?? null;
+    }
+
+    /**
+     * Sets some of a guild's settings, creating its document if needed
+     * @param guildId the guild to update
+     * @param changes the settings to set
+     */
+    async updateData(guildId: string, changes: GuildData) {
+        const update = Object.fromEntries(Object.entries(changes).map(([key, value]) => [`data.${key}`, value]));
+        await this.collection.updateOne({ _id: guildId }, { $set: update }, { upsert: true });
+    }
+
+    /**
+     * Removes some of a guild's settings, so they fall back to their defaults
+     * @param guildId the guild to update
+     * @param keys the settings to remove
+     */
+    async unsetData(guildId: string, keys: Array<keyof GuildSettings>) {
+        const update = Object.fromEntries(keys.map((key) => [`data.${key}`, ''] as const));
+        await this.collection.updateOne({ _id: guildId }, { $unset: update });
+    }
+
+    /**
+     * Watches the collection for changes, which needs a replica set
+     * @returns a stream of the id and kind of each change
+     */
+    watchChanges(): ChangeStream<GuildDocument> {
+        return this.collection.watch([{ $project: { operationType: 1, documentKey: 1 } }]);
+    }
+}
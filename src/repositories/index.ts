@@ -0,0 +1,19 @@
+import { Db as DbConnection } from 'mongodb';
+import { BlacklistRepository } from './blacklist';
+import { GuildRepository } from './guilds';
+import { MigrationRepository } from './migrations';
+import { UserRepository } from './users';
+
+export { BlacklistRepository } from './blacklist';
+export { GuildRepository } from './guilds';
+export { MigrationRepository } from './migrations';
+export { UserRepository } from './users';
+
+/**
+ * Creates the indexes of every repository, safe to run on every start
+ * @param db the database connection
+ */
+export async function ensureIndexes(db: DbConnection) {
+    await Promise.all([new GuildRepository(db), new UserRepository(db), new BlacklistRepository(db), new MigrationRepository(db)]
+        .map((repository) => repository.ensureIndexes()));
+}
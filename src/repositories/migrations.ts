@@ -0,0 +1,74 @@
+import { Db as DbConnection, MongoServerError } from 'mongodb';
+import { getConfig } from '../config';
+import { Repository } from './repository';
+
+// The structure of a migration record, or of the lock held while migrations run.
+export interface MigrationDocument {
+    _id: string;
+    description?: string;
+    appliedAt?: Date;
+    durationMs?: number;
+    lockedAt?: Date;
+}
+
+// The id of the document held while migrations run, so two processes never run them at once.
+const LOCK_ID = '__lock__';
+// A lock older than this was left by a process that died mid-run.
+const STALE_LOCK_MS = 30 * 60 * 1000;
+
+/**
+ * The migrations applied to the database, keyed by migration id.
+ */
+export class MigrationRepository extends Repository<MigrationDocument> {
+    constructor(db: DbConnection, collectionName: string = getConfig().collectionNames.MIGRATIONS) {
+        super(db, collectionName);
+    }
+
+    async ensureIndexes() {
+        // Migrations are only ever looked up by id
+    }
+
+    /**
+     * @returns when each applied migration was applied, by id
+     */
+    async findApplied(): Promise<Map<string, Date>> {
+        const documents = await this.collection.find({ _id: { $ne: LOCK_ID } }).toArray();
+        return new Map(documents.map((document) => [document._id, document.appliedAt!]));
+    }
+
+    /**
+     * @param id the migration that was applied
+     * @param description what the migration does
+     * @param durationMs how long it took
+     */
+    async markApplied(id: string, description: string, durationMs: number) {
+        await this.collection.replaceOne({ _id: id }, { description, appliedAt: new Date(), durationMs }, { upsert: true });
+    }
+
+    /**
+     * @param id the migration that was reverted
+     */
+    async markReverted(id: string) {
+        await this.collection.deleteOne({ _id: id });
+    }
+
+    /**
+     * Takes the migration lock, replacing it if it was left behind by a process that died
+     * @returns whether the lock was taken
+     */
+    async acquireLock(): Promise<boolean> {
+        await this.collection.deleteOne({ _id: LOCK_ID, lockedAt: { $lt: new Date(Date.now() - STALE_LOCK_MS) } });
+        try {
+            await this.collection.insertOne({ _id: LOCK_ID, lockedAt: new Date() });
+            return true;
+        } catch (error) {
+            // A duplicate key means another process holds the lock
+            if (error instanceof MongoServerError && error.code === 11000) return false;
+            throw error;
+        }
+    }
+
+    async releaseLock() {
+        await this.collection.deleteOne({ _id: LOCK_ID });
+    }
+}
@@ -0,0 +1,16 @@
+import { Collection, Db as DbConnection, Document } from 'mongodb';
+
+/**
+ * Typed access to a single collection. Repositories take the database and collection
+ * name they use, so they can be pointed at another database such as an in-memory server.
+ */
+export abstract class Repository<T extends Document> {
+    protected readonly collection: Collection<T>;
+
+    constructor(db: DbConnection, readonly collectionName: string) {
+        this.collection = db.collection<T>(collectionName);
+    }
+
+    // Creates the indexes the repository's queries rely on, safe to run on every start
+    abstract ensureIndexes(): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import { Db as DbConnection } from 'mongodb';
+import { getConfig } from '../config';
+import { BotListName, Vote } from '../helpers/botLists';
+import { Repository } from './repository';
+
+// The structure of a user document in the database.
+export interface UserDocument {
+    _id: string;
+    // The locale the user chose for the bot's responses
+    locale?: string;
+    votes?: {
+        total: number;
+        lastVotedAt: Date;
+        lists: { [name in BotListName]?: number };
+    };
+}
+
+/**
+ * What the bot stores about users, such as their bot-list votes and locale, keyed by user id.
+ */
+export class UserRepository extends Repository<UserDocument> {
+    constructor(db: DbConnection, collectionName: string = getConfig().collectionNames.BOT_USERS) {
+        super(db, collectionName);
+    }
+
+    async ensureIndexes() {
+        await this.collection.createIndex({ 'votes.lastVotedAt': -1 }, { sparse: true });
+    }
+
+    /**
+     * Counts a vote towards the voter's totals, creating their document if needed
+     * @param vote the vote to record
+     */
+    async recordVote(vote: Vote) {
+        await this.collection.updateOne(
+            { _id: vote.userId },
+            {
+                $inc: { 'votes.total': vote.weight, [`votes.lists.${vote.list}`]: vote.weight },
+                $set: { 'votes.lastVotedAt': new Date() },
+            },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * @param userId the user to check
+     * @returns when the user last voted, or null if they never have
+     */
+    async lastVotedAt(userId: string): Promise<Date | null> {
+        const document = await this.collection.findOne({ _id: userId }, { projection: { 'votes.lastVotedAt': 1 } });
+        return document?.votes?.lastVotedAt ?? null;
+    }
+
+    /**
+     * @param userId the user to fetch
+     * @returns the locale the user chose, or null if they have not
+     */
+    async findLocale(userId: string): Promise<string | null> {
+        const document = await this.collection.findOne({ _id: userId }, { projection: { locale: 1 } });
+        return document?.locale ?? null;
+    }
+
+    /**
+     * Sets or clears the locale a user chose, creating their document if needed
+     * @param userId the user to update
+     * @param locale the locale to use, or null to clear it
+     */
+    async setLocale(userId: string, locale: string | null) {
+        if (locale === null) {
+            await this.collection.updateOne({ _id: userId }, { $unset: { locale: '' } });
+        } else {
+            await this.collection.updateOne({ _id: userId }, { $set: { locale } }, { upsert: true });
+        }
+    }
+}
@@ -0,0 +1,65 @@
+import { REST } from 'discord.js';
+import { initialiseConfig, getConfig } from './config.js';
+import { isBackupId } from './helpers/backup';
+import { backupDestinations, restoreBackup } from './handlers/backup';
+
+// Usage: node dist/restore.js <backupId|--list> [--collection <name>]... [--into <database>] [--from <destination>] [--replace]
+// Restores all or the given collections of a backup into the configured database, or the one given with --into.
+// Backups are read from the first configured destination unless one is named with --from.
+// Collections that already hold documents are skipped, unless --replace swaps them out once the backup is fully imported.
+
+// Main Function
+async function main() {
+  const args = process.argv.slice(2);
+  const flagValues = (flag: string) => args.filter((arg, index) => args[index - 1] === flag);
+  const backupId = args[0];
+
+  if (!backupId || (backupId !== '--list' && !isBackupId(backupId))) {
+    throw new Error('Usage: node dist/restore.js <backupId|--list> [--collection <name>]... [--into <database>] [--from <destination>] [--replace]');
+  }
+
+  await initialiseConfig();
+  const config = getConfig();
+  const rest = new REST().setToken(config.token);
+
+  const [from] = flagValues('--from');
+  const destinations = backupDestinations(rest);
+  const destination = from ? destinations.find((entry) => entry.name === from) : destinations[0];
+  if (!destination) {
+    throw new Error(from ? `No ${from} backup destination is configured.` : 'No backup destinations are configured.');
+  }
+
+  if (backupId === '--list') {
+    const ids = await destination.list();
+    console.log(ids.length > 0 ? ids.join('\n') : `No backups were found in ${destination.name}.`);
+    return;
+  }
+
+  const [into] = flagValues('--into');
+  const target = into ? config.db.client.db(into) : config.db;
+  const { restored, skipped } = await restoreBackup({
+    backupId,
+    destination,
+    target,
+    collections: flagValues('--collection'),
+    replace: args.includes('--replace'),
+  });
+
+  for (const [name, count] of Object.entries(restored)) {
+    console.log(`Restored ${count} documents into ${target.databaseName}.${name}.`);
+  }
+  for (const [name, reason] of Object.entries(skipped)) {
+    console.log(`Skipped ${name}: ${reason}.`);
+  }
+  if (Object.keys(skipped).length > 0) {
+    throw new Error(`Failed to restore ${Object.keys(skipped).length} collections.`);
+  }
+}
+
+// Run main
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+import path from 'path';
+import { ShardingManager } from 'discord.js';
+import { initialiseConfig, getConfig } from './config.js';
+import { configureLogger, logger } from './helpers/logger';
+
+// Usage: node dist/shard.js
+// Runs each shard of the bot in its own process, respawning any that exit.
+// The shard count is config.shards, or Discord's recommendation when unset or "auto".
+
+// Main Function
+async function main() {
+  await initialiseConfig();
+  const config = getConfig();
+  configureLogger({ level: config.logLevel, format: config.logFormat });
+  const log = logger.child('shards');
+
+  const manager = new ShardingManager(path.join(__dirname, 'index.js'), {
+    token: config.token,
+    totalShards: config.shards || 'auto',
+    respawn: true,
+  });
+
+  manager.on('shardCreate', (shard) => {
+    log.info(`Launched shard ${shard.id}.`);
+    shard.on('death', () => log.warn(`Shard ${shard.id} exited, respawning.`, { shardId: shard.id }));
+    shard.on('error', (error) => log.error(`Shard ${shard.id} errored.`, { shardId: shard.id, error }));
+  });
+
+  await manager.spawn();
+  log.info(`Spawned ${manager.shards.size} shards.`);
+}
+
+// Run main
+main().catch((error) => logger.fatal('Failed to start shards', { error }));
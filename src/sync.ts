@@ -0,0 +1,64 @@
+import { APIApplication, APIPartialGuild, REST, Routes } from 'discord.js';
+import { initialiseConfig, getConfig } from './config.js';
+import { loadAllCommands } from './handlers/command';
+import { applySyncPlan, fetchRemoteCommands } from './handlers/sync';
+import { describeSyncPlan, planSync } from './helpers/sync';
+
+// Usage: node dist/sync.js [--dry-run] [--guild <id>]...
+// Plans the application command changes needed to match the command files and applies them,
+// or only prints the plan with --dry-run. Guilds default to every guild the bot is in.
+
+// Fetch every guild the bot is in, a page at a time
+async function fetchGuildIds(rest: REST): Promise<string[]> {
+  const guildIds: string[] = [];
+  let after: string | undefined;
+
+  while (true) {
+    const query = new URLSearchParams({ limit: '200', ...(after ? { after } : {}) });
+    const guilds = await rest.get(Routes.userGuilds(), { query }) as APIPartialGuild[];
+    guildIds.push(...guilds.map((guild) => guild.id));
+
+    if (guilds.length < 200) return guildIds;
+    after = guilds[guilds.length - 1].id;
+  }
+}
+
+// Main Function
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const requestedGuilds = args.filter((arg, index) => args[index - 1] === '--guild');
+
+  await initialiseConfig();
+  const config = getConfig();
+  const rest = new REST().setToken(config.token);
+
+  const application = await rest.get(Routes.currentApplication()) as APIApplication;
+  const guildIds = requestedGuilds.length > 0 ? requestedGuilds : await fetchGuildIds(rest);
+
+  const { slashCommands } = await loadAllCommands();
+  const local = Array.from(slashCommands.values()).map((slashCommand) => slashCommand.toJSON());
+  const remote = await fetchRemoteCommands(rest, application.id, guildIds);
+
+  const plan = planSync(local, remote, { global: config.slashGlobal || false });
+  console.log(describeSyncPlan(plan));
+
+  if (dryRun) {
+    console.log('Dry run, no changes were applied.');
+    return;
+  }
+
+  const { updated, failed } = await applySyncPlan(rest, application.id, plan);
+  console.log(`Updated ${updated.length} scopes.`);
+  if (failed.length > 0) {
+    throw new Error(`Failed to update ${failed.length} scopes.`);
+  }
+}
+
+// Run main
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,134 @@
+import assert from 'assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { Migration, migrateDown, migrateUp, migrationStatus } from '../handlers/migrations';
+import { MigrationRepository } from '../repositories';
+import { startTestDatabase, TestDatabase } from './mongo';
+
+let database: TestDatabase;
+// The order migrations ran in, by direction and id
+let calls: string[];
+
+before(async () => {
+    database = await startTestDatabase();
+});
+beforeEach(async () => {
+    calls = [];
+    await database.reset();
+});
+after(() => database?.stop());
+
+const repository = () => new MigrationRepository(database.db, 'migrations');
+
+/**
+ * Simple function to build a migration that records when it runs
+ * @param id the id of the migration
+ * @param reversible whether the migration has a down step
+ * @returns the migration
+ */
+function migration(id: string, reversible: boolean = true): Migration {
+    return {
+        id,
+        description: `Migration ${id}`,
+        up: async () => {
+            calls.push(`up ${id}`);
+        },
+        down: reversible ? async () => {
+            calls.push(`down ${id}`);
+        } : undefined,
+    };
+}
+
+describe('migrateUp', () => {
+    it('applies pending migrations in order and records them', async () => {
+        const migrations = [migration('001'), migration('002')];
+
+        assert.deepEqual(await migrateUp(database.db, migrations, undefined, repository()), ['001', '002']);
+        assert.deepEqual(calls, ['up 001', 'up 002']);
+
+        const statuses = await migrationStatus(database.db, migrations, repository());
+        assert.ok(statuses.every((status) => status.appliedAt instanceof Date));
+    });
+
+    it('skips migrations that were already applied', async () => {
+        await migrateUp(database.db, [migration('001')], undefined, repository());
+        calls = [];
+
+        assert.deepEqual(await migrateUp(database.db, [migration('001'), migration('002')], undefined, repository()), ['002']);
+        assert.deepEqual(calls, ['up 002']);
+    });
+
+    it('stops at the target migration', async () => {
+        const migrations = [migration('001'), migration('002'), migration('003')];
+
+        assert.deepEqual(await migrateUp(database.db, migrations, '002', repository()), ['001', '002']);
+        await assert.rejects(migrateUp(database.db, migrations, '004', repository()), /There is no migration 004/);
+    });
+
+    it('stops at the first failure without recording it', async () => {
+        const failing: Migration = { ...migration('002'), up: async () => { throw new Error('Broken'); } };
+
+        await assert.rejects(migrateUp(database.db, [migration('001'), failing, migration('003')], undefined, repository()), /Broken/);
+        assert.deepEqual(Array.from((await repository().findApplied()).keys()), ['001']);
+        assert.deepEqual(calls, ['up 001']);
+    });
+});
+
+describe('migrateDown', () => {
+    it('reverts the most recently applied migrations first', async () => {
+        const migrations = [migration('001'), migration('002'), migration('003')];
+        await migrateUp(database.db, migrations, undefined, repository());
+        calls = [];
+
+        assert.deepEqual(await migrateDown(database.db, migrations, 2, repository()), ['003', '002']);
+        assert.deepEqual(calls, ['down 003', 'down 002']);
+        assert.deepEqual(Array.from((await repository().findApplied()).keys()), ['001']);
+    });
+
+    it('reverts nothing when a migration cannot be reverted', async () => {
+        const migrations = [migration('001', false), migration('002')];
+        await migrateUp(database.db, migrations, undefined, repository());
+        calls = [];
+
+        await assert.rejects(migrateDown(database.db, migrations, 2, repository()), /Migration 001 cannot be reverted/);
+        assert.deepEqual(calls, []);
+        assert.equal((await repository().findApplied()).size, 2);
+    });
+});
+
+describe('migration lock', () => {
+    it('is only held by one process at a time', async () => {
+        assert.equal(await repository().acquireLock(), true);
+        assert.equal(await repository().acquireLock(), false);
+
+        await repository().releaseLock();
+        assert.equal(await repository().acquireLock(), true);
+    });
+
+    it('stops migrations while another process holds it', async () => {
+        await repository().acquireLock();
+
+        await assert.rejects(migrateUp(database.db, [migration('001')], undefined, repository()), /already running/);
+        await assert.rejects(migrateDown(database.db, [migration('001')], 1, repository()), /already running/);
+        assert.deepEqual(calls, []);
+    });
+
+    it('is released after a migration fails', async () => {
+        const failing: Migration = { ...migration('001'), up: async () => { throw new Error('Broken'); } };
+        await assert.rejects(migrateUp(database.db, [failing], undefined, repository()), /Broken/);
+
+        assert.equal(await repository().acquireLock(), true);
+    });
+
+    it('is taken over when left behind by a process that died', async () => {
+        await database.db.collection<{ _id: string, lockedAt: Date }>('migrations')
+            .insertOne({ _id: '__lock__', lockedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+        assert.equal(await repository().acquireLock(), true);
+    });
+
+    it('is not counted as an applied migration', async () => {
+        await repository().acquireLock();
+
+        assert.equal((await repository().findApplied()).size, 0);
+    });
+});
@@ -0,0 +1,33 @@
+import { Db as DbConnection, MongoClient } from 'mongodb';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+// An in-memory Mongo server for a test file, so repositories are tested against a real database.
+export interface TestDatabase {
+    db: DbConnection;
+    // Empties the database between tests
+    reset: () => Promise<void>;
+    stop: () => Promise<void>;
+}
+
+/**
+ * Starts an in-memory Mongo server and connects to a database on it.
+ * The server binary is downloaded on first use, or MONGOMS_SYSTEM_BINARY can name one.
+ *
+ * @returns the database, and functions to empty it and to stop the server
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+    const server = await MongoMemoryServer.create();
+    const client = await MongoClient.connect(server.getUri());
+    const db = client.db('majestic-test');
+
+    return {
+        db,
+        reset: async () => {
+            await db.dropDatabase();
+        },
+        stop: async () => {
+            await client.close();
+            await server.stop();
+        },
+    };
+}
@@ -0,0 +1,80 @@
+import assert from 'assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { BlacklistRepository, GuildRepository } from '../repositories';
+import { BlacklistEntry } from '../repositories/blacklist';
+import { startTestDatabase, TestDatabase } from './mongo';
+
+let database: TestDatabase;
+
+before(async () => {
+    database = await startTestDatabase();
+});
+beforeEach(() => database.reset());
+after(() => database?.stop());
+
+describe('GuildRepository', () => {
+    const repository = () => new GuildRepository(database.db, 'guilds');
+
+    it('finds no data for a guild without a document', async () => {
+        assert.equal(await repository().findData('1'), null);
+    });
+
+    it('creates the document and merges changes into it', async () => {
+        await repository().updateData('1', { prefix: '?' });
+        await repository().updateData('1', { locale: 'fr', disabledCommands: ['ping'] });
+
+        assert.deepEqual(await repository().findData('1'), { prefix: '?', locale: 'fr', disabledCommands: ['ping'] });
+    });
+
+    it('unsets only the given settings', async () => {
+        await repository().updateData('1', { prefix: '?', locale: 'fr' });
+        await repository().unsetData('1', ['prefix']);
+
+        assert.deepEqual(await repository().findData('1'), { locale: 'fr' });
+    });
+
+    it('keeps guilds apart', async () => {
+        await repository().updateData('1', { prefix: '?' });
+
+        assert.equal(await repository().findData('2'), null);
+    });
+});
+
+describe('BlacklistRepository', () => {
+    const repository = () => new BlacklistRepository(database.db, 'blacklist');
+    const entry = (id: string, expiresAt: Date | null = null): BlacklistEntry => ({
+        _id: id,
+        type: 'user',
+        reason: 'Spam',
+        issuedBy: '100',
+        issuedAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt,
+    });
+
+    it('stores and replaces entries by id', async () => {
+        await repository().upsert(entry('1'));
+        await repository().upsert({ ...entry('1'), reason: 'Abuse' });
+        await repository().upsert(entry('2', new Date('2030-01-01T00:00:00Z')));
+
+        const entries = await repository().findAll();
+        assert.equal(entries.length, 2);
+        assert.equal(entries.find((stored) => stored._id === '1')?.reason, 'Abuse');
+        assert.deepEqual(entries.find((stored) => stored._id === '2')?.expiresAt, new Date('2030-01-01T00:00:00Z'));
+    });
+
+    it('reports whether an entry was deleted', async () => {
+        await repository().upsert(entry('1'));
+
+        assert.equal(await repository().delete('1'), true);
+        assert.equal(await repository().delete('1'), false);
+        assert.deepEqual(await repository().findAll(), []);
+    });
+
+    it('lets Mongo expire entries once they pass their expiry', async () => {
+        await repository().ensureIndexes();
+
+        const indexes = await database.db.collection('blacklist').indexes();
+        const expiryIndex = indexes.find((index) => index.key.expiresAt === 1);
+        assert.equal(expiryIndex?.expireAfterSeconds, 0);
+    });
+});